@@ -0,0 +1,152 @@
+import { AlertManager, type AlertEngine } from './index.js';
+import { parseAlertRule } from './rules.js';
+import { DockerDriver } from '../engine/drivers/docker.js';
+import { MetricsCollector } from '../metrics/index.js';
+import { MetricsReplay } from '../metrics/recording.js';
+import { MB, containerMetrics, metricsFrame } from '../test-support/metrics.js';
+import type { Alert, ComposeLabels, ContainerEvent, ContainerEventAction, ContainerInfo, MetricsFrame } from '../types/index.js';
+import type { RunResult } from '../types/process.js';
+
+// Emits container events by hand and lists a fixed set of containers
+class FakeEngine implements AlertEngine {
+  private listeners: Set<(event: ContainerEvent) => void> = new Set();
+
+  constructor(private containers: ContainerInfo[] = []) {}
+
+  async listContainers(): Promise<ContainerInfo[]> {
+    return this.containers;
+  }
+
+  onContainerEvent(callback: (event: ContainerEvent) => void): () => void {
+    this.listeners.add(callback);
+    return () => {
+      this.listeners.delete(callback);
+    };
+  }
+
+  emit(action: ContainerEventAction, name: string): void {
+    const event: ContainerEvent = { action, id: `${name}-id`, name, timestamp: new Date() };
+    this.listeners.forEach(listener => listener(event));
+  }
+}
+
+// Answers every CLI call with the given `docker stats` output
+class StatsOutputDriver extends DockerDriver {
+  constructor(private stdout: string) {
+    super();
+  }
+
+  protected async execute(): Promise<RunResult> {
+    return { stdout: this.stdout, stderr: '', exitCode: 0 };
+  }
+}
+
+function container(name: string, compose: ComposeLabels): ContainerInfo {
+  return { id: `${name}-id`, name, image: 'nginx', status: 'running', ports: [], created: new Date(0), compose };
+}
+
+// Host at `cpu` percent, demo-web-1 using `webMemory` megabytes
+function frame(timestamp: number, cpu: number, webMemory = 100): MetricsFrame {
+  return metricsFrame(timestamp, cpu, [containerMetrics('demo-web-1', { memory: webMemory * MB })]);
+}
+
+describe('AlertManager', () => {
+  let collector: MetricsCollector;
+  let alerts: Alert[];
+
+  beforeEach(() => {
+    collector = new MetricsCollector();
+    alerts = [];
+  });
+
+  function managerFor(rules: string[], engine = new FakeEngine()): AlertManager {
+    const manager = new AlertManager(collector, engine);
+    manager.configure({ rules: rules.map(rule => parseAlertRule(rule)), sinks: [] });
+    manager.onAlert(alert => alerts.push(alert));
+    manager.start();
+    return manager;
+  }
+
+  it('fires once the condition held for the recorded time and resolves when it stops', () => {
+    const manager = managerFor(['cpu > 80 for 10s on host']);
+    const replay = new MetricsReplay([frame(0, 90), frame(5000, 95), frame(10000, 92), frame(15000, 97), frame(20000, 40)]);
+    collector.replay(replay);
+
+    replay.step();
+    replay.step();
+    expect(alerts).toEqual([]);
+
+    replay.step();
+    expect(alerts).toMatchObject([{ rule: 'cpu > 80 for 10s on host', target: 'host', state: 'firing', value: 92 }]);
+    expect(alerts[0]?.since).toEqual(new Date(10000));
+
+    replay.step();
+    expect(alerts).toHaveLength(1);
+    expect(manager.getFiring()).toMatchObject([{ value: 97, message: 'host CPU 97.0% (> 80.0%)' }]);
+
+    replay.step();
+    expect(alerts[1]).toMatchObject({ state: 'resolved', value: 40 });
+    expect(manager.getFiring()).toEqual([]);
+  });
+
+  it('matches services by their compose labels once the container list arrives', async () => {
+    const manager = managerFor(['memory > 512m on service web'], new FakeEngine([
+      container('demo-web-1', { project: 'demo', service: 'web' }),
+    ]));
+    const replay = new MetricsReplay([frame(0, 10, 600), frame(2000, 10, 700)]);
+    collector.replay(replay);
+
+    replay.step();
+    // The labels are looked up in the background
+    await new Promise(resolve => setImmediate(resolve));
+    replay.step();
+
+    expect(manager.getFiring()).toMatchObject([{ target: 'demo-web-1', message: 'demo-web-1 memory 700.0 MB (> 512.0 MB)' }]);
+  });
+
+  it('matches containers by name in metrics read from the CLI', async () => {
+    const driver = new StatsOutputDriver([
+      'CONTAINER ID\tNAME\tCPU %\tMEM USAGE / LIMIT\tMEM %\tNET I/O',
+      '0123456789ab\tdemo-web-1\t91.50%\t100MiB / 1GiB\t9.77%\t1.2kB / 800B',
+    ].join('\n'));
+    const metrics = await driver.getContainerMetrics();
+    expect(metrics).toMatchObject([{ id: '0123456789ab', name: 'demo-web-1', cpu: 91.5 }]);
+
+    const manager = managerFor(['cpu > 90 on container demo-web-1']);
+    const replay = new MetricsReplay([metricsFrame(0, 10, metrics)]);
+    collector.replay(replay);
+    replay.step();
+
+    expect(manager.getFiring()).toMatchObject([{ target: 'demo-web-1', value: 91.5 }]);
+  });
+
+  it('counts a start after a die as a restart', () => {
+    const engine = new FakeEngine();
+    const manager = managerFor(['restarts > 1 in 5m on container demo-web-1'], engine);
+
+    engine.emit('start', 'demo-web-1');
+    engine.emit('die', 'demo-web-1');
+    engine.emit('start', 'demo-web-1');
+    expect(alerts).toEqual([]);
+
+    engine.emit('die', 'demo-web-1');
+    engine.emit('start', 'demo-web-1');
+    expect(alerts).toMatchObject([{ state: 'firing', target: 'demo-web-1', value: 2, message: 'demo-web-1 restarted 2 times in 5m (> 1)' }]);
+
+    manager.stop();
+    engine.emit('die', 'demo-web-1');
+    engine.emit('start', 'demo-web-1');
+    expect(alerts).toHaveLength(1);
+  });
+
+  it('drops the alerts of rules that are configured away', () => {
+    const manager = managerFor(['cpu > 80 on host']);
+    const replay = new MetricsReplay([frame(0, 90)]);
+    collector.replay(replay);
+    replay.step();
+    expect(manager.getFiring()).toHaveLength(1);
+
+    manager.configure({ rules: [], sinks: [] });
+    expect(manager.getFiring()).toEqual([]);
+  });
+});
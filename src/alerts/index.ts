@@ -0,0 +1,291 @@
+import { containerEngine, type ContainerEngineManager } from '../engine/index.js';
+import { ComposeLabelCache } from '../engine/labels.js';
+import { metricsCollector, type MetricsCollector } from '../metrics/index.js';
+import { compareThreshold } from './rules.js';
+import { sendToSink } from './sinks.js';
+import type {
+  Alert,
+  AlertRule,
+  AlertSettings,
+  AlertSink,
+  ContainerEvent,
+  ContainerMetrics,
+  SystemMetrics,
+} from '../types/index.js';
+
+// Target name of alerts on the host's own metrics
+export const HOST_TARGET = 'host';
+
+// The engine's container events, and its container list for compose labels
+export type AlertEngine = Pick<ContainerEngineManager, 'listContainers' | 'onContainerEvent'>;
+
+const METRIC_LABELS: Record<AlertRule['metric'], string> = {
+  'cpu': 'CPU',
+  'memory': 'memory',
+  'memory.percentage': 'memory',
+  'restarts': 'restarts',
+};
+
+// A rule's condition holding for one target; an alert once it held long enough
+interface Condition {
+  since: number;
+  alert: Alert | undefined;
+}
+
+/**
+ * Evaluates the alert rules of cronos.yml against every metrics update and
+ * the engine's container events, and hands alerts that start or stop
+ * firing to the configured sinks.
+ */
+export class AlertManager {
+  private rules: AlertRule[] = [];
+  private sinks: AlertSink[] = [];
+  private conditions: Map<string, Condition> = new Map();
+  // Start times of containers that came back after dying, by container name
+  private restarts: Map<string, number[]> = new Map();
+  private died: Set<string> = new Set();
+  private compose: ComposeLabelCache;
+  private listeners: Set<(alert: Alert) => void> = new Set();
+  private unsubscribe: (() => void)[] = [];
+
+  constructor(
+    private collector: MetricsCollector = metricsCollector,
+    private engine: AlertEngine = containerEngine,
+  ) {
+    this.compose = new ComposeLabelCache(() => this.engine.listContainers());
+  }
+
+  // Applies the alerts section of cronos.yml; alerts of dropped rules go quietly
+  configure(settings: AlertSettings = { rules: [], sinks: [] }): void {
+    this.rules = settings.rules;
+    this.sinks = settings.sinks;
+
+    const names = new Set(this.rules.map(rule => rule.name));
+    for (const key of this.conditions.keys()) {
+      if (!names.has(this.ruleOf(key))) {
+        this.conditions.delete(key);
+      }
+    }
+  }
+
+  getRules(): AlertRule[] {
+    return [...this.rules];
+  }
+
+  start(): void {
+    if (this.unsubscribe.length > 0) return;
+
+    this.unsubscribe = [
+      this.collector.onMetricsUpdate((system, containers, timestamp) => {
+        this.evaluateMetrics(system, containers, timestamp);
+        // Restarts age out of their window as time passes
+        this.evaluateRestarts(Date.now());
+      }),
+      this.engine.onContainerEvent(event => this.handleEvent(event)),
+    ];
+  }
+
+  stop(): void {
+    this.unsubscribe.forEach(unsubscribe => unsubscribe());
+    this.unsubscribe = [];
+  }
+
+  getFiring(): Alert[] {
+    return [...this.conditions.values()].flatMap(condition => condition.alert ? [condition.alert] : []);
+  }
+
+  // Called with every alert that starts or stops firing
+  onAlert(callback: (alert: Alert) => void): () => void {
+    this.listeners.add(callback);
+
+    return () => {
+      this.listeners.delete(callback);
+    };
+  }
+
+  // Set by the owner to hear about sinks that could not take an alert
+  onSinkError?: (sink: AlertSink, error: Error) => void;
+
+  // Metric rules measure time by the metrics' timestamps, so replays behave as recorded
+  private evaluateMetrics(system: SystemMetrics, containers: ContainerMetrics[], timestamp: number): void {
+    this.refreshComposeLabels(containers.map(container => container.name));
+
+    for (const rule of this.rules) {
+      if (rule.metric === 'restarts') continue;
+
+      const values = rule.scope?.kind === 'host'
+        ? [[HOST_TARGET, this.hostValue(rule, system)] as const]
+        : containers.filter(container => this.matches(rule, container.name))
+          .map(container => [container.name, this.containerValue(rule, container)] as const);
+
+      this.evaluateRule(rule, new Map(values), timestamp);
+    }
+  }
+
+  private evaluateRestarts(now: number): void {
+    for (const rule of this.rules) {
+      if (rule.metric !== 'restarts') continue;
+
+      const start = now - (rule.window ?? 0) * 1000;
+      const counts = [...this.restarts].filter(([name]) => this.matches(rule, name))
+        .map(([name, times]) => [name, times.filter(time => time > start).length] as const);
+      this.evaluateRule(rule, new Map(counts), now);
+    }
+
+    // Nothing looks further back than the longest window
+    const longest = Math.max(0, ...this.rules.map(rule => rule.window ?? 0)) * 1000;
+    for (const [name, times] of this.restarts) {
+      const kept = times.filter(time => time > now - longest);
+      if (kept.length > 0) {
+        this.restarts.set(name, kept);
+      } else if (!this.isFiringFor(name)) {
+        this.restarts.delete(name);
+      }
+    }
+  }
+
+  private handleEvent(event: ContainerEvent): void {
+    switch (event.action) {
+      case 'die':
+        this.died.add(event.name);
+        break;
+      // A start after dying is a restart, whether the engine's restart
+      // policy, `restart` or someone by hand brought it back
+      case 'start':
+        if (!this.died.delete(event.name)) break;
+        this.restarts.set(event.name, [...this.restarts.get(event.name) ?? [], event.timestamp.getTime()]);
+        this.refreshComposeLabels([event.name]);
+        this.evaluateRestarts(Date.now());
+        break;
+      case 'destroy':
+        this.died.delete(event.name);
+        break;
+    }
+  }
+
+  // Targets missing from `values` are gone, so their alerts resolve
+  private evaluateRule(rule: AlertRule, values: Map<string, number>, now: number): void {
+    for (const [target, value] of values) {
+      this.update(rule, target, value, compareThreshold(value, rule.operator, rule.threshold), now);
+    }
+
+    for (const [key, condition] of this.conditions) {
+      if (this.ruleOf(key) === rule.name && !values.has(this.targetOf(key))) {
+        this.update(rule, this.targetOf(key), condition.alert?.value ?? 0, false, now);
+      }
+    }
+  }
+
+  private update(rule: AlertRule, target: string, value: number, holds: boolean, now: number): void {
+    const key = `${rule.name}\n${target}`;
+    let condition = this.conditions.get(key);
+
+    if (!holds) {
+      if (!condition) return;
+      this.conditions.delete(key);
+      if (condition.alert) {
+        this.notify({ ...condition.alert, state: 'resolved', value, message: this.describe(rule, target, value) });
+      }
+      return;
+    }
+
+    if (!condition) {
+      condition = { since: now, alert: undefined };
+      this.conditions.set(key, condition);
+    }
+
+    if (condition.alert) {
+      condition.alert.value = value;
+      condition.alert.message = this.describe(rule, target, value);
+    } else if (now - condition.since >= (rule.for ?? 0) * 1000) {
+      condition.alert = {
+        rule: rule.name,
+        target,
+        state: 'firing',
+        value,
+        message: this.describe(rule, target, value),
+        since: new Date(now),
+      };
+      this.notify({ ...condition.alert });
+    }
+  }
+
+  private notify(alert: Alert): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(alert);
+      } catch (error) {
+        console.error('Error in alert listener:', error);
+      }
+    });
+
+    for (const sink of this.sinks) {
+      if (alert.state === 'resolved' && !sink.send_resolved) continue;
+      sendToSink(sink, alert).catch(error => this.onSinkError?.(sink, error as Error));
+    }
+  }
+
+  private describe(rule: AlertRule, target: string, value: number): string {
+    if (rule.metric === 'restarts') {
+      const window = this.formatSeconds(rule.window ?? 0);
+      return `${target} restarted ${value} time${value === 1 ? '' : 's'} in ${window} (${rule.operator} ${rule.threshold})`;
+    }
+    return `${target} ${METRIC_LABELS[rule.metric]} ${this.formatValue(rule, value)} (${rule.operator} ${this.formatValue(rule, rule.threshold)})`;
+  }
+
+  private formatValue(rule: AlertRule, value: number): string {
+    return rule.metric === 'memory' ? this.collector.formatMemory(value) : `${value.toFixed(1)}%`;
+  }
+
+  private formatSeconds(seconds: number): string {
+    if (seconds % 3600 === 0) return `${seconds / 3600}h`;
+    return seconds % 60 === 0 ? `${seconds / 60}m` : `${seconds}s`;
+  }
+
+  private hostValue(rule: AlertRule, system: SystemMetrics): number {
+    switch (rule.metric) {
+      case 'cpu': return system.cpu;
+      case 'memory': return system.memory.used;
+      default: return system.memory.percentage;
+    }
+  }
+
+  private containerValue(rule: AlertRule, container: ContainerMetrics): number {
+    switch (rule.metric) {
+      case 'cpu': return container.cpu;
+      case 'memory': return container.memory.used;
+      default: return container.memory.percentage;
+    }
+  }
+
+  private matches(rule: AlertRule, name: string): boolean {
+    switch (rule.scope?.kind) {
+      case undefined: return true;
+      case 'host': return false;
+      case 'container': return rule.scope.name === name;
+      // Containers without compose labels only match a service of the same name
+      case 'service': return (this.compose.get(name)?.service || name) === rule.scope.name;
+    }
+  }
+
+  private isFiringFor(target: string): boolean {
+    return [...this.conditions.keys()].some(key => this.targetOf(key) === target);
+  }
+
+  private ruleOf(key: string): string {
+    return key.substring(0, key.indexOf('\n'));
+  }
+
+  private targetOf(key: string): string {
+    return key.substring(key.indexOf('\n') + 1);
+  }
+
+  // Only service rules need compose labels
+  private refreshComposeLabels(names: string[]): void {
+    if (this.rules.some(rule => rule.scope?.kind === 'service')) {
+      this.compose.refresh(names);
+    }
+  }
+}
+
+export const alertManager = new AlertManager();
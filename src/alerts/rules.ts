@@ -0,0 +1,86 @@
+import { parseDuration, parseMemoryLimit } from '../engine/units.js';
+import type { AlertMetric, AlertOperator, AlertRule, AlertScope } from '../types/index.js';
+
+// Restarts are counted over this many seconds unless the rule says "in ..."
+export const DEFAULT_RESTART_WINDOW = 5 * 60;
+
+const METRICS: AlertMetric[] = ['cpu', 'memory.percentage', 'memory', 'restarts'];
+
+// metric, operator, threshold, then optional "for", "in" and "on" clauses in that order
+const RULE_PATTERN = /^(\S+)\s*(>=|<=|>|<)\s*(\S+?)%?(?:\s+for\s+(\S+))?(?:\s+in\s+(\S+))?(?:\s+on\s+(.+))?$/i;
+
+function parseScope(value: string, expression: string): AlertScope {
+  const [kind = '', name, ...rest] = value.trim().split(/\s+/);
+
+  if (kind === 'host' && !name) {
+    return { kind: 'host' };
+  }
+  if ((kind === 'service' || kind === 'container') && name && rest.length === 0) {
+    return { kind, name };
+  }
+  throw new Error(`Alert rule '${expression}' - expected "on host", "on service <name>" or "on container <name>"`);
+}
+
+function parseSeconds(value: string, clause: string, expression: string): number {
+  const seconds = parseDuration(value);
+  if (seconds === undefined || !(seconds > 0)) {
+    throw new Error(`Alert rule '${expression}' - "${clause} ${value}" needs a duration like 30s, 5m or 1h`);
+  }
+  return seconds;
+}
+
+/**
+ * Reads a rule such as "memory.percentage > 90 for 30s on service api" or
+ * "restarts > 3 in 5m". Memory thresholds take sizes like 512m; the others
+ * are plain numbers.
+ */
+export function parseAlertRule(expression: string, name = expression): AlertRule {
+  const match = expression.trim().match(RULE_PATTERN);
+  if (!match) {
+    throw new Error(`Alert rule '${expression}' - expected e.g. "cpu > 80 for 1m on service api"`);
+  }
+
+  const [, metricName = '', operator = '>', value = '', forClause, inClause, onClause] = match;
+  const metric = METRICS.find(candidate => candidate === metricName.toLowerCase());
+  if (!metric) {
+    throw new Error(`Alert rule '${expression}' - unknown metric '${metricName}', use one of ${METRICS.join(', ')}`);
+  }
+
+  const threshold = metric === 'memory' ? parseMemoryLimit(value) : Number(value);
+  if (threshold === undefined || !Number.isFinite(threshold)) {
+    throw new Error(`Alert rule '${expression}' - '${value}' is not a valid ${metric === 'memory' ? 'size' : 'number'}`);
+  }
+
+  const scope = onClause ? parseScope(onClause, expression) : undefined;
+
+  if (metric === 'restarts') {
+    if (forClause) {
+      throw new Error(`Alert rule '${expression}' - restarts are counted "in" a window, not "for" a time`);
+    }
+    if (scope?.kind === 'host') {
+      throw new Error(`Alert rule '${expression}' - only containers restart`);
+    }
+  } else if (inClause) {
+    throw new Error(`Alert rule '${expression}' - "in" only applies to restarts; use "for" to require the condition to last`);
+  }
+
+  return {
+    name,
+    expression,
+    metric,
+    operator: operator as AlertOperator,
+    threshold,
+    for: forClause ? parseSeconds(forClause, 'for', expression) : undefined,
+    window: metric === 'restarts' ? (inClause ? parseSeconds(inClause, 'in', expression) : DEFAULT_RESTART_WINDOW) : undefined,
+    scope,
+  };
+}
+
+export function compareThreshold(value: number, operator: AlertOperator, threshold: number): boolean {
+  switch (operator) {
+    case '>': return value > threshold;
+    case '>=': return value >= threshold;
+    case '<': return value < threshold;
+    case '<=': return value <= threshold;
+  }
+}
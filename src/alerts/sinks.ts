@@ -0,0 +1,94 @@
+import { request as httpRequest } from 'http';
+import { request as httpsRequest } from 'https';
+import { ProcessError, runProcess } from '../process/index.js';
+import type { Alert, AlertSink } from '../types/index.js';
+
+const SINK_TIMEOUT_MS = 10000;
+
+function describeAlert(alert: Alert): string {
+  return alert.state === 'firing' ? `Alert ${alert.rule} firing` : `Alert ${alert.rule} resolved`;
+}
+
+// What webhooks receive; commands get the same fields as CRONOS_ALERT_* variables
+function toPayload(alert: Alert): Record<string, string | number> {
+  return {
+    rule: alert.rule,
+    target: alert.target,
+    state: alert.state,
+    value: alert.value,
+    message: alert.message,
+    since: alert.since.toISOString(),
+  };
+}
+
+function postJson(url: string, body: unknown): Promise<void> {
+  const target = new URL(url);
+  const request = target.protocol === 'https:' ? httpsRequest : httpRequest;
+  const data = JSON.stringify(body);
+
+  return new Promise((resolve, reject) => {
+    const req = request(target, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Content-Length': Buffer.byteLength(data) },
+      timeout: SINK_TIMEOUT_MS,
+    }, response => {
+      response.resume();
+      const status = response.statusCode ?? 0;
+      if (status >= 200 && status < 300) {
+        resolve();
+      } else {
+        reject(new Error(`Webhook ${url} answered ${status}`));
+      }
+    });
+
+    req.on('timeout', () => req.destroy(new Error(`Webhook ${url} did not answer within ${SINK_TIMEOUT_MS / 1000}s`)));
+    req.on('error', reject);
+    req.end(data);
+  });
+}
+
+async function notifyDesktop(alert: Alert): Promise<void> {
+  try {
+    await runProcess('notify-send', [
+      '--app-name=Cronos',
+      `--urgency=${alert.state === 'firing' ? 'critical' : 'normal'}`,
+      describeAlert(alert),
+      alert.message,
+    ], { timeoutMs: SINK_TIMEOUT_MS });
+  } catch (error) {
+    if (error instanceof ProcessError && error.exitCode === 127) {
+      throw new Error('notify-send not found - install libnotify for desktop notifications');
+    }
+    throw error;
+  }
+}
+
+async function runCommand(command: string, alert: Alert): Promise<void> {
+  const variables = Object.fromEntries(Object.entries(toPayload(alert))
+    .map(([name, value]) => [`CRONOS_ALERT_${name.toUpperCase()}`, String(value)]));
+
+  await runProcess('sh', ['-c', command], {
+    env: { ...process.env, ...variables },
+    timeoutMs: SINK_TIMEOUT_MS,
+  });
+}
+
+/**
+ * Hands an alert to one sink. Fails when the sink could not take it, e.g.
+ * a webhook answering with an error status.
+ */
+export async function sendToSink(sink: AlertSink, alert: Alert): Promise<void> {
+  switch (sink.type) {
+    case 'bell':
+      process.stdout.write('\x07');
+      return;
+    case 'desktop':
+      return notifyDesktop(alert);
+    case 'webhook':
+      if (!sink.url) throw new Error('Webhook alert sink has no url');
+      return postJson(sink.url, toPayload(alert));
+    case 'command':
+      if (!sink.command) throw new Error('Command alert sink has no command');
+      return runCommand(sink.command, alert);
+  }
+}
@@ -0,0 +1,39 @@
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { COMPOSE_FILE_NAMES, configManager } from '../config/index.js';
+import { containerEngine } from '../engine/index.js';
+import type { BuildOptions, BuildSummary, ServiceConfig } from '../types/index.js';
+
+/**
+ * Builds the services from cronos.yml. Services with a compose file build
+ * every image it declares; a bare Dockerfile is built and tagged with the
+ * service name.
+ */
+export class ServiceBuilder {
+  async build(service: ServiceConfig, options: BuildOptions = {}): Promise<BuildSummary> {
+    const context = configManager.resolveServiceContext(service);
+    const directory = configManager.resolveServiceDirectory(service);
+    const files = await fs.readdir(directory).catch(() => [] as string[]);
+
+    if (context.files || files.some(file => COMPOSE_FILE_NAMES.includes(file))) {
+      return containerEngine.buildServices([], context, service.engine, options);
+    }
+
+    if (files.includes('Dockerfile')) {
+      return containerEngine.buildImage({
+        directory,
+        tag: this.imageTag(service),
+        dockerfile: join(directory, 'Dockerfile'),
+      }, service.engine, options);
+    }
+
+    throw new Error(`Service '${service.name}' has no compose file or Dockerfile to build`);
+  }
+
+  // Image names must be lowercase
+  private imageTag(service: ServiceConfig): string {
+    return service.name.toLowerCase().replace(/[^a-z0-9_.-]/g, '-');
+  }
+}
+
+export const serviceBuilder = new ServiceBuilder();
@@ -0,0 +1,119 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ComposeFileParser, interpolate } from './index.js';
+
+describe('interpolate', () => {
+  const env = { TAG: '1.2', EMPTY: '' };
+
+  it('substitutes braced and bare variables', () => {
+    expect(interpolate('nginx:${TAG}', env)).toBe('nginx:1.2');
+    expect(interpolate('nginx:$TAG', env)).toBe('nginx:1.2');
+    expect(interpolate('nginx:${MISSING}', env)).toBe('nginx:');
+  });
+
+  it('falls back to defaults for unset and, with a colon, empty variables', () => {
+    expect(interpolate('${MISSING:-latest}', env)).toBe('latest');
+    expect(interpolate('${EMPTY:-latest}', env)).toBe('latest');
+    expect(interpolate('${EMPTY-latest}', env)).toBe('');
+    expect(interpolate('${TAG:-latest}', env)).toBe('1.2');
+  });
+
+  it('replaces set variables with the alternative', () => {
+    expect(interpolate('${TAG:+pinned}', env)).toBe('pinned');
+    expect(interpolate('${MISSING:+pinned}', env)).toBe('');
+  });
+
+  it('fails on required variables that are not set', () => {
+    expect(() => interpolate('${MISSING:?set MISSING first}', env)).toThrow('set MISSING first');
+    expect(() => interpolate('${EMPTY:?}', env)).toThrow('Variable EMPTY is not set');
+  });
+
+  it('keeps $$ as a literal dollar', () => {
+    expect(interpolate('echo $$TAG', env)).toBe('echo $TAG');
+  });
+});
+
+describe('ComposeFileParser', () => {
+  let directory: string;
+  const parser = new ComposeFileParser();
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'cronos-compose-'));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+    delete process.env.CRONOS_TEST_WEB_PORT;
+  });
+
+  function write(file: string, content: string): void {
+    writeFileSync(join(directory, file), content);
+  }
+
+  it('merges files in order and reads variables from .env', async () => {
+    write('.env', 'CRONOS_TEST_WEB_PORT=8080\n');
+    write('compose.yml', [
+      'name: Demo App',
+      'services:',
+      '  web:',
+      '    image: nginx:${CRONOS_TEST_TAG:-alpine}',
+      '    ports: ["${CRONOS_TEST_WEB_PORT}:80"]',
+      '    depends_on: [db]',
+      '  db:',
+      '    image: postgres:16',
+    ].join('\n'));
+    write('compose.dev.yml', [
+      'services:',
+      '  web:',
+      '    ports: ["127.0.0.1:9229:9229"]',
+      '    depends_on:',
+      '      cache: { condition: service_healthy }',
+      '  cache:',
+      '    image: redis',
+      '    profiles: [dev]',
+    ].join('\n'));
+
+    const project = await parser.parse({ cwd: directory, files: ['compose.yml', 'compose.dev.yml'] });
+
+    expect(project.name).toBe('demoapp');
+    expect(project.files).toEqual([join(directory, 'compose.yml'), join(directory, 'compose.dev.yml')]);
+    expect(project.services.map(service => service.name)).toEqual(['web', 'db', 'cache']);
+    expect(project.services[0]).toMatchObject({
+      image: 'nginx:alpine',
+      dependsOn: ['db', 'cache'],
+      ports: [
+        { hostIp: '', hostPort: 8080, containerPort: 80, service: 'web' },
+        { hostIp: '127.0.0.1', hostPort: 9229, containerPort: 9229, service: 'web' },
+      ],
+    });
+    expect(project.services[2]?.profiles).toEqual(['dev']);
+  });
+
+  it('lets the shell environment win over .env', async () => {
+    process.env.CRONOS_TEST_WEB_PORT = '9090';
+    write('.env', 'CRONOS_TEST_WEB_PORT=8080\n');
+    write('compose.yml', 'services:\n  web:\n    image: nginx\n    ports: ["${CRONOS_TEST_WEB_PORT}:80"]\n');
+
+    const project = await parser.parse({ cwd: directory, files: ['compose.yml'] });
+    expect(project.services[0]?.ports.map(port => port.hostPort)).toEqual([9090]);
+  });
+
+  it('resolves extends across files', async () => {
+    write('base.yml', 'services:\n  app:\n    image: node:20\n    environment: { NODE_ENV: production }\n');
+    write('compose.yml', 'services:\n  api:\n    extends: { file: base.yml, service: app }\n    ports: ["3000:3000"]\n');
+
+    const project = await parser.parse({ cwd: directory, files: ['compose.yml'] });
+    expect(project.services).toMatchObject([{ name: 'api', image: 'node:20', ports: [{ hostPort: 3000 }] }]);
+  });
+
+  it('rejects circular extends', async () => {
+    write('compose.yml', 'services:\n  a:\n    extends: b\n  b:\n    extends: a\n');
+
+    await expect(parser.parse({ cwd: directory, files: ['compose.yml'] })).rejects.toThrow('Circular extends: compose.yml:b -> compose.yml:a -> compose.yml:b');
+  });
+
+  it('fails when there is no compose file', async () => {
+    await expect(parser.parse({ cwd: directory })).rejects.toThrow(`No compose file found in ${directory}`);
+  });
+});
@@ -0,0 +1,311 @@
+import { promises as fs } from 'fs';
+import { basename, dirname, join, resolve } from 'path';
+import * as dotenv from 'dotenv';
+import * as yaml from 'yaml';
+import { COMPOSE_FILE_NAMES, COMPOSE_OVERRIDE_FILES, configManager } from '../config/index.js';
+import { parsePortSpec } from '../engine/ports.js';
+import type {
+  ComposeContext,
+  ComposeProject,
+  ContainerInfo,
+  DeclaredService,
+  PortBinding,
+} from '../types/index.js';
+
+// Lists a later file replaces instead of extending
+const REPLACED_LISTS = ['command', 'entrypoint'];
+
+type RawService = Record<string, unknown>;
+
+interface RawDocument {
+  name?: string;
+  services?: Record<string, RawService | null> | null;
+}
+
+interface RawPort {
+  target?: number | string;
+  published?: number | string;
+  host_ip?: string;
+  protocol?: string;
+}
+
+function isMapping(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Substitutes ${VAR}, ${VAR:-default}, ${VAR-default}, ${VAR:?error},
+ * ${VAR:+replacement} and $VAR the way compose does. $$ is a literal $.
+ */
+export function interpolate(value: string, env: Record<string, string | undefined>): string {
+  return value.replace(/\$\$|\$\{(\w+)(?:(:?[-?+])([^}]*))?\}|\$(\w+)/g, (match, braced?: string, modifier?: string, argument = '', bare?: string) => {
+    if (match === '$$') return '$';
+
+    const name = braced ?? bare ?? '';
+    const current = env[name];
+    const set = modifier?.startsWith(':') ? !!current : current !== undefined;
+
+    switch (modifier) {
+      case ':-': case '-': return set ? current! : argument;
+      case ':?': case '?':
+        if (!set) throw new Error(argument || `Variable ${name} is not set`);
+        return current!;
+      case ':+': case '+': return set ? argument : '';
+      default: return current ?? '';
+    }
+  });
+}
+
+function interpolateValue(value: unknown, env: Record<string, string | undefined>): unknown {
+  if (typeof value === 'string') return interpolate(value, env);
+  if (Array.isArray(value)) return value.map(item => interpolateValue(item, env));
+  if (isMapping(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, interpolateValue(item, env)]));
+  }
+  return value;
+}
+
+// environment and labels come as a mapping or as KEY=value lines
+function toMapping(value: unknown): Record<string, unknown> {
+  if (isMapping(value)) return value;
+  if (!Array.isArray(value)) return {};
+
+  return Object.fromEntries(value.map(item => {
+    const [key = '', ...rest] = String(item).split('=');
+    return [key, rest.length > 0 ? rest.join('=') : null];
+  }));
+}
+
+// depends_on comes as a list of names or as a mapping with conditions
+function toDependencies(value: unknown): Record<string, unknown> {
+  if (Array.isArray(value)) {
+    return Object.fromEntries(value.map(name => [String(name), { condition: 'service_started' }]));
+  }
+  return isMapping(value) ? value : {};
+}
+
+/**
+ * Merges a service definition over another, following compose's rules:
+ * mappings merge, most lists extend (without duplicates) and everything
+ * else is replaced.
+ */
+function mergeService(base: RawService, override: RawService): RawService {
+  const merged: RawService = { ...base };
+
+  for (const [key, value] of Object.entries(override)) {
+    const current = merged[key];
+
+    if (key === 'environment' || key === 'labels') {
+      merged[key] = { ...toMapping(current), ...toMapping(value) };
+    } else if (key === 'depends_on') {
+      merged[key] = { ...toDependencies(current), ...toDependencies(value) };
+    } else if (Array.isArray(current) && Array.isArray(value) && !REPLACED_LISTS.includes(key)) {
+      const seen = new Set(current.map(item => JSON.stringify(item)));
+      merged[key] = [...current, ...value.filter(item => !seen.has(JSON.stringify(item)))];
+    } else if (isMapping(current) && isMapping(value)) {
+      merged[key] = { ...current, ...value };
+    } else {
+      merged[key] = value;
+    }
+  }
+
+  return merged;
+}
+
+function parseComposePort(port: unknown, service: string): PortBinding[] {
+  if (typeof port === 'string' || typeof port === 'number') {
+    return parsePortSpec(String(port), service);
+  }
+
+  const definition = port as RawPort;
+  if (!isMapping(port) || definition.published === undefined || definition.target === undefined) return [];
+
+  const hostIp = definition.host_ip ? `${definition.host_ip}:` : '';
+  return parsePortSpec(`${hostIp}${definition.published}:${definition.target}/${definition.protocol || 'tcp'}`, service);
+}
+
+function toDeclaredService(name: string, raw: RawService, directory: string): DeclaredService {
+  const build = typeof raw.build === 'string' ? raw.build : isMapping(raw.build) ? String(raw.build.context ?? '.') : undefined;
+
+  return {
+    name,
+    image: typeof raw.image === 'string' ? raw.image : undefined,
+    build: build !== undefined ? resolve(directory, build) : undefined,
+    ports: (Array.isArray(raw.ports) ? raw.ports : []).flatMap(port => parseComposePort(port, name)),
+    dependsOn: Object.keys(toDependencies(raw.depends_on)),
+    profiles: Array.isArray(raw.profiles) ? raw.profiles.map(String) : [],
+    containerName: typeof raw.container_name === 'string' ? raw.container_name : undefined,
+  };
+}
+
+// Services with profiles only take part when one of them is enabled
+export function isServiceEnabled(service: DeclaredService, profiles: string[] = []): boolean {
+  return service.profiles.length === 0 || service.profiles.some(profile => profiles.includes(profile));
+}
+
+// Every profile the project's services use, in declaration order
+export function listProfiles(project: ComposeProject): string[] {
+  return [...new Set(project.services.flatMap(service => service.profiles))];
+}
+
+// Ports as listContainers would report them, so the table can show them alike
+export function formatDeclaredPort(binding: PortBinding): string {
+  return `${binding.hostIp || '0.0.0.0'}:${binding.hostPort}->${binding.containerPort}/${binding.protocol}`;
+}
+
+/**
+ * Reads compose files the way compose itself does: several files merged
+ * in order, `extends` resolved (also across files) and variables taken
+ * from the environment and the project's .env file.
+ */
+export class ComposeFileParser {
+  async parse(context: ComposeContext = {}): Promise<ComposeProject> {
+    const cwd = resolve(context.cwd || process.cwd());
+    const files = context.files && context.files.length > 0
+      ? context.files.map(file => resolve(cwd, file))
+      : await this.findDefaultFiles(cwd);
+
+    if (files.length === 0) {
+      throw new Error(`No compose file found in ${cwd}`);
+    }
+
+    const directory = dirname(files[0]!);
+    // Variables set in the shell win over the .env file
+    const env = { ...(await this.readEnvFile(join(directory, '.env'))), ...process.env };
+    const documents = new Map<string, RawDocument>();
+    const services = new Map<string, RawService>();
+    let name: string | undefined;
+
+    for (const file of files) {
+      const document = await this.readDocument(file, env, documents);
+      name = document.name ?? name;
+
+      for (const [service, definition] of Object.entries(document.services ?? {})) {
+        const resolved = await this.resolveExtends(file, service, definition ?? {}, env, documents, []);
+        services.set(service, mergeService(services.get(service) ?? {}, resolved));
+      }
+    }
+
+    const project = context.projectName || env.COMPOSE_PROJECT_NAME || name || basename(directory);
+    return {
+      name: project.toLowerCase().replace(/[^a-z0-9_-]/g, ''),
+      directory,
+      files,
+      services: [...services].map(([service, raw]) => toDeclaredService(service, raw, directory)),
+    };
+  }
+
+  /**
+   * Placeholder rows for the services in cronos.yml's compose files that
+   * have no container, so they can be started from the table. Services
+   * behind a profile the service does not enable are left out.
+   */
+  async findNotCreated(containers: ContainerInfo[]): Promise<ContainerInfo[]> {
+    const missing: ContainerInfo[] = [];
+
+    for (const service of configManager.getServices()) {
+      const context = configManager.resolveServiceContext(service);
+      let project: ComposeProject;
+      try {
+        project = await this.parse(context);
+      } catch {
+        // Broken or missing compose files show up when the service is started
+        continue;
+      }
+
+      for (const declared of project.services) {
+        const created = containers.some(container =>
+          (container.compose?.project === project.name && container.compose.service === declared.name)
+          || (declared.containerName !== undefined && container.name === declared.containerName));
+        if (created || !isServiceEnabled(declared, context.profiles)) continue;
+
+        missing.push({
+          id: '',
+          name: declared.containerName ?? `${project.name}-${declared.name}-1`,
+          image: declared.image ?? `(build) ${basename(declared.build ?? project.directory)}`,
+          status: 'not-created',
+          ports: declared.ports.map(formatDeclaredPort),
+          created: new Date(0),
+          compose: {
+            project: project.name,
+            service: declared.name,
+            workingDir: project.directory,
+            configFiles: project.files,
+          },
+        });
+      }
+    }
+
+    return missing;
+  }
+
+  private async findDefaultFiles(directory: string): Promise<string[]> {
+    const files = await fs.readdir(directory).catch(() => [] as string[]);
+    const main = COMPOSE_FILE_NAMES.find(file => files.includes(file));
+    if (!main) return [];
+
+    const override = COMPOSE_OVERRIDE_FILES.find(file => files.includes(file));
+    return [main, ...(override ? [override] : [])].map(file => join(directory, file));
+  }
+
+  private async readEnvFile(path: string): Promise<Record<string, string>> {
+    try {
+      return dotenv.parse(await fs.readFile(path, 'utf8'));
+    } catch {
+      return {};
+    }
+  }
+
+  private async readDocument(
+    file: string,
+    env: Record<string, string | undefined>,
+    documents: Map<string, RawDocument>,
+  ): Promise<RawDocument> {
+    const cached = documents.get(file);
+    if (cached) return cached;
+
+    let parsed: unknown;
+    try {
+      parsed = yaml.parse(await fs.readFile(file, 'utf8'));
+    } catch (error) {
+      throw new Error(`Could not read ${file}: ${(error as Error).message}`);
+    }
+
+    const document = (interpolateValue(parsed ?? {}, env) as RawDocument);
+    documents.set(file, document);
+    return document;
+  }
+
+  private async resolveExtends(
+    file: string,
+    name: string,
+    definition: RawService,
+    env: Record<string, string | undefined>,
+    documents: Map<string, RawDocument>,
+    chain: string[],
+  ): Promise<RawService> {
+    const { extends: extension, ...own } = definition;
+    if (!extension) return definition;
+
+    const target = typeof extension === 'string' ? { service: extension } : extension as { service?: string; file?: string };
+    if (!target.service) {
+      throw new Error(`Service '${name}' extends nothing - 'extends' needs a service`);
+    }
+
+    const baseFile = target.file ? resolve(dirname(file), target.file) : file;
+    const key = `${basename(baseFile)}:${target.service}`;
+    if (chain.includes(key)) {
+      throw new Error(`Circular extends: ${[...chain, key].join(' -> ')}`);
+    }
+
+    const base = (await this.readDocument(baseFile, env, documents)).services?.[target.service];
+    if (!base) {
+      throw new Error(`Service '${name}' extends unknown service '${target.service}' in ${baseFile}`);
+    }
+
+    const resolvedBase = await this.resolveExtends(baseFile, target.service, base, env, documents, [...chain, key]);
+    return mergeService(resolvedBase, own);
+  }
+}
+
+export const composeParser = new ComposeFileParser();
@@ -1,7 +1,74 @@
 import { promises as fs } from 'fs';
-import { join } from 'path';
+import { basename, dirname, join, resolve } from 'path';
 import * as yaml from 'yaml';
-import type { ProjectConfig, ServiceConfig } from '../types/index.js';
+import { parseDuration } from '../engine/units.js';
+import { parseAlertRule } from '../alerts/rules.js';
+import type {
+  AlertRule,
+  AlertSettings,
+  AlertSink,
+  AlertSinkType,
+  ComposeContext,
+  ComposeTarget,
+  ContainerEngine,
+  ContainerInfo,
+  DependencyCondition,
+  EngineEndpoint,
+  EngineSelection,
+  MetricsSettings,
+  ProjectConfig,
+  ServiceConfig,
+  ServiceDependency,
+} from '../types/index.js';
+
+const CONTAINER_ENGINES: ContainerEngine[] = ['docker', 'podman', 'nerdctl', 'docker-compose', 'simulated'];
+const ALERT_SINK_TYPES: AlertSinkType[] = ['bell', 'desktop', 'webhook', 'command'];
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+// Files compose picks up by itself when none is given
+export const COMPOSE_FILE_NAMES = [
+  'docker-compose.yml',
+  'docker-compose.yaml',
+  'compose.yml',
+  'compose.yaml',
+  'podman-compose.yml',
+  'podman-compose.yaml',
+];
+
+// Merged over the main file in this order
+export const COMPOSE_OVERRIDE_FILES = [
+  'docker-compose.override.yml',
+  'docker-compose.override.yaml',
+  'compose.override.yml',
+  'compose.override.yaml',
+];
+
+// Per-machine tweaks that are usually kept out of version control
+const COMPOSE_LOCAL_FILES = [
+  'docker-compose.local.yml',
+  'docker-compose.local.yaml',
+  'compose.local.yml',
+  'compose.local.yaml',
+];
+
+// Reserved name for the engine Cronos detects on this machine
+export const LOCAL_HOST = 'local';
+
+/**
+ * The compose files among a directory's entries, in the order they merge:
+ * the main file, its override, then local overrides.
+ */
+export function findComposeFiles(entries: string[]): string[] {
+  const main = COMPOSE_FILE_NAMES.find(file => entries.includes(file));
+  if (!main) return [];
+
+  const override = COMPOSE_OVERRIDE_FILES.find(file => entries.includes(file));
+  const local = COMPOSE_LOCAL_FILES.find(file => entries.includes(file));
+  return [main, override, local].filter((file): file is string => !!file);
+}
 
 export class ConfigManager {
   private config: ProjectConfig | null = null;
@@ -35,7 +102,7 @@ export class ConfigManager {
     }
 
     const configPath = this.configPath || join(process.cwd(), 'cronos.yml');
-    const yamlContent = yaml.stringify(configToSave, {
+    const yamlContent = yaml.stringify(this.toYamlConfig(configToSave), {
       indent: 2,
       lineWidth: 120,
     });
@@ -45,6 +112,21 @@ export class ConfigManager {
     this.config = configToSave;
   }
 
+  // Alert rules go back to the "when" form they are read from
+  private toYamlConfig(config: ProjectConfig): object {
+    if (!config.alerts) {
+      return config;
+    }
+
+    return {
+      ...config,
+      alerts: {
+        rules: config.alerts.rules.map(rule => rule.name === rule.expression ? rule.expression : { name: rule.name, when: rule.expression }),
+        sinks: config.alerts.sinks.map(sink => Object.fromEntries(Object.entries(sink).filter(([, value]) => value !== undefined))),
+      },
+    };
+  }
+
   getConfig(): ProjectConfig | null {
     return this.config;
   }
@@ -83,9 +165,12 @@ export class ConfigManager {
   private validateAndNormalizeConfig(config: any): ProjectConfig {
     const normalized: ProjectConfig = {
       name: config.name || 'cronos-project',
-      engine: config.engine || 'auto',
+      engine: this.normalizeEngine(config.engine),
       services: [],
       global_env: config.global_env,
+      hosts: this.normalizeHosts(config.hosts),
+      metrics: this.normalizeMetrics(config.metrics),
+      alerts: this.normalizeAlerts(config.alerts),
     };
 
     if (Array.isArray(config.services)) {
@@ -95,15 +180,165 @@ export class ConfigManager {
     return normalized;
   }
 
+  private normalizeEngine(engine: unknown): EngineSelection {
+    if (!engine || engine === 'auto') {
+      return 'auto';
+    }
+
+    if (CONTAINER_ENGINES.includes(engine as ContainerEngine)) {
+      return engine as ContainerEngine;
+    }
+
+    console.warn(`Unknown engine '${engine}' in config - using auto detection`);
+    return 'auto';
+  }
+
+  private normalizeHosts(hosts: unknown): EngineEndpoint[] | undefined {
+    if (!Array.isArray(hosts)) {
+      return undefined;
+    }
+
+    return hosts.flatMap((host: unknown): EngineEndpoint[] => {
+      if (!isObject(host) || !host.name || host.name === LOCAL_HOST || !(host.host || host.context || host.connection)) {
+        const name = isObject(host) ? host.name ?? '' : '';
+        console.warn(`Ignoring host '${name}' in config - it needs a name other than '${LOCAL_HOST}' and a host, context or connection`);
+        return [];
+      }
+
+      return [{
+        name: String(host.name),
+        // A podman connection implies podman; anything else defaults to docker
+        engine: CONTAINER_ENGINES.includes(host.engine as ContainerEngine) ? host.engine as ContainerEngine : host.connection ? 'podman' : 'docker',
+        host: host.host ? String(host.host) : undefined,
+        context: host.context ? String(host.context) : undefined,
+        connection: host.connection ? String(host.connection) : undefined,
+      }];
+    });
+  }
+
+  private normalizeMetrics(metrics: unknown): MetricsSettings | undefined {
+    if (!isObject(metrics)) {
+      return undefined;
+    }
+
+    return {
+      interval: this.normalizeSeconds(metrics.interval, 'metrics.interval'),
+      retention: this.normalizeSeconds(metrics.retention, 'metrics.retention'),
+    };
+  }
+
+  private normalizeAlerts(alerts: unknown): AlertSettings | undefined {
+    if (!isObject(alerts)) {
+      return undefined;
+    }
+
+    const rules: AlertRule[] = [];
+    for (const entry of Array.isArray(alerts.rules) ? alerts.rules as unknown[] : []) {
+      // A bare expression names itself
+      const expression = typeof entry === 'string' ? entry : isObject(entry) ? entry.when : undefined;
+      const name = typeof entry === 'string' ? entry : String(isObject(entry) ? entry.name ?? entry.when ?? '' : '');
+
+      try {
+        if (typeof expression !== 'string') {
+          throw new Error(`Alert rule '${name}' has no 'when' condition`);
+        }
+        if (rules.some(rule => rule.name === name)) {
+          throw new Error(`Alert rule '${name}' is defined twice`);
+        }
+        rules.push(parseAlertRule(expression, name));
+      } catch (error) {
+        console.warn(`Ignoring alerts.rules entry in config: ${(error as Error).message}`);
+      }
+    }
+
+    const sinks: AlertSink[] = [];
+    for (const entry of Array.isArray(alerts.sinks) ? alerts.sinks as unknown[] : []) {
+      // "bell" is short for { type: bell }
+      const sink: Record<string, unknown> = typeof entry === 'string' ? { type: entry } : isObject(entry) ? entry : {};
+      const type = ALERT_SINK_TYPES.find(candidate => candidate === sink.type);
+
+      if (!type) {
+        console.warn(`Ignoring alert sink '${sink.type ?? ''}' in config - use one of ${ALERT_SINK_TYPES.join(', ')}`);
+      } else if (type === 'webhook' && !/^https?:\/\//.test(String(sink.url ?? ''))) {
+        console.warn('Ignoring webhook alert sink in config - it needs an http:// or https:// url');
+      } else if (type === 'command' && !sink.command) {
+        console.warn('Ignoring command alert sink in config - it needs a command');
+      } else {
+        sinks.push({
+          type,
+          url: type === 'webhook' ? String(sink.url) : undefined,
+          command: type === 'command' ? String(sink.command) : undefined,
+          send_resolved: sink.send_resolved === true || undefined,
+        });
+      }
+    }
+
+    return { rules, sinks };
+  }
+
+  // 30, "30s", "15m" or "2h"
+  private normalizeSeconds(value: unknown, setting: string): number | undefined {
+    if (value === undefined || value === null) {
+      return undefined;
+    }
+
+    const seconds = parseDuration(String(value));
+    if (seconds === undefined || !(seconds > 0)) {
+      console.warn(`Ignoring ${setting} '${value}' in config - use seconds or a duration like 30s, 15m or 2h`);
+      return undefined;
+    }
+    return seconds;
+  }
+
   private normalizeService(service: any): ServiceConfig {
+    const engine = CONTAINER_ENGINES.includes(service.engine) ? service.engine as ContainerEngine : undefined;
+
     return {
       name: service.name || 'unnamed-service',
-      compose_file: service.compose_file || service.composeFile || undefined,
+      // compose_file is the older spelling, for a single file
+      compose_files: this.normalizeList(service.compose_files ?? service.composeFiles ?? service.compose_file ?? service.composeFile),
+      profiles: this.normalizeList(service.profiles),
+      project_name: service.project_name || service.projectName || undefined,
       env_file: service.env_file || service.envFile || undefined,
       directory: service.directory || '.',
+      engine,
+      depends_on: this.normalizeDependencies(service.depends_on || service.dependsOn),
     };
   }
 
+  // A single value or a list; empty ones are dropped
+  private normalizeList(value: unknown): string[] | undefined {
+    const list = (Array.isArray(value) ? value : [value]).filter(item => item !== undefined && item !== null && item !== '');
+    return list.length > 0 ? list.map(String) : undefined;
+  }
+
+  // Accepts a list of names, a list of { service, condition } or a compose-style map
+  private normalizeDependencies(dependencies: unknown): ServiceDependency[] | undefined {
+    if (!isObject(dependencies)) {
+      return undefined;
+    }
+
+    const entries: unknown[] = Array.isArray(dependencies)
+      ? dependencies
+      : Object.entries(dependencies).map(([service, options]) => ({ service, ...(isObject(options) ? options : {}) }));
+
+    return entries.flatMap((entry): ServiceDependency[] => {
+      if (typeof entry === 'string') {
+        return [{ service: entry, condition: 'started' }];
+      }
+      if (isObject(entry) && typeof entry.service === 'string' && entry.service) {
+        return [{ service: entry.service, condition: this.normalizeCondition(entry.condition) }];
+      }
+      console.warn('Ignoring depends_on entry in config - it needs a service name');
+      return [];
+    });
+  }
+
+  private normalizeCondition(condition: unknown): DependencyCondition {
+    // Compose spells it service_healthy
+    return condition === 'healthy' || condition === 'service_healthy' ? 'healthy' : 'started';
+  }
+
   async addService(service: ServiceConfig): Promise<void> {
     if (!this.config) {
       await this.loadConfig();
@@ -134,8 +369,12 @@ export class ConfigManager {
         this.config!.services[serviceIndex] = {
           name: updates.name ?? currentService.name,
           directory: updates.directory ?? currentService.directory,
-          compose_file: updates.compose_file ?? currentService.compose_file,
+          compose_files: updates.compose_files ?? currentService.compose_files,
+          profiles: updates.profiles ?? currentService.profiles,
+          project_name: updates.project_name ?? currentService.project_name,
           env_file: updates.env_file ?? currentService.env_file,
+          engine: updates.engine ?? currentService.engine,
+          depends_on: updates.depends_on ?? currentService.depends_on,
         };
         await this.saveConfig();
       }
@@ -150,6 +389,86 @@ export class ConfigManager {
     return this.config?.services || [];
   }
 
+  // Service directories are relative to the config file, not the shell
+  resolveServiceDirectory(service: ServiceConfig): string {
+    const base = this.configPath ? dirname(this.configPath) : process.cwd();
+    return resolve(base, service.directory);
+  }
+
+  resolveComposeFiles(service: ServiceConfig): string[] | undefined {
+    const directory = this.resolveServiceDirectory(service);
+    return service.compose_files?.map(file => resolve(directory, file));
+  }
+
+  // Where and with which files, project and profiles to run compose for a whole configured service
+  resolveServiceContext(service: ServiceConfig): ComposeContext {
+    return {
+      cwd: this.resolveServiceDirectory(service),
+      files: this.resolveComposeFiles(service),
+      projectName: service.project_name,
+      profiles: service.profiles,
+    };
+  }
+
+  /**
+   * Finds the configured service a container belongs to, using the compose
+   * labels the engine puts on it. Containers without labels only match a
+   * service of the same name.
+   */
+  findServiceForContainer(container: ContainerInfo): ServiceConfig | undefined {
+    const compose = container.compose;
+    if (!compose) {
+      return this.getService(container.name);
+    }
+
+    const services = this.getServices();
+
+    const byProject = services.find(service => service.project_name === compose.project);
+    if (byProject) return byProject;
+
+    const byLocation = services.find(service => {
+      const directory = this.resolveServiceDirectory(service);
+      const composeFiles = this.resolveComposeFiles(service) ?? [];
+
+      if (compose.workingDir && resolve(compose.workingDir) === directory) return true;
+      return !!compose.configFiles?.some(file => composeFiles.includes(resolve(compose.workingDir || '', file)));
+    });
+    if (byLocation) return byLocation;
+
+    // Compose derives the default project name from the directory
+    return services.find(service =>
+      this.composeProjectName(service.name) === compose.project ||
+      this.composeProjectName(basename(this.resolveServiceDirectory(service))) === compose.project
+    );
+  }
+
+  /**
+   * Works out what to hand to compose for a lifecycle action on a
+   * container: the compose service name, where to run it and which files
+   * and project to use.
+   */
+  resolveComposeTarget(container: ContainerInfo): ComposeTarget {
+    const service = this.findServiceForContainer(container);
+    const compose = container.compose;
+
+    const context = service ? this.resolveServiceContext(service) : {};
+
+    return {
+      service: compose?.service || container.name,
+      context: {
+        cwd: context.cwd ?? compose?.workingDir,
+        files: context.files ?? compose?.configFiles,
+        projectName: context.projectName ?? compose?.project,
+        profiles: context.profiles,
+      },
+      engine: service?.engine,
+    };
+  }
+
+  private composeProjectName(name: string): string {
+    return name.toLowerCase().replace(/[^a-z0-9_-]/g, '');
+  }
+
   async autoDiscoverServices(rootDirectory: string = process.cwd()): Promise<ServiceConfig[]> {
     const discoveredServices: ServiceConfig[] = [];
 
@@ -183,15 +502,7 @@ export class ConfigManager {
     try {
       const files = await fs.readdir(directory);
 
-      // Look for compose files
-      const composeFiles = files.filter(file =>
-        file === 'docker-compose.yml' ||
-        file === 'docker-compose.yaml' ||
-        file === 'compose.yml' ||
-        file === 'compose.yaml' ||
-        file === 'podman-compose.yml' ||
-        file === 'podman-compose.yaml'
-      );
+      const composeFiles = findComposeFiles(files);
 
       // Look for env files
       const envFiles = files.filter(file =>
@@ -204,7 +515,7 @@ export class ConfigManager {
         return {
           name: defaultName,
           directory,
-          compose_file: composeFiles[0] || undefined,
+          compose_files: composeFiles.length > 0 ? composeFiles : undefined,
           env_file: envFiles.find(f => f === '.env') || envFiles[0] || undefined,
         };
       }
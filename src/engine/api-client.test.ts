@@ -0,0 +1,132 @@
+import { EngineApiClient, connectEngineApi } from './api-client.js';
+import { DockerDriver } from './drivers/docker.js';
+import { EngineCommandError, NameConflictError } from './errors.js';
+import { FakeDaemon } from '../test-support/fake-daemon.js';
+
+describe('EngineApiClient', () => {
+  let daemon: FakeDaemon | undefined;
+
+  afterEach(async () => {
+    await daemon?.close();
+    daemon = undefined;
+  });
+
+  it('connects to the first socket that answers a ping', async () => {
+    daemon = await FakeDaemon.start();
+
+    const client = await connectEngineApi([daemon.missingSocket(), daemon.socketPath]);
+    expect(client?.getSocketPath()).toBe(daemon.socketPath);
+    expect(await connectEngineApi([daemon.missingSocket()])).toBeNull();
+  });
+
+  it('sends JSON bodies and parses JSON answers', async () => {
+    daemon = await FakeDaemon.start(request => [200, { echoed: request.url }]);
+    const client = new EngineApiClient(daemon.socketPath);
+
+    expect(await client.post('/containers/web/update', { Memory: 1024 })).toEqual({ echoed: '/containers/web/update' });
+    expect(daemon.calls).toEqual([{ method: 'POST', url: '/containers/web/update', body: '{"Memory":1024}' }]);
+  });
+
+  it('classifies failed calls like failed CLI commands', async () => {
+    daemon = await FakeDaemon.start(() => [409, { message: 'Conflict. The container name "/web" is already in use by container "abc123"' }]);
+    const client = new EngineApiClient(daemon.socketPath, 'podman');
+
+    const error = await client.post('/containers/create?name=web').catch(caught => caught);
+    expect(error).toBeInstanceOf(NameConflictError);
+    expect(error.message).toBe('podman POST /containers/create?name=web failed (409): Conflict. The container name "/web" is already in use by container "abc123"');
+    expect(error.hint).toMatch(/A container named web already exists/);
+  });
+
+  it('keeps unrecognised failures as plain engine errors', async () => {
+    daemon = await FakeDaemon.start(() => [404, { message: 'No such container: ghost' }]);
+
+    const error = await new EngineApiClient(daemon.socketPath).get('/containers/ghost/json').catch(caught => caught);
+    expect(error).toBeInstanceOf(EngineCommandError);
+    expect(error.reason).toBe('unknown');
+    expect(error.message).toBe('docker GET /containers/ghost/json failed (404): No such container: ghost');
+  });
+});
+
+describe('ApiEngineDriver', () => {
+  let daemon: FakeDaemon;
+
+  beforeEach(async () => {
+    daemon = await FakeDaemon.start(request => {
+      if (request.url?.startsWith('/containers/json')) {
+        return [200, [{
+          Id: '0123456789abcdef',
+          Names: ['/demo-web-1'],
+          Image: 'nginx:alpine',
+          State: 'running',
+          Status: 'Up 2 minutes',
+          Created: 1700000000,
+          Ports: [{ IP: '0.0.0.0', PrivatePort: 80, PublicPort: 8080, Type: 'tcp' }, { PrivatePort: 443, Type: 'tcp' }],
+          Labels: {},
+        }]];
+      }
+      if (request.url === '/images/json') {
+        return [200, [
+          { Id: 'sha256:fedcba9876543210', RepoTags: ['nginx:alpine', 'localhost:5000/nginx:1.25'], Created: 1700000000, Size: 43000000 },
+          { Id: 'sha256:0011223344556677', RepoTags: null, Created: 1700000000, Size: 1000 },
+        ]];
+      }
+      return [204];
+    });
+  });
+
+  afterEach(async () => {
+    await daemon.close();
+  });
+
+  it('uses the socket instead of the CLI when one answers', async () => {
+    const driver = new DockerDriver(daemon.socketPath);
+    await driver.connect();
+
+    expect(driver.isUsingApi()).toBe(true);
+  });
+
+  it('lists containers from the API', async () => {
+    const driver = new DockerDriver(daemon.socketPath);
+    await driver.connect();
+
+    const [container] = await driver.listContainers();
+    expect(container).toMatchObject({
+      id: '0123456789ab',
+      name: 'demo-web-1',
+      image: 'nginx:alpine',
+      status: 'running',
+      ports: ['0.0.0.0:8080->80/tcp', '443/tcp'],
+    });
+    expect(container?.created).toEqual(new Date(1700000000 * 1000));
+  });
+
+  it('sends lifecycle operations to the API', async () => {
+    const driver = new DockerDriver(daemon.socketPath);
+    await driver.connect();
+
+    await driver.pauseContainer('demo-web-1');
+    await driver.unpauseContainer('demo-web-1');
+    await driver.killContainer('demo-web-1', 'SIGHUP');
+    await driver.removeContainer('demo-web-1', { volumes: true, force: true });
+
+    expect(daemon.calls.map(call => `${call.method} ${call.url}`)).toEqual([
+      'POST /containers/demo-web-1/pause',
+      'POST /containers/demo-web-1/unpause',
+      'POST /containers/demo-web-1/kill?signal=SIGHUP',
+      'DELETE /containers/demo-web-1?v=1&force=1',
+    ]);
+  });
+
+  it('lists one image per tag from the API', async () => {
+    const driver = new DockerDriver(daemon.socketPath);
+    await driver.connect();
+
+    const images = await driver.listImages();
+    expect(images.map(image => [image.repository, image.tag, image.id])).toEqual([
+      ['nginx', 'alpine', 'fedcba987654'],
+      ['localhost:5000/nginx', '1.25', 'fedcba987654'],
+      ['<none>', '<none>', '001122334455'],
+    ]);
+    expect(images[0]).toMatchObject({ size: 43000000, created: new Date(1700000000 * 1000) });
+  });
+});
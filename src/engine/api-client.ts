@@ -0,0 +1,181 @@
+import { request as httpRequest } from 'http';
+import type { IncomingMessage } from 'http';
+import { promises as fs } from 'fs';
+import { PassThrough, type Readable } from 'stream';
+import { createEngineCommandError, type EngineCommandError } from './errors.js';
+import type { EngineApiErrorBody } from '../types/engine.js';
+
+/**
+ * Minimal client for the Docker Engine REST API over a unix socket.
+ * Podman exposes the same compat API, so one client serves both engines.
+ */
+export class EngineApiClient {
+  constructor(
+    private socketPath: string,
+    // Named in errors, like the CLI it stands in for
+    private engine = 'docker',
+    private timeoutMs = 10000
+  ) {}
+
+  getSocketPath(): string {
+    return this.socketPath;
+  }
+
+  async ping(): Promise<boolean> {
+    try {
+      const response = await this.send('GET', '/_ping');
+      const body = await this.readBody(response);
+      return response.statusCode === 200 && body.trim() === 'OK';
+    } catch {
+      return false;
+    }
+  }
+
+  async get<T>(path: string): Promise<T> {
+    return this.request<T>('GET', path);
+  }
+
+  async post<T>(path: string, body?: unknown): Promise<T> {
+    return this.request<T>('POST', path, body);
+  }
+
+  async request<T>(method: string, path: string, body?: unknown): Promise<T> {
+    const response = await this.send(method, path, body);
+    const content = await this.readBody(response);
+
+    if (!response.statusCode || response.statusCode >= 400) {
+      throw this.createError(method, path, response.statusCode, content);
+    }
+
+    if (!content) {
+      return undefined as T;
+    }
+
+    return JSON.parse(content) as T;
+  }
+
+  async stream(path: string): Promise<IncomingMessage> {
+    const response = await this.send('GET', path, undefined, false);
+
+    if (!response.statusCode || response.statusCode >= 400) {
+      const content = await this.readBody(response);
+      throw this.createError('GET', path, response.statusCode, content);
+    }
+
+    return response;
+  }
+
+  private send(method: string, path: string, body?: unknown, withTimeout = true): Promise<IncomingMessage> {
+    return new Promise((resolve, reject) => {
+      const payload = body !== undefined ? JSON.stringify(body) : undefined;
+
+      const req = httpRequest({
+        socketPath: this.socketPath,
+        path,
+        method,
+        headers: {
+          Host: 'localhost',
+          ...(payload !== undefined ? {
+            'Content-Type': 'application/json',
+            'Content-Length': Buffer.byteLength(payload),
+          } : {}),
+        },
+      }, resolve);
+
+      if (withTimeout) {
+        req.setTimeout(this.timeoutMs, () => {
+          req.destroy(new Error(`Engine API ${method} ${path} timed out after ${this.timeoutMs}ms`));
+        });
+      }
+
+      req.on('error', reject);
+
+      if (payload !== undefined) {
+        req.write(payload);
+      }
+      req.end();
+    });
+  }
+
+  private readBody(response: IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      response.on('data', (chunk: Buffer) => chunks.push(chunk));
+      response.on('end', () => resolve(Buffer.concat(chunks).toString('utf-8')));
+      response.on('error', reject);
+    });
+  }
+
+  // Classified like a failed CLI command, from the daemon's message
+  private createError(method: string, path: string, status: number | undefined, content: string): EngineCommandError {
+    return createEngineCommandError({
+      command: this.engine,
+      args: [method, path],
+      exitCode: null,
+      httpStatus: status ?? 0,
+      stderr: this.errorMessage(content),
+    });
+  }
+
+  private errorMessage(content: string): string {
+    try {
+      const parsed = JSON.parse(content) as EngineApiErrorBody;
+      return parsed.message || content;
+    } catch {
+      return content;
+    }
+  }
+}
+
+/**
+ * Splits the multiplexed stdout/stderr framing the engine uses for
+ * non-TTY containers into a plain text stream.
+ */
+export function demultiplexStream(source: Readable): PassThrough {
+  const output = new PassThrough();
+  let buffer = Buffer.alloc(0);
+
+  source.on('data', (chunk: Buffer) => {
+    buffer = Buffer.concat([buffer, chunk]);
+
+    // Frame header: [stream type, 0, 0, 0, size (uint32 big-endian)]
+    while (buffer.length >= 8) {
+      const size = buffer.readUInt32BE(4);
+      if (buffer.length < 8 + size) break;
+
+      output.write(buffer.subarray(8, 8 + size));
+      buffer = buffer.subarray(8 + size);
+    }
+  });
+
+  source.on('end', () => output.end());
+  source.on('error', (error: Error) => output.destroy(error));
+  // Closing the output hangs up on the engine
+  output.on('close', () => source.destroy());
+
+  return output;
+}
+
+export function dockerHostSocket(dockerHost = process.env.DOCKER_HOST): string | null {
+  if (dockerHost?.startsWith('unix://')) {
+    return dockerHost.substring('unix://'.length);
+  }
+  return null;
+}
+
+export async function connectEngineApi(candidates: string[], engine?: string): Promise<EngineApiClient | null> {
+  for (const socketPath of candidates) {
+    try {
+      await fs.access(socketPath);
+    } catch {
+      continue;
+    }
+
+    const client = new EngineApiClient(socketPath, engine);
+    if (await client.ping()) {
+      return client;
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,188 @@
+import type { BuildOptions, BuildStep, BuildSummary } from '../types/index.js';
+
+// BuildKit plain progress: "#5 [2/4] RUN npm ci", "#5 0.512 added 12 packages", "#5 DONE 3.1s"
+const BUILDKIT_LINE = /^#(\d+) (.*)$/;
+const BUILDKIT_OUTPUT = /^\d+\.\d+ (.*)$/;
+const BUILDKIT_DONE = /^DONE (\d+(?:\.\d+)?)s$/;
+const BUILDKIT_ERROR = /^ERROR:? ?(.*)$/;
+// Classic docker builder and buildah (podman): "Step 2/4 : RUN npm ci", "STEP 2/4: RUN npm ci"
+const LEGACY_STEP = /^(?:Step|STEP) (\d+\/\d+) ?: (.*)$/;
+const LEGACY_CACHED = /^ ?-{2,3}> Using cache/;
+const LEGACY_COMMIT = /^ ?-{2,3}> [0-9a-f]{12,}$/;
+const LEGACY_ERROR = /returned a non-zero code|^Error: building at STEP/;
+// docker-compose v1 and podman-compose announce each service
+const COMPOSE_SERVICE = /^Building (\S+)$/;
+
+// Dockerfile instructions carry their position, e.g. "[2/4]" or "[web builder 2/4]"
+function isInstruction(step: BuildStep): boolean {
+  return /^\[[^\]]*\d+\/\d+\]/.test(step.name);
+}
+
+/**
+ * Turns builder output into steps as it streams in. Understands BuildKit's
+ * plain progress as well as the classic docker and buildah formats.
+ */
+export class BuildOutputParser {
+  private steps: Map<string, BuildStep> = new Map();
+  private startedAt: Map<string, number> = new Map();
+  // BuildKit numbers restart with every build in a session, e.g. nerdctl compose
+  private buildKitSteps: Map<string, string> = new Map();
+  private buffer = '';
+  // Classic builders print one step at a time, so output belongs to the last one
+  private current: BuildStep | undefined;
+  private service: string | undefined;
+
+  constructor(private options: Pick<BuildOptions, 'onStep' | 'onOutput'> = {}) {}
+
+  write(chunk: string): void {
+    this.buffer += chunk;
+
+    const lines = this.buffer.split(/\r?\n/);
+    this.buffer = lines.pop() || '';
+    lines.forEach(line => this.parseLine(line));
+  }
+
+  /**
+   * Flushes what is left. Steps still running are finished, or the last of
+   * them is blamed when the build failed without saying where.
+   */
+  end(failed: boolean): void {
+    if (this.buffer) {
+      this.parseLine(this.buffer);
+      this.buffer = '';
+    }
+
+    const running = [...this.steps.values()].filter(step => step.status === 'running');
+    const blamed = failed && !this.getFailedStep() ? running[running.length - 1] : undefined;
+
+    for (const step of running) {
+      this.finish(step, step === blamed ? 'failed' : 'done');
+    }
+  }
+
+  getSummary(durationMs: number): BuildSummary {
+    const steps = [...this.steps.values()];
+    const instructions = steps.filter(isInstruction);
+
+    return {
+      steps,
+      durationMs,
+      instructions: instructions.length,
+      cached: instructions.filter(step => step.status === 'cached').length,
+      failedStep: this.getFailedStep(),
+    };
+  }
+
+  private getFailedStep(): BuildStep | undefined {
+    return [...this.steps.values()].find(step => step.status === 'failed');
+  }
+
+  private parseLine(line: string): void {
+    if (!line.trim()) return;
+
+    const buildkit = line.match(BUILDKIT_LINE);
+    if (buildkit) {
+      this.parseBuildKitLine(buildkit[1]!, buildkit[2]!);
+      return;
+    }
+
+    const service = line.match(COMPOSE_SERVICE);
+    if (service) {
+      this.service = service[1];
+      this.output(line, undefined);
+      return;
+    }
+
+    const step = line.match(LEGACY_STEP);
+    if (step) {
+      if (this.current?.status === 'running') {
+        this.finish(this.current, 'done');
+      }
+      const id = `${this.service ?? ''}:${step[1]}`;
+      this.current = this.start(id, `[${step[1]}] ${step[2]}`);
+      return;
+    }
+
+    const current = this.current;
+    if (current && LEGACY_CACHED.test(line)) {
+      this.finish(current, 'cached');
+    } else if (current && LEGACY_COMMIT.test(line) && current.status === 'running') {
+      this.finish(current, 'done');
+    } else if (current && LEGACY_ERROR.test(line)) {
+      current.output.push(line);
+      this.finish(current, 'failed');
+    } else {
+      current?.output.push(line);
+    }
+    this.output(line, current);
+  }
+
+  private parseBuildKitLine(id: string, text: string): void {
+    const key = this.buildKitSteps.get(id);
+    const step = key !== undefined ? this.steps.get(key) : undefined;
+
+    if (!step || (step.status !== 'running' && text.startsWith('['))) {
+      // "#0 building with ..." and friends announce the builder, not a step
+      if (id !== '0') {
+        const newKey = `#${this.steps.size + 1}`;
+        this.buildKitSteps.set(id, newKey);
+        this.start(newKey, text);
+      }
+      return;
+    }
+
+    const done = text.match(BUILDKIT_DONE);
+    const error = text.match(BUILDKIT_ERROR);
+
+    if (text === 'CACHED') {
+      this.finish(step, 'cached');
+    } else if (done) {
+      this.finish(step, 'done', Math.round(parseFloat(done[1]!) * 1000));
+    } else if (error) {
+      step.output.push(error[1]!);
+      this.finish(step, 'failed');
+      this.output(error[1]!, step);
+    } else {
+      const line = text.match(BUILDKIT_OUTPUT)?.[1] ?? text;
+      step.output.push(line);
+      this.output(line, step);
+    }
+  }
+
+  private start(id: string, name: string): BuildStep {
+    const step: BuildStep = { id, name, service: this.service, status: 'running', output: [] };
+
+    this.steps.set(id, step);
+    this.startedAt.set(id, Date.now());
+    this.options.onStep?.(step);
+    return step;
+  }
+
+  private finish(step: BuildStep, status: BuildStep['status'], durationMs?: number): void {
+    step.status = status;
+    step.durationMs = status === 'cached' ? 0 : durationMs ?? Date.now() - (this.startedAt.get(step.id) ?? Date.now());
+    this.options.onStep?.(step);
+  }
+
+  private output(line: string, step: BuildStep | undefined): void {
+    this.options.onOutput?.(line, step);
+  }
+}
+
+/**
+ * A build that did not finish. Carries what the builder got through so
+ * callers can point at the failing step and its output.
+ */
+export class BuildFailedError extends Error {
+  readonly summary: BuildSummary;
+
+  constructor(summary: BuildSummary, cause: unknown) {
+    super((cause as Error).message, { cause });
+    this.name = 'BuildFailedError';
+    this.summary = summary;
+  }
+
+  get failedStep(): BuildStep | undefined {
+    return this.summary.failedStep;
+  }
+}
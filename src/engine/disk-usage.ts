@@ -0,0 +1,154 @@
+import { parseByteSize } from './units.js';
+import type { DiskUsageCategory, DiskUsageItem, DiskUsageReport, DiskUsageSummary } from '../types/index.js';
+import type { ApiSystemDf } from '../types/engine.js';
+
+// Section titles of `system df -v`; podman has no build cache section
+const SECTIONS: [RegExp, DiskUsageCategory][] = [
+  [/^Images space usage/i, 'images'],
+  [/^Containers space usage/i, 'containers'],
+  [/^Local Volumes space usage/i, 'volumes'],
+  [/^Build cache usage/i, 'build-cache'],
+];
+
+type Row = Record<string, string>;
+
+/**
+ * Splits a table the CLI aligned with tabwriter into rows keyed by header.
+ * Column values may contain single spaces ("2 weeks ago"), so columns are
+ * cut where the header's columns start rather than on whitespace.
+ */
+function parseTable(lines: string[]): Row[] {
+  const [header, ...rows] = lines;
+  if (!header) return [];
+
+  const columns = [...header.matchAll(/\S+(?: \S+)*/g)].map(match => ({ name: match[0], start: match.index ?? 0 }));
+
+  return rows.map(line => Object.fromEntries(columns.map((column, index) => {
+    const end = columns[index + 1]?.start ?? line.length;
+    return [column.name, line.substring(column.start, end).trim()];
+  })));
+}
+
+function summarize(category: DiskUsageCategory, items: DiskUsageItem[], size?: number): DiskUsageSummary {
+  return {
+    category,
+    count: items.length,
+    active: items.filter(item => item.active).length,
+    size: size ?? items.reduce((total, item) => total + item.size, 0),
+    reclaimable: items.reduce((total, item) => total + item.reclaimable, 0),
+    items: items.sort((a, b) => b.size - a.size),
+  };
+}
+
+function toReport(categories: DiskUsageSummary[]): DiskUsageReport {
+  return {
+    categories,
+    size: categories.reduce((total, category) => total + category.size, 0),
+    reclaimable: categories.reduce((total, category) => total + category.reclaimable, 0),
+  };
+}
+
+function imageItem(name: string, size: number, sharedSize: number, containers: number): DiskUsageItem {
+  return {
+    name,
+    size,
+    // Layers shared with other images stay when this one goes
+    reclaimable: containers > 0 ? 0 : Math.max(size - sharedSize, 0),
+    active: containers > 0,
+    detail: containers > 0 ? `${containers} container${containers === 1 ? '' : 's'}` : undefined,
+  };
+}
+
+/**
+ * Reads the text output of `system df -v`. Docker and podman print the
+ * same tables, while only docker can print them as JSON.
+ */
+export function parseSystemDf(stdout: string): DiskUsageReport {
+  const sections = new Map<DiskUsageCategory, string[]>();
+  let current: string[] | undefined;
+
+  for (const line of stdout.split('\n')) {
+    const section = SECTIONS.find(([title]) => title.test(line));
+    if (section) {
+      current = [];
+      sections.set(section[1], current);
+    } else if (line.trim()) {
+      current?.push(line.replace(/\s+$/, ''));
+    }
+  }
+
+  const imageRows = parseTable(sections.get('images') ?? []);
+  const sharedSizes = imageRows.map(row => parseByteSize(row['SHARED SIZE'] ?? ''));
+  const images = imageRows.map((row, index) => {
+    const tag = row.TAG && row.TAG !== '<none>' ? `:${row.TAG}` : '';
+    const name = row.REPOSITORY && row.REPOSITORY !== '<none>' ? `${row.REPOSITORY}${tag}` : row['IMAGE ID'] ?? '';
+    return imageItem(name, parseByteSize(row.SIZE ?? ''), sharedSizes[index] ?? 0, parseInt(row.CONTAINERS ?? '0', 10) || 0);
+  });
+  // Every image's size includes the layers it shares; -v does not say with
+  // whom, so they are counted once, as the largest share
+  const imageSize = images.reduce((total, image, index) => total + image.size - (sharedSizes[index] ?? 0), 0)
+    + Math.max(0, ...sharedSizes);
+
+  const containers = parseTable(sections.get('containers') ?? []).map(row => {
+    const size = parseByteSize(row.SIZE ?? '');
+    const running = /^(Up|running)/i.test(row.STATUS ?? '');
+    return { name: row.NAMES ?? row['CONTAINER ID'] ?? '', size, reclaimable: running ? 0 : size, active: running, detail: row.STATUS };
+  });
+
+  const volumes = parseTable(sections.get('volumes') ?? []).map(row => {
+    const size = parseByteSize(row.SIZE ?? '');
+    const links = parseInt(row.LINKS ?? '0', 10) || 0;
+    return { name: row['VOLUME NAME'] ?? '', size, reclaimable: links > 0 ? 0 : size, active: links > 0 };
+  });
+
+  const buildCache = parseTable(sections.get('build-cache') ?? []).map(row => {
+    const size = parseByteSize(row.SIZE ?? '');
+    const inUse = row['IN USE'] === 'true';
+    return { name: row['CACHE ID'] ?? '', size, reclaimable: inUse || row.SHARED === 'true' ? 0 : size, active: inUse, detail: row['CACHE TYPE'] };
+  });
+
+  const categories = [
+    summarize('images', images, imageSize),
+    summarize('containers', containers),
+    summarize('volumes', volumes),
+  ];
+  if (sections.has('build-cache')) {
+    categories.push(summarize('build-cache', buildCache));
+  }
+  return toReport(categories);
+}
+
+// GET /system/df, which has exact numbers
+export function parseApiDiskUsage(usage: ApiSystemDf): DiskUsageReport {
+  const images = (usage.Images || []).map(image => {
+    const tag = image.RepoTags?.find(candidate => candidate !== '<none>:<none>');
+    return imageItem(tag ?? image.Id.replace(/^sha256:/, '').substring(0, 12), image.Size, Math.max(image.SharedSize, 0), Math.max(image.Containers, 0));
+  });
+
+  const containers = (usage.Containers || []).map(container => {
+    const size = container.SizeRw ?? 0;
+    const running = container.State === 'running';
+    return { name: (container.Names[0] ?? container.Id).replace(/^\//, ''), size, reclaimable: running ? 0 : size, active: running, detail: container.Status };
+  });
+
+  const volumes = (usage.Volumes || []).map(volume => {
+    const size = Math.max(volume.UsageData?.Size ?? 0, 0);
+    const links = volume.UsageData?.RefCount ?? 0;
+    return { name: volume.Name, size, reclaimable: links > 0 ? 0 : size, active: links > 0 };
+  });
+
+  const buildCache = (usage.BuildCache || []).map(entry => ({
+    name: entry.ID,
+    size: entry.Size,
+    reclaimable: entry.InUse || entry.Shared ? 0 : entry.Size,
+    active: entry.InUse,
+    detail: entry.Type,
+  }));
+
+  return toReport([
+    summarize('images', images, usage.LayersSize),
+    summarize('containers', containers),
+    summarize('volumes', volumes),
+    summarize('build-cache', buildCache),
+  ]);
+}
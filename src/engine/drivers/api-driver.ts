@@ -0,0 +1,390 @@
+import type { Readable } from 'stream';
+import { CliEngineDriver } from './cli-driver.js';
+import { EngineApiClient, connectEngineApi, demultiplexStream, dockerHostSocket } from '../api-client.js';
+import { parseComposeLabels } from '../labels.js';
+import { parseApiDiskUsage } from '../disk-usage.js';
+import { parseStatusHealth } from '../inspect.js';
+import { parseContainerUsage, parseNetworkInfo, parseVolumeInfo } from '../resources.js';
+import type {
+  ComposeContext,
+  ContainerInfo,
+  ContainerMetrics,
+  ContainerRemoveOptions,
+  DiskUsageReport,
+  EngineEndpoint,
+  ImageInfo,
+  NetworkCreateOptions,
+  NetworkInfo,
+  ResourceLimits,
+  VolumeCreateOptions,
+  VolumeInfo,
+} from '../../types/index.js';
+import type {
+  ApiContainerInspect,
+  ApiContainerStats,
+  ApiContainerSummary,
+  ApiImageSummary,
+  ApiNetwork,
+  ApiPort,
+  ApiSystemDf,
+  ApiVolume,
+  ApiVolumeList,
+  ContainerUsage,
+  EngineEventStream,
+} from '../../types/engine.js';
+
+/**
+ * Driver for engines exposing the Docker Engine REST API on a local socket.
+ * Reads go through the API when a socket answers; compose operations and
+ * anything else fall back to the CLI.
+ */
+export abstract class ApiEngineDriver extends CliEngineDriver {
+  protected api: EngineApiClient | null = null;
+
+  constructor(private socketPath?: string, endpoint?: EngineEndpoint) {
+    super(endpoint);
+  }
+
+  protected abstract socketCandidates(): string[];
+
+  async connect(): Promise<void> {
+    const candidates = this.socketPath ? [this.socketPath] : this.endpoint ? this.endpointSockets() : this.socketCandidates();
+
+    // Falls back to the CLI path when no socket answers
+    this.api = await connectEngineApi(candidates, this.cli);
+  }
+
+  isUsingApi(): boolean {
+    return this.api !== null;
+  }
+
+  // Only unix socket endpoints are reachable directly; tcp, ssh, contexts and connections go through the CLI
+  private endpointSockets(): string[] {
+    const socket = this.endpoint?.host ? dockerHostSocket(this.endpoint.host) : null;
+    return socket ? [socket] : [];
+  }
+
+  async listContainers(): Promise<ContainerInfo[]> {
+    if (!this.api) {
+      return super.listContainers();
+    }
+
+    const summaries = await this.api.get<ApiContainerSummary[]>('/containers/json?all=1');
+    return summaries.map(summary => this.fromApiSummary(summary));
+  }
+
+  private fromApiSummary(summary: ApiContainerSummary): ContainerInfo {
+    const labels = summary.Labels || {};
+
+    return {
+      id: summary.Id.substring(0, 12),
+      name: (summary.Names[0] || '').replace(/^\//, ''),
+      image: summary.Image,
+      status: this.parseApiState(summary.State),
+      health: parseStatusHealth(summary.Status),
+      ports: this.formatApiPorts(summary.Ports || []),
+      created: new Date(summary.Created * 1000),
+      labels,
+      compose: parseComposeLabels(labels),
+    };
+  }
+
+  private parseApiState(state: string): ContainerInfo['status'] {
+    switch (state.toLowerCase()) {
+      case 'running': return 'running';
+      case 'paused': return 'paused';
+      case 'restarting': return 'restarting';
+      case 'dead': return 'dead';
+      default: return 'stopped';
+    }
+  }
+
+  private formatApiPorts(ports: ApiPort[]): string[] {
+    return ports.map(port => {
+      const target = `${port.PrivatePort}/${port.Type}`;
+      if (port.PublicPort === undefined) return target;
+      return `${port.IP || '0.0.0.0'}:${port.PublicPort}->${target}`;
+    });
+  }
+
+  async pauseContainer(nameOrId: string): Promise<void> {
+    if (!this.api) {
+      return super.pauseContainer(nameOrId);
+    }
+
+    await this.api.post(`/containers/${encodeURIComponent(nameOrId)}/pause`);
+  }
+
+  async unpauseContainer(nameOrId: string): Promise<void> {
+    if (!this.api) {
+      return super.unpauseContainer(nameOrId);
+    }
+
+    await this.api.post(`/containers/${encodeURIComponent(nameOrId)}/unpause`);
+  }
+
+  async killContainer(nameOrId: string, signal = 'SIGKILL'): Promise<void> {
+    if (!this.api) {
+      return super.killContainer(nameOrId, signal);
+    }
+
+    await this.api.post(`/containers/${encodeURIComponent(nameOrId)}/kill?signal=${encodeURIComponent(signal)}`);
+  }
+
+  async removeContainer(nameOrId: string, options: ContainerRemoveOptions = {}): Promise<void> {
+    if (!this.api) {
+      return super.removeContainer(nameOrId, options);
+    }
+
+    const query = `v=${options.volumes ? 1 : 0}&force=${options.force ? 1 : 0}`;
+    await this.api.request('DELETE', `/containers/${encodeURIComponent(nameOrId)}?${query}`);
+  }
+
+  async updateContainer(nameOrId: string, limits: ResourceLimits): Promise<void> {
+    if (!this.api) {
+      return super.updateContainer(nameOrId, limits);
+    }
+
+    await this.api.post(`/containers/${encodeURIComponent(nameOrId)}/update`, {
+      ...(limits.cpus !== undefined ? { NanoCpus: Math.round(limits.cpus * 1e9) } : {}),
+      // Same swap default as the CLI path
+      ...(limits.memory !== undefined ? { Memory: limits.memory, MemorySwap: limits.memory * 2 } : {}),
+    });
+  }
+
+  async getDiskUsage(): Promise<DiskUsageReport> {
+    if (!this.api) {
+      return super.getDiskUsage();
+    }
+
+    return parseApiDiskUsage(await this.api.get<ApiSystemDf>('/system/df'));
+  }
+
+  async getLogs(service?: string, follow = false, context: ComposeContext = {}): Promise<Readable> {
+    if (this.api && service) {
+      const apiStream = await this.getApiLogs(service, follow);
+      if (apiStream) {
+        return apiStream;
+      }
+    }
+
+    return super.getLogs(service, follow, context);
+  }
+
+  async getContainerLogs(nameOrId: string, follow = false): Promise<Readable> {
+    const apiStream = this.api ? await this.getApiLogs(nameOrId, follow) : null;
+    return apiStream || super.getContainerLogs(nameOrId, follow);
+  }
+
+  private async getApiLogs(container: string, follow: boolean): Promise<Readable | null> {
+    let details: ApiContainerInspect;
+    try {
+      details = await this.api!.get<ApiContainerInspect>(`/containers/${encodeURIComponent(container)}/json`);
+    } catch {
+      // Not a container name - let compose resolve it as a service
+      return null;
+    }
+
+    const query = `stdout=1&stderr=1&tail=200${follow ? '&follow=1' : ''}`;
+    const response = await this.api!.stream(`/containers/${encodeURIComponent(details.Id)}/logs?${query}`);
+
+    return details.Config.Tty ? response : demultiplexStream(response);
+  }
+
+  async getContainerMetrics(): Promise<ContainerMetrics[]> {
+    if (!this.api) {
+      return super.getContainerMetrics();
+    }
+
+    const containers = await this.listContainers();
+    const running = containers.filter(container => container.status === 'running');
+
+    const results = await Promise.all(running.map(async container => {
+      try {
+        const stats = await this.api!.get<ApiContainerStats>(`/containers/${container.id}/stats?stream=false`);
+        return this.fromApiStats(container, stats);
+      } catch {
+        // Container may have stopped between list and stats
+        return null;
+      }
+    }));
+
+    return results.filter((metric): metric is ContainerMetrics => metric !== null);
+  }
+
+  private fromApiStats(container: ContainerInfo, stats: ApiContainerStats): ContainerMetrics {
+    const cpuDelta = stats.cpu_stats.cpu_usage.total_usage - stats.precpu_stats.cpu_usage.total_usage;
+    const systemDelta = (stats.cpu_stats.system_cpu_usage || 0) - (stats.precpu_stats.system_cpu_usage || 0);
+    const onlineCpus = stats.cpu_stats.online_cpus || stats.cpu_stats.cpu_usage.percpu_usage?.length || 1;
+    const cpu = systemDelta > 0 && cpuDelta > 0 ? (cpuDelta / systemDelta) * onlineCpus * 100 : 0;
+
+    // Match the CLI by excluding page cache from memory usage
+    const memStats = stats.memory_stats.stats || {};
+    const cache = memStats.inactive_file ?? memStats.total_inactive_file ?? memStats.cache ?? 0;
+    const memUsed = Math.max((stats.memory_stats.usage || 0) - cache, 0);
+    const memLimit = stats.memory_stats.limit || 0;
+
+    let rx = 0;
+    let tx = 0;
+    for (const network of Object.values(stats.networks || {})) {
+      rx += network.rx_bytes;
+      tx += network.tx_bytes;
+    }
+
+    return {
+      id: container.id,
+      name: container.name,
+      cpu: Math.round(cpu * 100) / 100,
+      memory: {
+        used: memUsed,
+        limit: memLimit,
+        percentage: memLimit > 0 ? Math.round((memUsed / memLimit) * 10000) / 100 : 0,
+      },
+      network: {
+        rx,
+        tx,
+      },
+    };
+  }
+
+  async inspect(nameOrId: string): Promise<unknown> {
+    if (!this.api) {
+      return super.inspect(nameOrId);
+    }
+
+    return this.api.get<ApiContainerInspect>(`/containers/${encodeURIComponent(nameOrId)}/json`);
+  }
+
+  // Stopping and searching can outlast the API client's timeout, so those stay on the CLI
+  async listImages(): Promise<ImageInfo[]> {
+    if (!this.api) {
+      return super.listImages();
+    }
+
+    const images = await this.api.get<ApiImageSummary[]>('/images/json');
+    return images.flatMap(image => {
+      const id = image.Id.replace(/^sha256:/, '').substring(0, 12);
+      const created = new Date(image.Created * 1000);
+      // Dangling images have no tags, like <none>:<none> in the CLI listing
+      const tags = image.RepoTags?.length ? image.RepoTags : ['<none>:<none>'];
+
+      return tags.map(repoTag => {
+        const separator = repoTag.lastIndexOf(':');
+        return { repository: repoTag.substring(0, separator), tag: repoTag.substring(separator + 1), id, size: image.Size, created };
+      });
+    });
+  }
+
+  async inspectImage(image: string): Promise<unknown> {
+    if (!this.api) {
+      return super.inspectImage(image);
+    }
+
+    return this.api.get<unknown>(`/images/${encodeURIComponent(image)}/json`);
+  }
+
+  async listNetworks(): Promise<NetworkInfo[]> {
+    if (!this.api) {
+      return super.listNetworks();
+    }
+
+    const [networks, usage] = await Promise.all([
+      this.api.get<ApiNetwork[]>('/networks'),
+      this.getApiContainerUsage(),
+    ]);
+    return networks.map(network => parseNetworkInfo(network, usage));
+  }
+
+  async inspectNetwork(nameOrId: string): Promise<unknown> {
+    if (!this.api) {
+      return super.inspectNetwork(nameOrId);
+    }
+
+    return this.api.get<ApiNetwork>(`/networks/${encodeURIComponent(nameOrId)}`);
+  }
+
+  async createNetwork(name: string, options: NetworkCreateOptions = {}): Promise<void> {
+    if (!this.api) {
+      return super.createNetwork(name, options);
+    }
+
+    await this.api.post('/networks/create', {
+      Name: name,
+      Driver: options.driver,
+      Internal: options.internal,
+      Labels: options.labels,
+      IPAM: options.subnet ? { Config: [{ Subnet: options.subnet }] } : undefined,
+    });
+  }
+
+  async removeNetwork(nameOrId: string): Promise<void> {
+    if (!this.api) {
+      return super.removeNetwork(nameOrId);
+    }
+
+    await this.api.request('DELETE', `/networks/${encodeURIComponent(nameOrId)}`);
+  }
+
+  async listVolumes(): Promise<VolumeInfo[]> {
+    if (!this.api) {
+      return super.listVolumes();
+    }
+
+    const [list, usage, df] = await Promise.all([
+      this.api.get<ApiVolumeList>('/volumes'),
+      this.getApiContainerUsage(),
+      // Sizes come from a disk scan; the list is still useful without them
+      this.api.get<ApiSystemDf>('/system/df?type=volume').catch((): ApiSystemDf => ({})),
+    ]);
+
+    const sizes = new Map((df.Volumes || []).map(volume => [volume.Name, volume.UsageData?.Size]));
+    return (list.Volumes || []).map(volume => parseVolumeInfo(volume, usage, sizes.get(volume.Name)));
+  }
+
+  async inspectVolume(name: string): Promise<unknown> {
+    if (!this.api) {
+      return super.inspectVolume(name);
+    }
+
+    return this.api.get<ApiVolume>(`/volumes/${encodeURIComponent(name)}`);
+  }
+
+  async createVolume(name: string, options: VolumeCreateOptions = {}): Promise<void> {
+    if (!this.api) {
+      return super.createVolume(name, options);
+    }
+
+    await this.api.post('/volumes/create', {
+      Name: name,
+      Driver: options.driver,
+      Labels: options.labels,
+    });
+  }
+
+  async removeVolume(name: string, force = false): Promise<void> {
+    if (!this.api) {
+      return super.removeVolume(name, force);
+    }
+
+    await this.api.request('DELETE', `/volumes/${encodeURIComponent(name)}?force=${force ? 1 : 0}`);
+  }
+
+  private async getApiContainerUsage(): Promise<ContainerUsage[]> {
+    const summaries = await this.api!.get<ApiContainerSummary[]>('/containers/json?all=1');
+    return summaries.map(summary => parseContainerUsage(summary.Names[0] || '', summary));
+  }
+
+  async streamEvents(): Promise<EngineEventStream> {
+    if (!this.api) {
+      return super.streamEvents();
+    }
+
+    const filters = encodeURIComponent(JSON.stringify({ type: ['container'] }));
+    const response = await this.api.stream(`/events?filters=${filters}`);
+
+    return {
+      stream: response,
+      stop: () => response.destroy(),
+    };
+  }
+}
@@ -0,0 +1,573 @@
+import type { Readable } from 'stream';
+import {
+  COMPOSE_CONFIG_FILES_LABEL,
+  COMPOSE_PROJECT_LABEL,
+  COMPOSE_SERVICE_LABEL,
+  COMPOSE_WORKING_DIR_LABEL,
+  parseComposeLabels,
+} from '../labels.js';
+import { createEngineCommandError } from '../errors.js';
+import { parseSystemDf } from '../disk-usage.js';
+import { FILE_LISTING_FORMAT, parseFileListing } from '../files.js';
+import { parseStatusHealth } from '../inspect.js';
+import { parseByteSize } from '../units.js';
+import { parseContainerUsage, parseNetworkInfo, parseVolumeInfo } from '../resources.js';
+import { runProcess, streamProcess } from '../../process/index.js';
+import type {
+  ComposeContext,
+  ContainerEngine,
+  ContainerFileEntry,
+  ContainerInfo,
+  ContainerMetrics,
+  ContainerRemoveOptions,
+  DiskUsageReport,
+  EngineEndpoint,
+  ImageBuildOptions,
+  ImageInfo,
+  ImageSearchResult,
+  NetworkCreateOptions,
+  NetworkInfo,
+  ResourceLimits,
+  VolumeCreateOptions,
+  VolumeInfo,
+} from '../../types/index.js';
+import type {
+  ApiContainerInspect,
+  ApiNetwork,
+  ApiVolume,
+  BuildRunOptions,
+  ContainerUsage,
+  EngineCapabilities,
+  EngineDriver,
+  EngineEventStream,
+} from '../../types/engine.js';
+import type { RunResult } from '../../types/process.js';
+import type { ContainerRunOptions } from '../../types/registry.js';
+
+// Version checks during detection should not hang startup
+const PROBE_TIMEOUT_MS = 5000;
+// ps, stats and inspect; anything slower means the daemon is stuck
+const QUERY_TIMEOUT_MS = 30000;
+// Search hits the registry over the network
+const SEARCH_TIMEOUT_MS = 60000;
+
+const HEALTH_INTERVAL = '5s';
+
+const PS_LABELS = [
+  COMPOSE_PROJECT_LABEL,
+  COMPOSE_SERVICE_LABEL,
+  COMPOSE_WORKING_DIR_LABEL,
+  COMPOSE_CONFIG_FILES_LABEL,
+];
+
+/**
+ * Driver that shells out to an engine's CLI. Engines differ only in the
+ * binaries they use, so concrete drivers mostly just fill in the fields.
+ */
+export abstract class CliEngineDriver implements EngineDriver {
+  abstract readonly name: ContainerEngine;
+  abstract readonly cli: string;
+  abstract readonly capabilities: EngineCapabilities;
+
+  // Command prefix for compose operations (e.g. "docker compose")
+  protected abstract readonly compose: string;
+
+  // Format argument for the events command, or null when unsupported
+  protected abstract readonly eventsFormat: string | null;
+
+  constructor(protected endpoint?: EngineEndpoint) {}
+
+  async isAvailable(): Promise<boolean> {
+    try {
+      await runProcess(this.cli, ['--version'], { timeoutMs: PROBE_TIMEOUT_MS });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async isComposeAvailable(): Promise<boolean> {
+    const [command = '', ...args] = this.composeCommand(['version'], {});
+
+    try {
+      await runProcess(command, args, { timeoutMs: PROBE_TIMEOUT_MS });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async connect(): Promise<void> {
+    // Nothing to connect to - every call spawns the CLI
+  }
+
+  isUsingApi(): boolean {
+    return false;
+  }
+
+  async listContainers(): Promise<ContainerInfo[]> {
+    const labelColumns = PS_LABELS.map(label => `\t${this.labelFormat(label)}`).join('');
+    const { stdout } = await this.execute(['ps', '-a', '--format', `table {{.ID}}\t{{.Names}}\t{{.Image}}\t{{.Status}}\t{{.Ports}}\t{{.CreatedAt}}${labelColumns}`], QUERY_TIMEOUT_MS);
+
+    const lines = stdout.trim().split('\n').slice(1); // Skip header
+    return lines.filter(line => line.trim()).map(line => {
+      const [id, name, image, status, ports, created, ...labelValues] = line.split('\t');
+
+      const labels: Record<string, string> = {};
+      PS_LABELS.forEach((label, index) => {
+        const value = labelValues[index]?.trim();
+        if (value && value !== '<no value>') {
+          labels[label] = value;
+        }
+      });
+
+      return {
+        id: id?.trim() || '',
+        name: name?.trim() || '',
+        image: image?.trim() || '',
+        status: this.parseStatus(status?.trim() || ''),
+        health: parseStatusHealth(status || ''),
+        ports: ports?.trim().split(',').map(p => p.trim()).filter(Boolean) || [],
+        created: new Date(created?.trim() || ''),
+        labels,
+        compose: parseComposeLabels(labels),
+      };
+    });
+  }
+
+  // Go template that prints a single label in "ps --format"
+  protected labelFormat(label: string): string {
+    return `{{.Label "${label}"}}`;
+  }
+
+  protected parseStatus(status: string): ContainerInfo['status'] {
+    const lowerStatus = status.toLowerCase();
+    if (lowerStatus.includes('paused')) return 'paused';
+    if (lowerStatus.includes('up')) return 'running';
+    if (lowerStatus.includes('exited') || lowerStatus.includes('exit')) return 'stopped';
+    if (lowerStatus.includes('restarting')) return 'restarting';
+    if (lowerStatus.includes('dead')) return 'dead';
+    return 'stopped';
+  }
+
+  async startServices(services: string[], context: ComposeContext = {}): Promise<void> {
+    await this.executeCommand(this.composeCommand(['up', '-d', ...services], context), context.cwd);
+  }
+
+  async stopServices(services: string[], context: ComposeContext = {}): Promise<void> {
+    await this.executeCommand(this.composeCommand(['down', ...services], context), context.cwd);
+  }
+
+  async restartServices(services: string[], context: ComposeContext = {}): Promise<void> {
+    await this.executeCommand(this.composeCommand(['restart', ...services], context), context.cwd);
+  }
+
+  async recreateServices(services: string[], context: ComposeContext = {}): Promise<void> {
+    await this.executeCommand(this.composeCommand(['up', '-d', '--force-recreate', ...services], context), context.cwd);
+  }
+
+  async pauseContainer(nameOrId: string): Promise<void> {
+    await this.execute(['pause', nameOrId]);
+  }
+
+  async unpauseContainer(nameOrId: string): Promise<void> {
+    await this.execute(['unpause', nameOrId]);
+  }
+
+  async killContainer(nameOrId: string, signal = 'SIGKILL'): Promise<void> {
+    await this.execute(['kill', '--signal', signal, nameOrId]);
+  }
+
+  async stopContainer(nameOrId: string): Promise<void> {
+    await this.execute(['stop', '--', nameOrId]);
+  }
+
+  async removeContainer(nameOrId: string, options: ContainerRemoveOptions = {}): Promise<void> {
+    const args = ['rm'];
+    if (options.force) args.push('-f');
+    if (options.volumes) args.push('-v');
+
+    await this.execute([...args, nameOrId]);
+  }
+
+  async detectShell(nameOrId: string): Promise<string> {
+    // Prefer bash, but most slim images only ship sh
+    try {
+      const { stdout } = await this.execute(['exec', nameOrId, 'sh', '-c', 'command -v bash || command -v sh'], QUERY_TIMEOUT_MS);
+      return stdout.trim().split('\n')[0] || 'sh';
+    } catch {
+      return 'sh';
+    }
+  }
+
+  execArgv(nameOrId: string, command: string[], interactive: boolean): string[] {
+    return [this.cli, ...this.endpointArgs(), 'exec', ...(interactive ? ['-it'] : []), nameOrId, ...command];
+  }
+
+  // Full argv for a compose subcommand, e.g. ["docker", "compose", "-f", ..., "up", "web"]
+  protected composeCommand(args: string[], context: ComposeContext): string[] {
+    const [binary = '', ...subcommand] = this.compose.split(' ');
+    const argv = [binary, ...this.composeEndpointArgs(), ...subcommand];
+
+    for (const file of context.files || []) {
+      argv.push('-f', file);
+    }
+
+    if (context.projectName) {
+      argv.push('-p', context.projectName);
+    }
+
+    for (const profile of context.profiles || []) {
+      argv.push('--profile', profile);
+    }
+
+    argv.push(...args);
+    return argv;
+  }
+
+  // Global flags that point the CLI at the configured endpoint (docker's spelling)
+  protected endpointArgs(): string[] {
+    if (this.endpoint?.context) return ['--context', this.endpoint.context];
+    if (this.endpoint?.host) return ['--host', this.endpoint.host];
+    return [];
+  }
+
+  // Compose binaries that wrap the engine CLI accept the same flags
+  protected composeEndpointArgs(): string[] {
+    return this.endpointArgs();
+  }
+
+  async getLogs(service?: string, follow = false, context: ComposeContext = {}): Promise<Readable> {
+    const [command = '', ...args] = this.composeCommand(['logs', ...(follow ? ['-f'] : []), ...(service ? [service] : [])], context);
+
+    return streamProcess(command, args, { cwd: context.cwd }).stream;
+  }
+
+  async getContainerLogs(nameOrId: string, follow = false): Promise<Readable> {
+    const args = ['logs', '--tail', '200', ...(follow ? ['-f'] : []), nameOrId];
+
+    // Container logs interleave stdout and stderr
+    return streamProcess(this.cli, [...this.endpointArgs(), ...args], { mergeStderr: true }).stream;
+  }
+
+  async getContainerMetrics(): Promise<ContainerMetrics[]> {
+    const { stdout } = await this.execute(['stats', '--no-stream', '--format', 'table {{.ID}}\t{{.Name}}\t{{.CPUPerc}}\t{{.MemUsage}}\t{{.MemPerc}}\t{{.NetIO}}'], QUERY_TIMEOUT_MS);
+
+    return stdout.trim().split('\n').slice(1) // Skip header
+      .map(line => this.parseContainerStats(line))
+      .filter((metric): metric is ContainerMetrics => metric !== null);
+  }
+
+  private parseContainerStats(statsLine: string): ContainerMetrics | null {
+    const parts = statsLine.split('\t').map(p => p.trim());
+    if (parts.length < 6) return null;
+
+    const [id, name, cpuPerc, memUsage, memPerc, netIO] = parts;
+
+    // Parse CPU percentage
+    const cpu = parseFloat(cpuPerc?.replace('%', '') || '0');
+
+    // Parse memory usage (format: "used / limit")
+    const memParts = memUsage?.split(' / ') || [];
+    const memUsed = parseByteSize(memParts[0] || '0');
+    const memLimit = parseByteSize(memParts[1] || '0');
+    const memPercentage = parseFloat(memPerc?.replace('%', '') || '0');
+
+    // Parse network I/O (format: "rx / tx")
+    const netParts = netIO?.split(' / ') || [];
+    const netRx = parseByteSize(netParts[0] || '0');
+    const netTx = parseByteSize(netParts[1] || '0');
+
+    return {
+      id: id || '',
+      name: name || '',
+      cpu: Math.round(cpu * 100) / 100,
+      memory: {
+        used: memUsed,
+        limit: memLimit,
+        percentage: Math.round(memPercentage * 100) / 100,
+      },
+      network: {
+        rx: netRx,
+        tx: netTx,
+      },
+    };
+  }
+
+  async inspect(nameOrId: string): Promise<unknown> {
+    const { stdout } = await this.execute(['inspect', nameOrId], QUERY_TIMEOUT_MS);
+    return JSON.parse(stdout)[0];
+  }
+
+  async listContainerFiles(nameOrId: string, directory: string): Promise<ContainerFileEntry[]> {
+    // The trailing slash makes find follow a symlinked directory
+    const start = `${directory.replace(/\/+$/, '')}/`;
+    const { stdout } = await this.execute(
+      ['exec', nameOrId, 'find', start, '-mindepth', '1', '-maxdepth', '1', '-exec', 'stat', '-c', FILE_LISTING_FORMAT, '{}', '+'],
+      QUERY_TIMEOUT_MS,
+    );
+    return parseFileListing(stdout);
+  }
+
+  async readContainerFile(nameOrId: string, path: string, maxBytes: number): Promise<string> {
+    const { stdout } = await this.execute(['exec', nameOrId, 'head', '-c', String(maxBytes), '--', path], QUERY_TIMEOUT_MS);
+    return stdout;
+  }
+
+  async copyFromContainer(nameOrId: string, containerPath: string, hostPath: string): Promise<void> {
+    await this.execute(['cp', `${nameOrId}:${containerPath}`, hostPath]);
+  }
+
+  async copyToContainer(nameOrId: string, hostPath: string, containerPath: string): Promise<void> {
+    await this.execute(['cp', hostPath, `${nameOrId}:${containerPath}`]);
+  }
+
+  async updateContainer(nameOrId: string, limits: ResourceLimits): Promise<void> {
+    const args = ['update'];
+    if (limits.cpus !== undefined) {
+      args.push('--cpus', String(limits.cpus));
+    }
+    if (limits.memory !== undefined) {
+      // A swap limit left from before may be below the new memory limit, which is rejected
+      args.push('--memory', String(limits.memory), '--memory-swap', String(limits.memory * 2));
+    }
+
+    await this.execute([...args, nameOrId]);
+  }
+
+  async getDiskUsage(): Promise<DiskUsageReport> {
+    const { stdout } = await this.execute(['system', 'df', '-v'], QUERY_TIMEOUT_MS);
+    return parseSystemDf(stdout);
+  }
+
+  async pullImage(image: string): Promise<void> {
+    // Progress goes to stderr, so only the exit code tells whether it worked
+    await this.execute(['pull', image]);
+  }
+
+  async searchImages(query: string, limit: number): Promise<ImageSearchResult[]> {
+    const args = ['search', '--limit', String(limit), '--format', 'table {{.Name}}\t{{.Description}}\t{{.StarCount}}\t{{.IsOfficial}}', '--', query];
+    const { stdout } = await this.execute(args, SEARCH_TIMEOUT_MS);
+
+    const lines = stdout.trim().split('\n').slice(1); // Skip header
+    return lines.filter(Boolean).map(line => {
+      const [name, description, stars, official] = line.split('\t');
+      return {
+        name: name?.trim() || '',
+        description: description?.trim() || '',
+        stars: parseInt(stars?.trim() || '0') || 0,
+        official: official?.trim() === '[OK]',
+      };
+    });
+  }
+
+  async listImages(): Promise<ImageInfo[]> {
+    const { stdout } = await this.execute(['images', '--format', 'table {{.Repository}}\t{{.Tag}}\t{{.ID}}\t{{.Size}}\t{{.CreatedAt}}'], QUERY_TIMEOUT_MS);
+
+    const lines = stdout.trim().split('\n').slice(1); // Skip header
+    return lines.filter(Boolean).map(line => {
+      const [repository, tag, id, size, created] = line.split('\t');
+      return {
+        repository: repository?.trim() || '',
+        tag: tag?.trim() || '',
+        id: id?.trim() || '',
+        size: parseByteSize(size || ''),
+        created: new Date(created?.trim() || ''),
+      };
+    });
+  }
+
+  async inspectImage(image: string): Promise<unknown> {
+    const { stdout } = await this.execute(['image', 'inspect', '--', image], QUERY_TIMEOUT_MS);
+    return JSON.parse(stdout)[0];
+  }
+
+  async runContainer(options: ContainerRunOptions): Promise<string> {
+    const args: string[] = [];
+
+    if (options.detach !== false) {
+      args.push('-d');
+    }
+
+    args.push('--name', options.name);
+
+    if (options.ports) {
+      for (const port of options.ports) {
+        args.push('-p', port);
+      }
+    }
+
+    if (options.env) {
+      for (const [key, value] of Object.entries(options.env)) {
+        args.push('-e', `${key}=${value}`);
+      }
+    }
+
+    if (options.volumes) {
+      for (const volume of options.volumes) {
+        args.push('-v', volume);
+      }
+    }
+
+    if (options.network) {
+      args.push('--network', options.network);
+    }
+
+    if (options.restart) {
+      args.push('--restart', options.restart);
+    }
+
+    if (options.healthCheck) {
+      // The 30s default interval makes "cronos wait --healthy" needlessly slow
+      args.push('--health-cmd', options.healthCheck, '--health-interval', HEALTH_INTERVAL);
+    }
+
+    args.push(options.image);
+
+    // A missing image is pulled first, with progress on stderr
+    const { stdout } = await this.execute(['run', ...args]);
+
+    return stdout.trim().split('\n').pop() || ''; // Container ID
+  }
+
+  async buildServices(services: string[], context: ComposeContext = {}, options: BuildRunOptions = {}): Promise<void> {
+    const argv = this.composeCommand(['build', ...this.buildFlags(options), ...services], context);
+    await this.executeBuild(argv, context.cwd, options);
+  }
+
+  async buildImage(image: ImageBuildOptions, options: BuildRunOptions = {}): Promise<void> {
+    const args = ['build', '-t', image.tag, ...this.buildFlags(options)];
+    if (image.dockerfile) {
+      args.push('-f', image.dockerfile);
+    }
+
+    await this.executeBuild([this.cli, ...this.endpointArgs(), ...args, image.directory], image.directory, options);
+  }
+
+  private buildFlags(options: BuildRunOptions): string[] {
+    return [...(options.noCache ? ['--no-cache'] : []), ...(options.pull ? ['--pull'] : [])];
+  }
+
+  // Plain progress prints one line per event instead of redrawing the terminal
+  private async executeBuild(argv: string[], cwd: string | undefined, options: BuildRunOptions): Promise<void> {
+    const [command = '', ...args] = argv;
+
+    await runProcess(command, args, {
+      cwd,
+      env: { ...process.env, BUILDKIT_PROGRESS: 'plain' },
+      signal: options.signal,
+      onOutput: options.onOutput,
+      createError: createEngineCommandError,
+    });
+  }
+
+  async listNetworks(): Promise<NetworkInfo[]> {
+    const ids = await this.listIds(['network', 'ls', '-q']);
+    if (ids.length === 0) return [];
+
+    const [{ stdout }, usage] = await Promise.all([
+      this.execute(['network', 'inspect', ...ids], QUERY_TIMEOUT_MS),
+      this.containerUsage(),
+    ]);
+
+    return (JSON.parse(stdout) as ApiNetwork[]).map(network => parseNetworkInfo(network, usage));
+  }
+
+  async inspectNetwork(nameOrId: string): Promise<unknown> {
+    const { stdout } = await this.execute(['network', 'inspect', nameOrId], QUERY_TIMEOUT_MS);
+    return JSON.parse(stdout)[0];
+  }
+
+  async createNetwork(name: string, options: NetworkCreateOptions = {}): Promise<void> {
+    const args = ['network', 'create'];
+    if (options.driver) args.push('--driver', options.driver);
+    if (options.internal) args.push('--internal');
+    if (options.subnet) args.push('--subnet', options.subnet);
+    for (const [key, value] of Object.entries(options.labels || {})) {
+      args.push('--label', `${key}=${value}`);
+    }
+
+    await this.execute([...args, name]);
+  }
+
+  async removeNetwork(nameOrId: string): Promise<void> {
+    await this.execute(['network', 'rm', nameOrId]);
+  }
+
+  async listVolumes(): Promise<VolumeInfo[]> {
+    const names = await this.listIds(['volume', 'ls', '-q']);
+    if (names.length === 0) return [];
+
+    const [{ stdout }, usage, sizes] = await Promise.all([
+      this.execute(['volume', 'inspect', ...names], QUERY_TIMEOUT_MS),
+      this.containerUsage(),
+      this.volumeSizes(),
+    ]);
+
+    return (JSON.parse(stdout) as ApiVolume[]).map(volume => parseVolumeInfo(volume, usage, sizes.get(volume.Name)));
+  }
+
+  async inspectVolume(name: string): Promise<unknown> {
+    const { stdout } = await this.execute(['volume', 'inspect', name], QUERY_TIMEOUT_MS);
+    return JSON.parse(stdout)[0];
+  }
+
+  async createVolume(name: string, options: VolumeCreateOptions = {}): Promise<void> {
+    const args = ['volume', 'create'];
+    if (options.driver) args.push('--driver', options.driver);
+    for (const [key, value] of Object.entries(options.labels || {})) {
+      args.push('--label', `${key}=${value}`);
+    }
+
+    await this.execute([...args, name]);
+  }
+
+  async removeVolume(name: string, force = false): Promise<void> {
+    await this.execute(['volume', 'rm', ...(force ? ['-f'] : []), name]);
+  }
+
+  // Output of a "-q" listing, one ID or name per line
+  private async listIds(args: string[]): Promise<string[]> {
+    const { stdout } = await this.execute(args, QUERY_TIMEOUT_MS);
+    return stdout.split('\n').map(line => line.trim()).filter(Boolean);
+  }
+
+  // Which networks and volumes every container (stopped ones too) uses
+  private async containerUsage(): Promise<ContainerUsage[]> {
+    const ids = await this.listIds(['ps', '-aq']);
+    if (ids.length === 0) return [];
+
+    const { stdout } = await this.execute(['inspect', ...ids], QUERY_TIMEOUT_MS);
+    return (JSON.parse(stdout) as ApiContainerInspect[]).map(container => parseContainerUsage(container.Name, container));
+  }
+
+  // Sizes need "system df -v" with JSON output; without it volumes just show no size
+  private async volumeSizes(): Promise<Map<string, number>> {
+    try {
+      const { stdout } = await this.execute(['system', 'df', '-v', '--format', '{{json .}}'], QUERY_TIMEOUT_MS);
+      const usage = JSON.parse(stdout) as { Volumes?: { Name: string; Size: string }[] | null };
+
+      return new Map((usage.Volumes || []).map(volume => [volume.Name, parseByteSize(volume.Size)]));
+    } catch {
+      return new Map();
+    }
+  }
+
+  async streamEvents(): Promise<EngineEventStream> {
+    if (!this.eventsFormat) {
+      throw new Error(`${this.name} does not support event streaming`);
+    }
+
+    return streamProcess(this.cli, [...this.endpointArgs(), 'events', '--filter', 'type=container', '--format', this.eventsFormat]);
+  }
+
+  // Runs the engine CLI and captures its output
+  protected async execute(args: string[], timeoutMs?: number): Promise<RunResult> {
+    return runProcess(this.cli, [...this.endpointArgs(), ...args], { timeoutMs, createError: createEngineCommandError });
+  }
+
+  protected async executeCommand(argv: string[], cwd?: string): Promise<void> {
+    const [command = '', ...args] = argv;
+    await runProcess(command, args, { cwd, createError: createEngineCommandError });
+  }
+}
@@ -0,0 +1,20 @@
+import { DockerDriver } from './docker.js';
+import type { ContainerEngine } from '../../types/index.js';
+import type { EngineCapabilities } from '../../types/engine.js';
+
+/**
+ * Docker with the standalone docker-compose v1 binary, for hosts that
+ * never installed the compose v2 plugin.
+ */
+export class DockerComposeV1Driver extends DockerDriver {
+  readonly name: ContainerEngine = 'docker-compose';
+  readonly capabilities: EngineCapabilities = {
+    api: true,
+    events: true,
+    stats: true,
+    pause: true,
+    composeProfiles: true,
+  };
+
+  protected readonly compose: string = 'docker-compose';
+}
@@ -0,0 +1,31 @@
+import { homedir } from 'os';
+import { join } from 'path';
+import { ApiEngineDriver } from './api-driver.js';
+import { dockerHostSocket } from '../api-client.js';
+import type { ContainerEngine } from '../../types/index.js';
+import type { EngineCapabilities } from '../../types/engine.js';
+
+export class DockerDriver extends ApiEngineDriver {
+  readonly name: ContainerEngine = 'docker';
+  readonly cli: string = 'docker';
+  readonly capabilities: EngineCapabilities = {
+    api: true,
+    events: true,
+    stats: true,
+    pause: true,
+    composeProfiles: true,
+  };
+
+  protected readonly compose: string = 'docker compose';
+  protected readonly eventsFormat: string | null = '{{json .}}';
+
+  protected socketCandidates(): string[] {
+    const candidates = [
+      '/var/run/docker.sock',
+      join(homedir(), '.docker', 'run', 'docker.sock'),
+    ];
+
+    const hostSocket = dockerHostSocket();
+    return hostSocket ? [hostSocket, ...candidates] : candidates;
+  }
+}
@@ -0,0 +1,29 @@
+import { CliEngineDriver } from './cli-driver.js';
+import type { ContainerEngine } from '../../types/index.js';
+import type { EngineCapabilities } from '../../types/engine.js';
+
+/**
+ * containerd through nerdctl (Lima, Rancher Desktop, colima --runtime
+ * containerd). There is no Engine API socket, so everything goes via CLI.
+ */
+export class NerdctlDriver extends CliEngineDriver {
+  readonly name: ContainerEngine = 'nerdctl';
+  readonly cli: string = 'nerdctl';
+  readonly capabilities: EngineCapabilities = {
+    api: false,
+    events: false,
+    stats: true,
+    pause: true,
+    composeProfiles: true,
+  };
+
+  protected readonly compose: string = 'nerdctl compose';
+
+  // nerdctl events has no container filter and a different payload
+  protected readonly eventsFormat: string | null = null;
+
+  protected endpointArgs(): string[] {
+    // nerdctl talks to containerd directly and wants a bare socket path
+    return this.endpoint?.host ? ['--address', this.endpoint.host.replace(/^unix:\/\//, '')] : [];
+  }
+}
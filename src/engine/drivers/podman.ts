@@ -0,0 +1,50 @@
+import { join } from 'path';
+import { ApiEngineDriver } from './api-driver.js';
+import { dockerHostSocket } from '../api-client.js';
+import type { ContainerEngine } from '../../types/index.js';
+import type { EngineCapabilities } from '../../types/engine.js';
+
+export class PodmanDriver extends ApiEngineDriver {
+  readonly name: ContainerEngine = 'podman';
+  readonly cli: string = 'podman';
+  readonly capabilities: EngineCapabilities = {
+    api: true,
+    events: true,
+    stats: true,
+    pause: true,
+    composeProfiles: true,
+  };
+
+  protected readonly compose: string = 'podman-compose';
+  protected readonly eventsFormat: string | null = 'json';
+
+  protected labelFormat(label: string): string {
+    // Podman exposes labels as a map rather than docker's .Label helper
+    return `{{index .Labels "${label}"}}`;
+  }
+
+  protected endpointArgs(): string[] {
+    if (this.endpoint?.connection) return ['--connection', this.endpoint.connection];
+    if (this.endpoint?.host) return ['--url', this.endpoint.host];
+    return [];
+  }
+
+  protected composeEndpointArgs(): string[] {
+    // podman-compose forwards global podman flags as a single string
+    const args = this.endpointArgs();
+    return args.length > 0 ? ['--podman-args', args.join(' ')] : [];
+  }
+
+  protected socketCandidates(): string[] {
+    const candidates: string[] = [];
+
+    const runtimeDir = process.env.XDG_RUNTIME_DIR;
+    if (runtimeDir) {
+      candidates.push(join(runtimeDir, 'podman', 'podman.sock'));
+    }
+    candidates.push('/run/podman/podman.sock');
+
+    const hostSocket = dockerHostSocket();
+    return hostSocket ? [hostSocket, ...candidates] : candidates;
+  }
+}
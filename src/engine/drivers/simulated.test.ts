@@ -0,0 +1,27 @@
+import { SimulatedDriver } from './simulated.js';
+
+describe('SimulatedDriver', () => {
+  it('reports the same volumes in the volume list and the disk usage', async () => {
+    const driver = new SimulatedDriver(0);
+    await driver.removeVolume('redis_data');
+
+    const volumes = await driver.listVolumes();
+    const usage = (await driver.getDiskUsage()).categories.find(category => category.category === 'volumes');
+
+    // df orders by size, the list by name
+    const byName = (a: [string, number | undefined], b: [string, number | undefined]) => a[0].localeCompare(b[0]);
+    expect(usage?.count).toBe(6);
+    expect(usage?.items.map((item): [string, number] => [item.name, item.size]).sort(byName))
+      .toEqual(volumes.map((volume): [string, number | undefined] => [volume.name, volume.size]).sort(byName));
+  });
+
+  it('mounts each demo container\'s own data volume', async () => {
+    const driver = new SimulatedDriver(0);
+    const volumes = await driver.listVolumes();
+
+    for (const container of await driver.listContainers()) {
+      const mounted = volumes.filter(volume => volume.containers.includes(container.name)).map(volume => volume.name);
+      expect(mounted).toEqual([`demo_${container.compose?.service}-data`]);
+    }
+  });
+});
@@ -0,0 +1,117 @@
+import { ProcessError } from '../process/index.js';
+import { formatPortBinding, formatPortOwner } from './ports.js';
+import type { EngineErrorCause } from '../types/engine.js';
+import type { PortConflict } from '../types/index.js';
+import type { CommandFailure } from '../types/process.js';
+
+/**
+ * Raised when an engine command fails. Subclasses say why, based on what
+ * the engine printed, so the UI can tell the user what to do about it.
+ */
+export class EngineCommandError extends ProcessError {
+  readonly reason: EngineErrorCause = 'unknown';
+
+  // What the user can do about it, if we know
+  get hint(): string | undefined {
+    return undefined;
+  }
+}
+
+export class DaemonNotRunningError extends EngineCommandError {
+  readonly reason: EngineErrorCause = 'daemon-not-running';
+
+  get hint(): string {
+    return `Cannot reach the ${this.command} engine - make sure it is running or pick another engine with --engine`;
+  }
+}
+
+export class PermissionDeniedError extends EngineCommandError {
+  readonly reason: EngineErrorCause = 'permission-denied';
+
+  get hint(): string {
+    return `No access to the ${this.command} socket - add your user to the engine's group (e.g. docker) or use a rootless engine`;
+  }
+}
+
+export class NameConflictError extends EngineCommandError {
+  readonly reason: EngineErrorCause = 'name-conflict';
+
+  get hint(): string {
+    const name = this.stderr.match(/container name "\/?([^"]+)"/)?.[1];
+    return `${name ? `A container named ${name}` : 'A container with that name'} already exists - remove it or choose another name`;
+  }
+}
+
+export class PortAllocatedError extends EngineCommandError {
+  readonly reason: EngineErrorCause = 'port-allocated';
+
+  get port(): number | undefined {
+    const match = this.stderr.match(/(?:[\d.]+|\[::\]):(\d+)/);
+    return match?.[1] ? parseInt(match[1]) : undefined;
+  }
+
+  get hint(): string {
+    return `${this.port ? `Port ${this.port}` : 'A published port'} is already in use - stop whatever holds it or change the port mapping`;
+  }
+}
+
+export class ImageNotFoundError extends EngineCommandError {
+  readonly reason: EngineErrorCause = 'image-not-found';
+
+  get hint(): string {
+    return 'Image not found - check the name and tag, or log in to the registry if it is private';
+  }
+}
+
+/**
+ * Raised before starting anything when the host ports it would publish
+ * are taken, naming whoever holds each of them.
+ */
+export class PortConflictError extends Error {
+  readonly conflicts: PortConflict[];
+
+  constructor(conflicts: PortConflict[]) {
+    super(conflicts.map(conflict =>
+      `Port ${formatPortBinding(conflict.binding)}${conflict.binding.service ? ` (${conflict.binding.service})` : ''} is already used by ${formatPortOwner(conflict.owner)}`
+    ).join('; '));
+    this.name = 'PortConflictError';
+    this.conflicts = conflicts;
+  }
+
+  get hint(): string {
+    return 'Stop whatever holds the port or change the port mapping';
+  }
+}
+
+// Order matters: "permission denied ... docker daemon socket" is a permission
+// problem and "address already in use" is not a name conflict
+const CLASSIFIERS: Array<[RegExp, typeof EngineCommandError]> = [
+  [/permission denied/i, PermissionDeniedError],
+  [/cannot connect to the docker daemon|is the docker daemon running|cannot connect to podman|connect: connection refused|containerd\.sock.*no such file/i, DaemonNotRunningError],
+  [/port is already allocated|address already in use/i, PortAllocatedError],
+  [/name .*is already (in use|used)/i, NameConflictError],
+  [/pull access denied|manifest unknown|manifest for .* not found|no such image|image not known|repository does not exist/i, ImageNotFoundError],
+];
+
+/**
+ * Builds the most specific EngineCommandError subclass for a failed
+ * command, based on what the engine printed to stderr.
+ */
+export function createEngineCommandError(failure: CommandFailure): EngineCommandError {
+  const match = CLASSIFIERS.find(([pattern]) => pattern.test(failure.stderr));
+  const ErrorClass = match ? match[1] : EngineCommandError;
+  return new ErrorClass(failure);
+}
+
+/**
+ * One-line description for the status bar and CLI, with the hint appended
+ * when the cause is known.
+ */
+export function describeEngineError(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+
+  if ((error instanceof EngineCommandError || error instanceof PortConflictError) && error.hint) {
+    return `${message} (${error.hint})`;
+  }
+  return message;
+}
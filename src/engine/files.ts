@@ -0,0 +1,58 @@
+import { posix } from 'path';
+import type { ContainerFileEntry, ContainerFileType } from '../types/index.js';
+
+// What `stat -c` prints for each entry; busybox and coreutils agree on it
+export const FILE_LISTING_FORMAT = '%F|%s|%Y|%n';
+
+function parseFileType(type: string): ContainerFileType {
+  if (type === 'directory') return 'directory';
+  if (type === 'symbolic link') return 'symlink';
+  if (type.startsWith('regular')) return 'file';
+  return 'other';
+}
+
+/**
+ * Entries from `stat -c '%F|%s|%Y|%n'` output, one per line. Names may
+ * contain the separator, so everything after the third one is the path.
+ */
+export function parseFileListing(stdout: string): ContainerFileEntry[] {
+  return stdout.split('\n').filter(Boolean).flatMap(line => {
+    const [type = '', size = '', modified = '', ...path] = line.split('|');
+    if (path.length === 0) return [];
+    const fullPath = posix.normalize(path.join('|'));
+
+    return [{
+      name: posix.basename(fullPath),
+      path: fullPath,
+      type: parseFileType(type),
+      size: parseInt(size, 10) || 0,
+      modified: modified ? new Date(parseInt(modified, 10) * 1000) : undefined,
+    }];
+  });
+}
+
+// Directories first, then by name
+export function compareFileEntries(a: ContainerFileEntry, b: ContainerFileEntry): number {
+  if ((a.type === 'directory') !== (b.type === 'directory')) {
+    return a.type === 'directory' ? -1 : 1;
+  }
+  return a.name.localeCompare(b.name);
+}
+
+// Control characters other than whitespace, or bytes that did not decode
+export function isTextContent(content: string): boolean {
+  // eslint-disable-next-line no-control-regex
+  return !/[\u0000-\u0008\u000e-\u001f\ufffd]/.test(content);
+}
+
+/**
+ * "web:/var/log/app.log" style arguments, as `docker cp` takes them.
+ * Anything that looks like a host path (absolute, relative or a Windows
+ * drive) is not a container reference.
+ */
+export function parseContainerPath(argument: string): { container: string; path: string } | undefined {
+  const match = argument.match(/^([^/.\\][^:/\\]*):(.*)$/);
+  if (!match || /^[a-zA-Z]$/.test(match[1]!)) return undefined;
+
+  return { container: match[1]!, path: match[2] || '/' };
+}
@@ -0,0 +1,72 @@
+import { ContainerEngineManager } from './index.js';
+import { FakeDaemon } from '../test-support/fake-daemon.js';
+
+// A daemon whose only container is `name`
+function daemonWith(name: string): Promise<FakeDaemon> {
+  return FakeDaemon.start(() => [200, [{
+    Id: `${name}-0123456789`,
+    Names: [`/${name}`],
+    Image: 'nginx:alpine',
+    State: 'running',
+    Status: 'Up 5 seconds',
+    Created: 1700000000,
+    Ports: [],
+    Labels: {},
+  }]]);
+}
+
+describe('ContainerEngineManager hosts', () => {
+  let local: FakeDaemon;
+  let staging: FakeDaemon;
+  let manager: ContainerEngineManager;
+
+  beforeEach(async () => {
+    // No docker CLI is needed when the sockets answer
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    local = await daemonWith('local-web');
+    staging = await daemonWith('staging-web');
+
+    manager = new ContainerEngineManager({ socketPath: local.socketPath });
+    manager.setPreferredEngine('docker');
+    manager.setEndpoints([
+      { name: 'staging', engine: 'docker', host: `unix://${staging.socketPath}` },
+      { name: 'offline', engine: 'docker', host: `unix://${staging.missingSocket()}` },
+    ]);
+  });
+
+  afterEach(async () => {
+    await Promise.all([local.close(), staging.close()]);
+    jest.restoreAllMocks();
+  });
+
+  it('lists the local host first, then the configured endpoints', () => {
+    expect(manager.getHosts()).toEqual(['local', 'staging', 'offline']);
+  });
+
+  it('lists every host on its own and tags containers with their host', async () => {
+    const [localHost, stagingHost, offlineHost] = await manager.listContainersOnAllHosts();
+
+    expect(localHost?.containers.map(container => [container.host, container.name])).toEqual([['local', 'local-web']]);
+    expect(stagingHost?.containers.map(container => [container.host, container.name])).toEqual([['staging', 'staging-web']]);
+    expect(offlineHost).toMatchObject({ host: 'offline', containers: [] });
+    expect(offlineHost?.error).toBeInstanceOf(Error);
+  });
+
+  it('reuses managers per host', () => {
+    expect(manager.forHost('local')).toBe(manager);
+    expect(manager.forHost('staging')).toBe(manager.forHost('staging'));
+    expect(manager.forHost('staging').getHost()).toBe('staging');
+  });
+
+  it('rejects hosts that are not configured', () => {
+    expect(() => manager.forHost('production')).toThrow('Unknown host \'production\' - configured hosts: local, staging, offline');
+  });
+
+  it('forgets host managers when the endpoints change', () => {
+    const stagingManager = manager.forHost('staging');
+    manager.setEndpoints([{ name: 'staging', engine: 'podman', host: 'unix:///run/podman/podman.sock' }]);
+
+    expect(manager.forHost('staging')).not.toBe(stagingManager);
+  });
+});
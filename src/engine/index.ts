@@ -1,176 +1,974 @@
-import { spawn, exec } from 'child_process';
-import { promisify } from 'util';
-import type { ContainerEngine, ContainerInfo, EngineCommands } from '../types/index.js';
+import type { Readable } from 'stream';
+import { DockerDriver } from './drivers/docker.js';
+import { DockerComposeV1Driver } from './drivers/docker-compose.js';
+import { PodmanDriver } from './drivers/podman.js';
+import { NerdctlDriver } from './drivers/nerdctl.js';
+import { SimulatedDriver } from './drivers/simulated.js';
+import { runInteractive } from '../process/index.js';
+import { parseContainerDetails, parseHealthStatus } from './inspect.js';
+import { BuildFailedError, BuildOutputParser } from './build.js';
+import { PortConflictError } from './errors.js';
+import { compareFileEntries } from './files.js';
+import {
+  bindingsOverlap,
+  findLocalListener,
+  formatPortBinding,
+  parsePortSpec,
+  parsePublishedPort,
+} from './ports.js';
+import { composeParser, isServiceEnabled } from '../compose/index.js';
+import { LOCAL_HOST } from '../config/index.js';
+import type {
+  BuildOptions,
+  BuildSummary,
+  ComposeContext,
+  ContainerEngine,
+  ContainerEvent,
+  ContainerEventAction,
+  ContainerDetails,
+  ContainerFileEntry,
+  ContainerInfo,
+  ContainerMetrics,
+  ContainerRemoveOptions,
+  DiskUsageReport,
+  EngineEndpoint,
+  EngineSelection,
+  HostContainers,
+  ImageBuildOptions,
+  ImageInfo,
+  ImageSearchResult,
+  NetworkCreateOptions,
+  NetworkInfo,
+  PortBinding,
+  PortConflict,
+  PortRemap,
+  PruneResult,
+  ResourceLimits,
+  VolumeCreateOptions,
+  VolumeInfo,
+  WaitOptions,
+} from '../types/index.js';
+import type { ApiEvent, BuildRunOptions, EngineCapabilities, EngineDriver, PodmanEvent } from '../types/engine.js';
+import type { ContainerRunOptions } from '../types/registry.js';
 
-const execAsync = promisify(exec);
+const EVENT_ACTIONS: ContainerEventAction[] = [
+  'create', 'start', 'stop', 'die', 'kill', 'pause', 'unpause', 'restart', 'destroy', 'health_status',
+];
+
+const EVENT_RECONNECT_DELAY_MS = 5000;
+
+const WAIT_POLL_INTERVAL_MS = 1000;
+const DEFAULT_WAIT_TIMEOUT_MS = 60000;
+
+// How far above a taken port to look for a free one
+const PORT_REMAP_RANGE = 100;
+
+// Larger files are not worth pulling through exec just to look at them
+export const FILE_PREVIEW_MAX_BYTES = 64 * 1024;
+
+// Smallest memory limit docker accepts
+const MIN_MEMORY_LIMIT = 6 * 1024 * 1024;
+
+// Auto-detection order; docker-compose v1 only wins when the compose plugin is missing
+const ENGINE_ORDER: ContainerEngine[] = ['docker', 'podman', 'nerdctl', 'docker-compose'];
+
+export interface ContainerEngineOptions {
+  socketPath?: string | undefined;
+  // Remote or secondary engine to talk to instead of the local one
+  endpoint?: EngineEndpoint | undefined;
+}
 
 export class ContainerEngineManager {
-  private engine: ContainerEngine | null = null;
-  private commands: EngineCommands | null = null;
+  private driver: EngineDriver | null = null;
+  private overrideDrivers: Map<ContainerEngine, EngineDriver> = new Map();
   private initialized = false;
+  private preferredEngine: EngineSelection = 'auto';
+  private endpoints: EngineEndpoint[] = [];
+  private hostManagers: Map<string, ContainerEngineManager> = new Map();
+
+  private eventListeners: Set<(event: ContainerEvent) => void> = new Set();
+  private eventStreamListeners: Set<(connected: boolean) => void> = new Set();
+  private stopEventStream: (() => void) | null = null;
+  private eventReconnectTimer: NodeJS.Timeout | null = null;
+  private watchingEvents = false;
+  private eventsConnected = false;
 
-  constructor() {
+  constructor(private options: ContainerEngineOptions = {}) {
     // Don't call detectEngine in constructor since it's async
   }
 
   async initialize(): Promise<void> {
     if (!this.initialized) {
       await this.detectEngine();
+      await this.driver!.connect();
       this.initialized = true;
     }
   }
 
+  private createDriver(engine: ContainerEngine): EngineDriver {
+    switch (engine) {
+      case 'docker': return new DockerDriver(this.options.socketPath, this.options.endpoint);
+      case 'docker-compose': return new DockerComposeV1Driver(this.options.socketPath, this.options.endpoint);
+      case 'podman': return new PodmanDriver(this.options.socketPath, this.options.endpoint);
+      case 'nerdctl': return new NerdctlDriver(this.options.endpoint);
+      case 'simulated': return new SimulatedDriver();
+    }
+  }
+
   private async detectEngine(): Promise<void> {
-    try {
-      await execAsync('docker --version');
-      this.engine = 'docker';
-      this.commands = {
-        ps: 'docker ps',
-        up: 'docker compose up',
-        down: 'docker compose down',
-        restart: 'docker compose restart',
-        logs: 'docker compose logs',
-        stats: 'docker stats',
-        inspect: 'docker inspect',
-      };
-    } catch {
+    // Endpoints always name their engine
+    const preference = this.options.endpoint?.engine ?? this.preferredEngine;
+
+    if (preference !== 'auto') {
+      this.driver = this.createDriver(preference);
+      if (!(await this.driver.isAvailable())) {
+        console.warn(`Configured engine ${preference} not found - commands will fail until it is installed`);
+      }
+      return;
+    }
+
+    const drivers = ENGINE_ORDER.map(engine => this.createDriver(engine));
+    const available: EngineDriver[] = [];
+
+    for (const driver of drivers) {
+      if (await driver.isAvailable()) {
+        // Prefer an engine that can also run compose
+        if (await driver.isComposeAvailable()) {
+          this.driver = driver;
+          return;
+        }
+        available.push(driver);
+      }
+    }
+
+    if (available[0]) {
+      this.driver = available[0];
+      return;
+    }
+
+    console.warn('No container engine found (tried docker, podman, nerdctl) - running in demo mode');
+    this.driver = this.createDriver('simulated');
+  }
+
+  /**
+   * Sets the engine to use on the next initialization. The CLI flag and
+   * the `engine` setting from cronos.yml both end up here.
+   */
+  setPreferredEngine(engine: EngineSelection): void {
+    this.preferredEngine = engine;
+  }
+
+  getPreferredEngine(): EngineSelection {
+    return this.preferredEngine;
+  }
+
+  async getAvailableEngines(): Promise<ContainerEngine[]> {
+    const available = await Promise.all(ENGINE_ORDER.map(engine => this.createDriver(engine).isAvailable()));
+    const engines = ENGINE_ORDER.filter((_engine, index) => available[index]);
+
+    // The simulated engine is always there to switch to
+    return [...engines, 'simulated'];
+  }
+
+  /**
+   * Re-detects the engine without restarting Cronos. An active event
+   * subscription is moved over to the new engine.
+   */
+  async switchEngine(engine: EngineSelection): Promise<ContainerEngine> {
+    this.preferredEngine = engine;
+    await this.reinitialize();
+
+    return this.driver!.name;
+  }
+
+  /**
+   * Registers the named endpoints from cronos.yml. They can be switched
+   * to with switchHost() or listed together with listContainersOnAllHosts().
+   */
+  setEndpoints(endpoints: EngineEndpoint[]): void {
+    this.endpoints = endpoints;
+    this.hostManagers.clear();
+  }
+
+  getHosts(): string[] {
+    return [LOCAL_HOST, ...this.endpoints.map(endpoint => endpoint.name)];
+  }
+
+  getHost(): string {
+    return this.options.endpoint?.name ?? LOCAL_HOST;
+  }
+
+  // Sets the host to use on the next initialization, like setPreferredEngine()
+  setHost(host: string): void {
+    this.options.endpoint = this.findEndpoint(host);
+  }
+
+  async switchHost(host: string): Promise<void> {
+    this.options.endpoint = this.findEndpoint(host);
+    await this.reinitialize();
+  }
+
+  /**
+   * Manager for another configured host, sharing this one's engine
+   * preference. Lets the merged view act on containers of any host
+   * without switching away from the current one.
+   */
+  forHost(host: string): ContainerEngineManager {
+    if (host === this.getHost()) {
+      return this;
+    }
+
+    let manager = this.hostManagers.get(host);
+    if (!manager) {
+      const endpoint = this.findEndpoint(host);
+      manager = new ContainerEngineManager({ socketPath: endpoint ? undefined : this.options.socketPath, endpoint });
+      manager.setPreferredEngine(this.preferredEngine);
+      this.hostManagers.set(host, manager);
+    }
+    return manager;
+  }
+
+  // One entry per host; an unreachable host reports its error instead of failing the rest
+  async listContainersOnAllHosts(): Promise<HostContainers[]> {
+    return Promise.all(this.getHosts().map(async host => {
       try {
-        await execAsync('podman --version');
-        this.engine = 'podman';
-        this.commands = {
-          ps: 'podman ps',
-          up: 'podman-compose up',
-          down: 'podman-compose down',
-          restart: 'podman-compose restart',
-          logs: 'podman-compose logs',
-          stats: 'podman stats',
-          inspect: 'podman inspect',
-        };
-      } catch {
-        // Set demo mode with mock commands for development
-        console.warn('Neither Docker nor Podman found - running in demo mode');
-        this.engine = 'docker'; // Default to docker for UI purposes
-        this.commands = {
-          ps: 'echo "CONTAINER ID\tNAMES\tIMAGE\tSTATUS\tPORTS\tCREATED AT"',
-          up: 'echo "Starting services..."',
-          down: 'echo "Stopping services..."',
-          restart: 'echo "Restarting services..."',
-          logs: 'echo "No logs available in demo mode"',
-          stats: 'echo "CONTAINER\tCPU %\tMEM USAGE / LIMIT\tMEM %\tNET I/O"',
-          inspect: 'echo "[]"',
-        };
+        return { host, containers: await this.forHost(host).listContainers() };
+      } catch (error) {
+        return { host, containers: [], error: error as Error };
       }
+    }));
+  }
+
+  private findEndpoint(host: string): EngineEndpoint | undefined {
+    if (host === LOCAL_HOST) {
+      return undefined;
+    }
+
+    const endpoint = this.endpoints.find(candidate => candidate.name === host);
+    if (!endpoint) {
+      throw new Error(`Unknown host '${host}' - configured hosts: ${this.getHosts().join(', ')}`);
     }
+    return endpoint;
   }
 
-  getEngine(): ContainerEngine {
-    if (!this.initialized || !this.engine) {
-      throw new Error('Container engine not initialized - call initialize() first');
+  // Drops the current drivers and detects again; an active event subscription moves over
+  private async reinitialize(): Promise<void> {
+    const wasWatching = this.watchingEvents;
+    if (wasWatching) {
+      this.stopWatchingEvents();
+    }
+
+    this.initialized = false;
+    this.driver = null;
+    this.overrideDrivers.clear();
+    this.hostManagers.clear();
+
+    await this.initialize();
+
+    if (wasWatching) {
+      await this.watchEvents();
+    }
+  }
+
+  private async driverFor(engine?: ContainerEngine): Promise<EngineDriver> {
+    await this.initialize();
+
+    // Per-service overrides get their own driver instance
+    if (!engine || engine === this.driver!.name) {
+      return this.driver!;
+    }
+
+    let driver = this.overrideDrivers.get(engine);
+    if (!driver) {
+      driver = this.createDriver(engine);
+      await driver.connect();
+      this.overrideDrivers.set(engine, driver);
     }
-    return this.engine;
+    return driver;
   }
 
-  getCommands(): EngineCommands {
-    if (!this.initialized || !this.commands) {
+  // Without profile support compose would quietly leave the profiled services out
+  private async composeDriverFor(context: ComposeContext, engine?: ContainerEngine): Promise<EngineDriver> {
+    const driver = await this.driverFor(engine);
+
+    if (context.profiles && context.profiles.length > 0 && !driver.capabilities.composeProfiles) {
+      throw new Error(`${driver.name} does not support compose profiles`);
+    }
+    return driver;
+  }
+
+  getEngine(): ContainerEngine {
+    return this.getDriver().name;
+  }
+
+  // Like getEngine(), but undefined instead of throwing while (re)initializing
+  getCurrentEngine(): ContainerEngine | undefined {
+    return this.initialized ? this.driver?.name : undefined;
+  }
+
+  getDriver(): EngineDriver {
+    if (!this.initialized || !this.driver) {
       throw new Error('Container engine not initialized - call initialize() first');
     }
-    return this.commands;
+    return this.driver;
+  }
+
+  getCapabilities(): EngineCapabilities {
+    return this.getDriver().capabilities;
+  }
+
+  isUsingApi(): boolean {
+    return this.driver?.isUsingApi() ?? false;
   }
 
   async listContainers(): Promise<ContainerInfo[]> {
-    await this.initialize();
+    const driver = await this.driverFor();
+    const host = this.getHost();
 
-    const { stdout } = await execAsync(`${this.commands!.ps} --format "table {{.ID}}\t{{.Names}}\t{{.Image}}\t{{.Status}}\t{{.Ports}}\t{{.CreatedAt}}"`);
+    return (await driver.listContainers()).map(container => ({ ...container, host }));
+  }
 
-    const lines = stdout.trim().split('\n').slice(1); // Skip header
-    return lines.map(line => {
-      const [id, name, image, status, ports, created] = line.split('\t');
-      return {
-        id: id?.trim() || '',
-        name: name?.trim() || '',
-        image: image?.trim() || '',
-        status: this.parseStatus(status?.trim() || ''),
-        ports: ports?.trim().split(',').map(p => p.trim()).filter(Boolean) || [],
-        created: new Date(created?.trim() || ''),
-      };
-    });
+  async startServices(services: string[], context: ComposeContext = {}, engine?: ContainerEngine): Promise<void> {
+    const driver = await this.composeDriverFor(context, engine);
+
+    // Compose reports broken files itself; the check only needs the ones it can read
+    const project = await composeParser.parse(context).catch(() => null);
+    if (project) {
+      const bindings = project.services
+        .filter(service => services.length > 0 ? services.includes(service.name) : isServiceEnabled(service, context.profiles))
+        .flatMap(service => service.ports);
+
+      // Containers of the same project already hold their own ports
+      await this.assertPortsFree(bindings, container =>
+        container.compose?.project === project.name && (services.length === 0 || services.includes(container.compose.service)), engine);
+    }
+
+    await driver.startServices(services, context);
   }
 
-  private parseStatus(status: string): ContainerInfo['status'] {
-    const lowerStatus = status.toLowerCase();
-    if (lowerStatus.includes('up')) return 'running';
-    if (lowerStatus.includes('exited') || lowerStatus.includes('exit')) return 'stopped';
-    if (lowerStatus.includes('paused')) return 'paused';
-    if (lowerStatus.includes('restarting')) return 'restarting';
-    if (lowerStatus.includes('dead')) return 'dead';
-    return 'stopped';
+  async stopServices(services: string[], context: ComposeContext = {}, engine?: ContainerEngine): Promise<void> {
+    const driver = await this.composeDriverFor(context, engine);
+    await driver.stopServices(services, context);
   }
 
-  async startServices(services: string[], cwd?: string): Promise<void> {
-    await this.initialize();
+  async restartServices(services: string[], context: ComposeContext = {}, engine?: ContainerEngine): Promise<void> {
+    const driver = await this.composeDriverFor(context, engine);
+    await driver.restartServices(services, context);
+  }
+
+  async recreateServices(services: string[], context: ComposeContext = {}, engine?: ContainerEngine): Promise<void> {
+    const driver = await this.composeDriverFor(context, engine);
+    await driver.recreateServices(services, context);
+  }
 
-    const command = services.length > 0
-      ? `${this.commands!.up} ${services.join(' ')}`
-      : this.commands!.up;
+  async pauseContainer(nameOrId: string, engine?: ContainerEngine): Promise<void> {
+    const driver = await this.driverFor(engine);
 
-    await this.executeCommand(command, cwd);
+    if (!driver.capabilities.pause) {
+      throw new Error(`${driver.name} does not support pausing containers`);
+    }
+    await driver.pauseContainer(nameOrId);
   }
 
-  async stopServices(services: string[], cwd?: string): Promise<void> {
-    await this.initialize();
+  async unpauseContainer(nameOrId: string, engine?: ContainerEngine): Promise<void> {
+    const driver = await this.driverFor(engine);
 
-    const command = services.length > 0
-      ? `${this.commands!.down} ${services.join(' ')}`
-      : this.commands!.down;
+    if (!driver.capabilities.pause) {
+      throw new Error(`${driver.name} does not support pausing containers`);
+    }
+    await driver.unpauseContainer(nameOrId);
+  }
 
-    await this.executeCommand(command, cwd);
+  async killContainer(nameOrId: string, signal = 'SIGKILL', engine?: ContainerEngine): Promise<void> {
+    const driver = await this.driverFor(engine);
+    await driver.killContainer(nameOrId, signal);
   }
 
-  async restartServices(services: string[], cwd?: string): Promise<void> {
-    await this.initialize();
+  async stopContainer(nameOrId: string, engine?: ContainerEngine): Promise<void> {
+    const driver = await this.driverFor(engine);
+    await driver.stopContainer(nameOrId);
+  }
 
-    const command = services.length > 0
-      ? `${this.commands!.restart} ${services.join(' ')}`
-      : this.commands!.restart;
+  async removeContainer(nameOrId: string, options: ContainerRemoveOptions = {}, engine?: ContainerEngine): Promise<void> {
+    const driver = await this.driverFor(engine);
+    await driver.removeContainer(nameOrId, options);
+  }
 
-    await this.executeCommand(command, cwd);
+  async detectShell(nameOrId: string, engine?: ContainerEngine): Promise<string> {
+    const driver = await this.driverFor(engine);
+    return driver.detectShell(nameOrId);
   }
 
-  async getLogs(service?: string, follow = false, cwd?: string): Promise<NodeJS.ReadableStream> {
-    await this.initialize();
+  async execArgv(nameOrId: string, command: string[], interactive = true, engine?: ContainerEngine): Promise<string[]> {
+    const driver = await this.driverFor(engine);
+    return driver.execArgv(nameOrId, command, interactive);
+  }
 
-    const command = service
-      ? `${this.commands!.logs} ${follow ? '-f' : ''} ${service}`
-      : `${this.commands!.logs} ${follow ? '-f' : ''}`;
+  /**
+   * Runs a command in the container on this terminal and resolves with its
+   * exit code. An empty command opens the container's shell.
+   */
+  async exec(nameOrId: string, command: string[] = [], engine?: ContainerEngine): Promise<number> {
+    const toRun = command.length > 0 ? command : [await this.detectShell(nameOrId, engine)];
 
-    const child = spawn('sh', ['-c', command], {
-      cwd,
-      stdio: ['ignore', 'pipe', 'pipe']
-    });
+    // Only ask for a TTY when there is one (e.g. not when piped)
+    const [file = '', ...args] = await this.execArgv(nameOrId, toRun, !!process.stdin.isTTY, engine);
+    return runInteractive(file, args);
+  }
+
+  async getLogs(service?: string, follow = false, context: ComposeContext = {}, engine?: ContainerEngine): Promise<Readable> {
+    const driver = await this.composeDriverFor(context, engine);
+    return driver.getLogs(service, follow, context);
+  }
+
+  async getContainerLogs(nameOrId: string, follow = false, engine?: ContainerEngine): Promise<Readable> {
+    const driver = await this.driverFor(engine);
+    return driver.getContainerLogs(nameOrId, follow);
+  }
+
+  async getContainerMetrics(): Promise<ContainerMetrics[]> {
+    const driver = await this.driverFor();
+
+    if (!driver.capabilities.stats) {
+      return [];
+    }
+    return driver.getContainerMetrics();
+  }
+
+  async inspect(nameOrId: string): Promise<unknown> {
+    const driver = await this.driverFor();
+    return driver.inspect(nameOrId);
+  }
+
+  async getContainerDetails(nameOrId: string, engine?: ContainerEngine): Promise<ContainerDetails> {
+    const driver = await this.driverFor(engine);
+    return parseContainerDetails(await driver.inspect(nameOrId));
+  }
+
+  async listContainerFiles(nameOrId: string, directory: string, engine?: ContainerEngine): Promise<ContainerFileEntry[]> {
+    const driver = await this.driverFor(engine);
+    return (await driver.listContainerFiles(nameOrId, directory)).sort(compareFileEntries);
+  }
+
+  async readContainerFile(nameOrId: string, path: string, engine?: ContainerEngine): Promise<string> {
+    const driver = await this.driverFor(engine);
+    return driver.readContainerFile(nameOrId, path, FILE_PREVIEW_MAX_BYTES);
+  }
+
+  async copyFromContainer(nameOrId: string, containerPath: string, hostPath: string, engine?: ContainerEngine): Promise<void> {
+    const driver = await this.driverFor(engine);
+    await driver.copyFromContainer(nameOrId, containerPath, hostPath);
+  }
+
+  async copyToContainer(nameOrId: string, hostPath: string, containerPath: string, engine?: ContainerEngine): Promise<void> {
+    const driver = await this.driverFor(engine);
+    await driver.copyToContainer(nameOrId, hostPath, containerPath);
+  }
+
+  async updateContainerLimits(nameOrId: string, limits: ResourceLimits, engine?: ContainerEngine): Promise<void> {
+    if (limits.cpus !== undefined && (!isFinite(limits.cpus) || limits.cpus < 0)) {
+      throw new Error(`Invalid CPU limit: ${limits.cpus}`);
+    }
+    if (limits.memory !== undefined && !(limits.memory >= MIN_MEMORY_LIMIT)) {
+      throw new Error(`Memory limit must be at least ${MIN_MEMORY_LIMIT / 1024 / 1024} MiB`);
+    }
+    if (limits.cpus === undefined && limits.memory === undefined) return;
+
+    const driver = await this.driverFor(engine);
+    await driver.updateContainer(nameOrId, limits);
+  }
+
+  async pullImage(image: string): Promise<void> {
+    const driver = await this.driverFor();
+    await driver.pullImage(image);
+  }
+
+  async searchImages(query: string, limit: number): Promise<ImageSearchResult[]> {
+    const driver = await this.driverFor();
+    return driver.searchImages(query, limit);
+  }
+
+  async listImages(): Promise<ImageInfo[]> {
+    const driver = await this.driverFor();
+    return driver.listImages();
+  }
+
+  async inspectImage(image: string): Promise<unknown> {
+    const driver = await this.driverFor();
+    return driver.inspectImage(image);
+  }
+
+  async runContainer(options: ContainerRunOptions): Promise<string> {
+    const driver = await this.driverFor();
 
-    return child.stdout;
+    const bindings = (options.ports || []).flatMap(port => parsePortSpec(port));
+    await this.assertPortsFree(bindings, container => container.name === options.name);
+
+    return driver.runContainer(options);
+  }
+
+  /**
+   * Who already holds each of the host ports: other containers on the
+   * engine and, when the engine publishes on this machine, local processes.
+   * Containers matched by isOwn are the ones being (re)started.
+   */
+  async findPortConflicts(
+    bindings: PortBinding[],
+    isOwn: (container: ContainerInfo) => boolean = () => false,
+    engine?: ContainerEngine,
+  ): Promise<PortConflict[]> {
+    if (bindings.length === 0) return [];
+
+    const driver = await this.driverFor(engine);
+    const check = await this.portChecker(driver, isOwn);
+    const conflicts: PortConflict[] = [];
+
+    for (const binding of bindings) {
+      const conflict = await check(binding);
+      if (conflict) {
+        conflicts.push(conflict);
+      }
+    }
+    return conflicts;
+  }
+
+  /**
+   * Moves mappings whose host port is taken to the next free port above
+   * it, e.g. "6379:6379" to "6380:6379". Port ranges are left alone.
+   */
+  async remapPorts(ports: string[], engine?: ContainerEngine): Promise<PortRemap[]> {
+    const driver = await this.driverFor(engine);
+    const check = await this.portChecker(driver, () => false);
+    const claimed: PortBinding[] = ports.flatMap(port => parsePortSpec(port));
+    const remaps: PortRemap[] = [];
+
+    for (const port of ports) {
+      const [binding, ...rest] = parsePortSpec(port);
+      const conflict = binding && rest.length === 0 ? await check(binding) : undefined;
+      if (!binding || !conflict) continue;
+
+      for (let hostPort = binding.hostPort + 1; hostPort <= Math.min(binding.hostPort + PORT_REMAP_RANGE, 65535); hostPort++) {
+        const candidate = { ...binding, hostPort };
+        if (claimed.some(other => bindingsOverlap(other, candidate)) || await check(candidate)) continue;
+
+        claimed.push(candidate);
+        const [address] = formatPortBinding(candidate).split('/');
+        remaps.push({
+          from: port,
+          to: `${address}:${binding.containerPort}${binding.protocol === 'udp' ? '/udp' : ''}`,
+          conflict,
+        });
+        break;
+      }
+    }
+    return remaps;
+  }
+
+  private async assertPortsFree(
+    bindings: PortBinding[],
+    isOwn: (container: ContainerInfo) => boolean,
+    engine?: ContainerEngine,
+  ): Promise<void> {
+    const conflicts = await this.findPortConflicts(bindings, isOwn, engine);
+    if (conflicts.length > 0) {
+      throw new PortConflictError(conflicts);
+    }
+  }
+
+  // Lists containers once, then answers for any number of ports
+  private async portChecker(
+    driver: EngineDriver,
+    isOwn: (container: ContainerInfo) => boolean,
+  ): Promise<(binding: PortBinding) => Promise<PortConflict | undefined>> {
+    const containers = (await driver.listContainers()).filter(container => container.status !== 'stopped' && container.status !== 'dead');
+    const own = containers.filter(isOwn).flatMap(container => container.ports.flatMap(parsePublishedPort));
+    const others = containers.filter(container => !isOwn(container));
+    const probeLocal = driver.name !== 'simulated' && this.isLocalEngine();
+
+    return async binding => {
+      if (own.some(port => bindingsOverlap(port, binding))) return undefined;
+
+      const container = others.find(candidate =>
+        candidate.ports.flatMap(parsePublishedPort).some(port => bindingsOverlap(port, binding)));
+      if (container) {
+        return { binding, owner: { kind: 'container', name: container.name } };
+      }
+
+      const listener = probeLocal ? await findLocalListener(binding) : undefined;
+      return listener ? { binding, owner: listener } : undefined;
+    };
+  }
+
+  // Remote engines publish ports on their own machine, so local listeners do not matter
+  private isLocalEngine(): boolean {
+    const endpoint = this.options.endpoint;
+    if (endpoint) {
+      return !!endpoint.host?.startsWith('unix://');
+    }
+
+    const host = process.env.DOCKER_HOST || process.env.CONTAINER_HOST;
+    return !host || host.startsWith('unix://');
+  }
+
+  async buildServices(
+    services: string[],
+    context: ComposeContext = {},
+    engine?: ContainerEngine,
+    options: BuildOptions = {},
+  ): Promise<BuildSummary> {
+    const driver = await this.composeDriverFor(context, engine);
+    return this.runBuild(options, run => driver.buildServices(services, context, run));
+  }
+
+  async buildImage(image: ImageBuildOptions, engine?: ContainerEngine, options: BuildOptions = {}): Promise<BuildSummary> {
+    const driver = await this.driverFor(engine);
+    return this.runBuild(options, run => driver.buildImage(image, run));
+  }
+
+  // Parses the builder's output as it streams; failures carry the steps seen so far
+  private async runBuild(options: BuildOptions, build: (run: BuildRunOptions) => Promise<void>): Promise<BuildSummary> {
+    const parser = new BuildOutputParser(options);
+    const startedAt = Date.now();
+
+    try {
+      await build({
+        noCache: options.noCache,
+        pull: options.pull,
+        signal: options.signal,
+        onOutput: chunk => parser.write(chunk),
+      });
+    } catch (error) {
+      parser.end(true);
+      throw new BuildFailedError(parser.getSummary(Date.now() - startedAt), error);
+    }
+
+    parser.end(false);
+    return parser.getSummary(Date.now() - startedAt);
+  }
+
+  async listNetworks(): Promise<NetworkInfo[]> {
+    const driver = await this.driverFor();
+    return driver.listNetworks();
+  }
+
+  async inspectNetwork(nameOrId: string): Promise<unknown> {
+    const driver = await this.driverFor();
+    return driver.inspectNetwork(nameOrId);
+  }
+
+  async createNetwork(name: string, options: NetworkCreateOptions = {}): Promise<void> {
+    const driver = await this.driverFor();
+    await driver.createNetwork(name, options);
+  }
+
+  async removeNetwork(nameOrId: string): Promise<void> {
+    const driver = await this.driverFor();
+    await driver.removeNetwork(nameOrId);
+  }
+
+  async listVolumes(): Promise<VolumeInfo[]> {
+    const driver = await this.driverFor();
+    return driver.listVolumes();
+  }
+
+  async getDiskUsage(): Promise<DiskUsageReport> {
+    const driver = await this.driverFor();
+    return driver.getDiskUsage();
+  }
+
+  async inspectVolume(name: string): Promise<unknown> {
+    const driver = await this.driverFor();
+    return driver.inspectVolume(name);
+  }
+
+  async createVolume(name: string, options: VolumeCreateOptions = {}): Promise<void> {
+    const driver = await this.driverFor();
+    await driver.createVolume(name, options);
+  }
+
+  async removeVolume(name: string, force = false): Promise<void> {
+    const driver = await this.driverFor();
+    await driver.removeVolume(name, force);
+  }
+
+  // Networks no container is attached to, leaving out the engine's own
+  async findUnusedNetworks(): Promise<NetworkInfo[]> {
+    return (await this.listNetworks()).filter(network => !network.builtIn && network.containers.length === 0);
+  }
+
+  async findUnusedVolumes(): Promise<VolumeInfo[]> {
+    return (await this.listVolumes()).filter(volume => volume.containers.length === 0);
+  }
+
+  /**
+   * Removes unused networks one by one rather than through the engine's
+   * prune, so exactly what findUnusedNetworks() showed goes away.
+   */
+  async pruneNetworks(): Promise<PruneResult> {
+    const unused = await this.findUnusedNetworks();
+    return this.pruneEach(unused.map(network => ({ name: network.name, size: 0 })), name => this.removeNetwork(name));
+  }
+
+  /**
+   * Removes every unused volume, named ones included. The engines' own
+   * prune only takes anonymous volumes nowadays, which leaves template
+   * volumes like postgres_data behind.
+   */
+  async pruneVolumes(): Promise<PruneResult> {
+    const unused = await this.findUnusedVolumes();
+    return this.pruneEach(unused.map(volume => ({ name: volume.name, size: volume.size ?? 0 })), name => this.removeVolume(name));
+  }
+
+  private async pruneEach(
+    candidates: { name: string; size: number }[],
+    remove: (name: string) => Promise<void>,
+  ): Promise<PruneResult> {
+    const result: PruneResult = { removed: [], failed: [], reclaimed: 0 };
+
+    for (const candidate of candidates) {
+      try {
+        await remove(candidate.name);
+        result.removed.push(candidate.name);
+        result.reclaimed += candidate.size;
+      } catch (error) {
+        // Something may have started using it since the listing
+        result.failed.push({ name: candidate.name, error: error as Error });
+      }
+    }
+
+    return result;
   }
 
-  async getStats(): Promise<string[]> {
+  /**
+   * Resolves once every target has running containers (and, with
+   * `healthy`, passing health checks). Containers without a health check
+   * count as ready once running. Rejects with what is still pending when
+   * the timeout runs out.
+   */
+  async waitForContainers(targets: string[], options: WaitOptions = {}): Promise<ContainerInfo[]> {
+    const matches = options.matches || ((container: ContainerInfo, target: string) =>
+      container.name === target || container.id.startsWith(target) || container.compose?.service === target);
+    const timeoutMs = options.timeoutMs ?? DEFAULT_WAIT_TIMEOUT_MS;
+    const deadline = Date.now() + timeoutMs;
+
+    const isReady = (container: ContainerInfo) => container.status === 'running'
+      && (!options.healthy || !container.health || container.health === 'healthy' || container.health === 'none');
+
+    for (;;) {
+      const containers = await this.listContainers();
+      const ready: ContainerInfo[] = [];
+      const pending: string[] = [];
+
+      for (const target of targets) {
+        const found = containers.filter(container => matches(container, target));
+        if (found.length === 0) {
+          pending.push(`${target} (not found)`);
+          continue;
+        }
+
+        for (const container of found) {
+          if (isReady(container)) {
+            ready.push(container);
+          } else {
+            const state = container.status === 'running' ? container.health : container.status;
+            pending.push(`${container.name} (${state})`);
+          }
+        }
+      }
+
+      if (pending.length === 0) {
+        return ready;
+      }
+
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        throw new Error(`Timed out after ${Math.round(timeoutMs / 1000)}s waiting for ${pending.join(', ')}`);
+      }
+
+      await this.nextEventOrDelay(Math.min(WAIT_POLL_INTERVAL_MS, remaining));
+    }
+  }
+
+  // Wakes early on a container event when the event stream is being watched
+  private nextEventOrDelay(delayMs: number): Promise<void> {
+    return new Promise(resolve => {
+      const done = () => {
+        clearTimeout(timer);
+        unsubscribe();
+        resolve();
+      };
+      const timer = setTimeout(done, delayMs);
+      const unsubscribe = this.onContainerEvent(done);
+    });
+  }
+
+  async watchEvents(): Promise<void> {
     await this.initialize();
 
-    const { stdout } = await execAsync(`${this.commands!.stats} --no-stream --format "table {{.Container}}\t{{.CPUPerc}}\t{{.MemUsage}}\t{{.MemPerc}}\t{{.NetIO}}"`);
-    return stdout.trim().split('\n').slice(1); // Skip header
+    if (this.watchingEvents) return;
+    this.watchingEvents = true;
+
+    await this.openEventStream();
+  }
+
+  stopWatchingEvents(): void {
+    this.watchingEvents = false;
+
+    if (this.eventReconnectTimer) {
+      clearTimeout(this.eventReconnectTimer);
+      this.eventReconnectTimer = null;
+    }
+
+    this.stopEventStream?.();
+    this.stopEventStream = null;
+    this.setEventsConnected(false);
+  }
+
+  isEventStreamConnected(): boolean {
+    return this.eventsConnected;
   }
 
-  private async executeCommand(command: string, cwd?: string): Promise<void> {
-    return new Promise((resolve, reject) => {
-      const child = spawn('sh', ['-c', command], { cwd });
+  onContainerEvent(callback: (event: ContainerEvent) => void): () => void {
+    this.eventListeners.add(callback);
 
-      child.on('close', (code) => {
-        if (code === 0) {
-          resolve();
-        } else {
-          reject(new Error(`Command failed with exit code ${code}`));
+    return () => {
+      this.eventListeners.delete(callback);
+    };
+  }
+
+  onEventStreamChange(callback: (connected: boolean) => void): () => void {
+    this.eventStreamListeners.add(callback);
+
+    return () => {
+      this.eventStreamListeners.delete(callback);
+    };
+  }
+
+  private async openEventStream(): Promise<void> {
+    let buffer = '';
+    const handleData = (chunk: Buffer) => {
+      buffer += chunk.toString();
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        const event = this.parseEvent(line);
+        if (event) {
+          this.notifyEventListeners(event);
         }
-      });
+      }
+    };
+
+    let closed = false;
+    const handleClose = () => {
+      if (closed) return;
+      closed = true;
+      this.stopEventStream = null;
+      this.setEventsConnected(false);
+      this.scheduleEventReconnect();
+    };
 
-      child.on('error', reject);
+    // Engines without an event stream stay on polling for good
+    if (!this.driver!.capabilities.events) {
+      return;
+    }
+
+    try {
+      const { stream, stop } = await this.driver!.streamEvents();
+      stream.on('data', handleData);
+      stream.on('end', handleClose);
+      stream.on('close', handleClose);
+      stream.on('error', handleClose);
+      this.stopEventStream = stop;
+      this.setEventsConnected(true);
+    } catch {
+      handleClose();
+    }
+  }
+
+  private scheduleEventReconnect(): void {
+    if (!this.watchingEvents || this.eventReconnectTimer) return;
+
+    this.eventReconnectTimer = setTimeout(() => {
+      this.eventReconnectTimer = null;
+      if (this.watchingEvents) {
+        this.openEventStream();
+      }
+    }, EVENT_RECONNECT_DELAY_MS);
+  }
+
+  private parseEvent(line: string): ContainerEvent | null {
+    if (!line.trim()) return null;
+
+    let raw: ApiEvent & Partial<PodmanEvent>;
+    try {
+      raw = JSON.parse(line);
+    } catch {
+      return null;
+    }
+
+    // Podman's native format (podman events --format json)
+    if (raw.ID && raw.Status) {
+      const action = this.parseEventAction(raw.Status);
+      if (!action || raw.Type !== 'container') return null;
+
+      return {
+        action,
+        id: raw.ID.substring(0, 12),
+        name: raw.Name || raw.ID.substring(0, 12),
+        image: raw.Image,
+        timestamp: raw.Time ? new Date(raw.Time) : new Date(),
+        exitCode: raw.ContainerExitCode,
+        health: parseHealthStatus(raw.HealthStatus),
+      };
+    }
+
+    // Engine API and docker events --format '{{json .}}'
+    const rawAction = raw.Action || raw.status || '';
+    const action = this.parseEventAction(rawAction);
+    if (!action || (raw.Type && raw.Type !== 'container')) return null;
+
+    const id = raw.Actor?.ID || raw.id || '';
+    const attributes = raw.Actor?.Attributes || {};
+    const exitCode = attributes.exitCode !== undefined ? parseInt(attributes.exitCode) : NaN;
+
+    return {
+      action,
+      id: id.substring(0, 12),
+      name: attributes.name || id.substring(0, 12),
+      image: attributes.image || raw.from,
+      timestamp: raw.timeNano ? new Date(raw.timeNano / 1e6) : new Date((raw.time || Date.now() / 1000) * 1000),
+      exitCode: isNaN(exitCode) ? undefined : exitCode,
+      health: action === 'health_status' ? parseHealthStatus(rawAction.split(':')[1]) : undefined,
+    };
+  }
+
+  private parseEventAction(value: string): ContainerEventAction | null {
+    // Health events arrive as "health_status: healthy"
+    const action = value.split(':')[0]?.trim().toLowerCase() || '';
+    return EVENT_ACTIONS.find(known => known === action) || null;
+  }
+
+  private setEventsConnected(connected: boolean): void {
+    if (this.eventsConnected === connected) return;
+    this.eventsConnected = connected;
+
+    this.eventStreamListeners.forEach(listener => {
+      try {
+        listener(connected);
+      } catch (error) {
+        console.error('Error in event stream listener:', error);
+      }
+    });
+  }
+
+  private notifyEventListeners(event: ContainerEvent): void {
+    this.eventListeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('Error in container event listener:', error);
+      }
     });
   }
 }
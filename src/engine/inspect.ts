@@ -0,0 +1,116 @@
+import type { ContainerDetails, ContainerHealth, HealthStatus } from '../types/index.js';
+import type { ApiContainerInspect, ApiHealthState } from '../types/engine.js';
+
+// Go's zero time, used by the engine for "never"
+const ZERO_TIME_PREFIX = '0001-01-01';
+
+/**
+ * Turns `inspect` output (Engine API or CLI, docker or podman) into a
+ * ContainerDetails.
+ */
+export function parseContainerDetails(raw: unknown): ContainerDetails {
+  const inspect = raw as ApiContainerInspect;
+  const config = inspect.Config;
+  const state = inspect.State;
+
+  const entrypoint = typeof config.Entrypoint === 'string' ? [config.Entrypoint] : config.Entrypoint || [];
+
+  return {
+    id: inspect.Id,
+    name: inspect.Name.replace(/^\//, ''),
+    image: config.Image,
+    created: new Date(inspect.Created),
+    command: [...entrypoint, ...(config.Cmd || [])],
+    workingDir: config.WorkingDir || undefined,
+    state: {
+      status: state.Status,
+      running: state.Running,
+      exitCode: state.ExitCode,
+      oomKilled: state.OOMKilled ?? false,
+      error: state.Error || undefined,
+      startedAt: parseTime(state.StartedAt),
+      finishedAt: parseTime(state.FinishedAt),
+    },
+    restartPolicy: {
+      name: inspect.HostConfig?.RestartPolicy?.Name || 'no',
+      maximumRetryCount: inspect.HostConfig?.RestartPolicy?.MaximumRetryCount ?? 0,
+    },
+    restartCount: inspect.RestartCount ?? 0,
+    env: parseEnv(config.Env || []),
+    mounts: (inspect.Mounts || []).map(mount => ({
+      type: mount.Type,
+      source: mount.Name || mount.Source,
+      destination: mount.Destination,
+      readOnly: !mount.RW,
+    })),
+    networks: Object.entries(inspect.NetworkSettings?.Networks || {}).map(([name, network]) => ({
+      name,
+      ipAddress: network.IPAddress,
+      gateway: network.Gateway,
+      macAddress: network.MacAddress,
+      aliases: network.Aliases || [],
+    })),
+    labels: config.Labels || {},
+    // The engine reports 0 for no limit
+    limits: {
+      cpus: inspect.HostConfig?.NanoCpus ? inspect.HostConfig.NanoCpus / 1e9 : undefined,
+      memory: inspect.HostConfig?.Memory || undefined,
+    },
+    health: parseHealth(state.Health || state.Healthcheck),
+    raw,
+  };
+}
+
+function parseEnv(entries: string[]): Record<string, string> {
+  const env: Record<string, string> = {};
+  for (const entry of entries) {
+    const separator = entry.indexOf('=');
+    if (separator > 0) {
+      env[entry.substring(0, separator)] = entry.substring(separator + 1);
+    } else {
+      env[entry] = '';
+    }
+  }
+  return env;
+}
+
+function parseHealth(health?: ApiHealthState): ContainerDetails['health'] {
+  const status = parseHealthStatus(health?.Status);
+  if (!health || !status) return undefined;
+
+  return {
+    status,
+    failingStreak: health.FailingStreak,
+    log: (health.Log || []).map(entry => ({
+      start: new Date(entry.Start),
+      end: new Date(entry.End),
+      exitCode: entry.ExitCode,
+      output: entry.Output.trim(),
+    })),
+  };
+}
+
+export function parseHealthStatus(value?: string): HealthStatus | undefined {
+  switch (value?.trim().toLowerCase()) {
+    case 'starting': return 'starting';
+    case 'healthy': return 'healthy';
+    case 'unhealthy': return 'unhealthy';
+    default: return undefined;
+  }
+}
+
+/**
+ * Health from the human status column, e.g. "Up 3 minutes (healthy)" or
+ * "Up 5 seconds (health: starting)".
+ */
+export function parseStatusHealth(status: string): ContainerHealth {
+  const match = status.match(/\((?:health: )?(starting|healthy|unhealthy)\)/i);
+  return parseHealthStatus(match?.[1]) || 'none';
+}
+
+function parseTime(value?: string): Date | undefined {
+  if (!value || value.startsWith(ZERO_TIME_PREFIX)) return undefined;
+
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+}
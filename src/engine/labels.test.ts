@@ -0,0 +1,24 @@
+import { ComposeLabelCache } from './labels.js';
+import type { ContainerInfo } from '../types/index.js';
+
+function container(name: string, labels: Record<string, string> = {}): ContainerInfo {
+  return { id: `${name}-id`, name, image: 'nginx', status: 'running', ports: [], created: new Date(0), labels };
+}
+
+describe('ComposeLabelCache', () => {
+  it('looks up unknown names once, including ones missing from the container list', async () => {
+    const listContainers = jest.fn(async () => [
+      { ...container('demo-web-1'), compose: { project: 'demo', service: 'web' } },
+      container('standalone'),
+    ]);
+    const cache = new ComposeLabelCache(listContainers);
+
+    cache.refresh(['demo-web-1', 'standalone', 'gone']);
+    await new Promise(resolve => setImmediate(resolve));
+    cache.refresh(['demo-web-1', 'standalone', 'gone']);
+
+    expect(listContainers).toHaveBeenCalledTimes(1);
+    expect(cache.get('demo-web-1')).toMatchObject({ project: 'demo', service: 'web' });
+    expect(cache.get('gone')).toEqual({ project: '', service: '' });
+  });
+});
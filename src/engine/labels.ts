@@ -0,0 +1,72 @@
+import type { ComposeLabels, ContainerInfo } from '../types/index.js';
+
+export const COMPOSE_PROJECT_LABEL = 'com.docker.compose.project';
+export const COMPOSE_SERVICE_LABEL = 'com.docker.compose.service';
+export const COMPOSE_WORKING_DIR_LABEL = 'com.docker.compose.project.working_dir';
+export const COMPOSE_CONFIG_FILES_LABEL = 'com.docker.compose.project.config_files';
+
+/**
+ * Reads the labels compose (v1, v2, podman-compose and nerdctl compose)
+ * puts on every container it creates.
+ */
+export function parseComposeLabels(labels: Record<string, string>): ComposeLabels | undefined {
+  const project = labels[COMPOSE_PROJECT_LABEL];
+  const service = labels[COMPOSE_SERVICE_LABEL];
+  if (!project || !service) {
+    return undefined;
+  }
+
+  const configFiles = labels[COMPOSE_CONFIG_FILES_LABEL];
+
+  return {
+    project,
+    service,
+    workingDir: labels[COMPOSE_WORKING_DIR_LABEL] || undefined,
+    configFiles: configFiles ? configFiles.split(',').map(file => file.trim()).filter(Boolean) : undefined,
+  };
+}
+
+/**
+ * Compose labels by container name, for metrics and events that only
+ * carry names. Unknown names are looked up in the container list in the
+ * background; names without labels are remembered as such.
+ */
+export class ComposeLabelCache {
+  private labels: Map<string, ComposeLabels> = new Map();
+  private refreshing = false;
+
+  constructor(private listContainers: () => Promise<ContainerInfo[]>) {}
+
+  get(name: string): ComposeLabels | undefined {
+    return this.labels.get(name);
+  }
+
+  getAll(): Map<string, ComposeLabels> {
+    return new Map(this.labels);
+  }
+
+  // Starts a lookup when any of the names is not known yet
+  refresh(names: string[]): void {
+    if (this.refreshing || names.every(name => this.labels.has(name))) return;
+    this.load(names);
+  }
+
+  private async load(names: string[]): Promise<void> {
+    this.refreshing = true;
+
+    try {
+      const containers = await this.listContainers();
+      this.labels = new Map(containers.flatMap(container => container.compose ? [[container.name, container.compose] as const] : []));
+      // Names without compose labels, or already gone from the list, should not trigger a lookup every update
+      for (const name of names) {
+        if (!this.labels.has(name)) {
+          this.labels.set(name, { project: '', service: '' });
+        }
+      }
+    } catch {
+      // Tried again with the next refresh, as the names are still unknown
+    } finally {
+      this.refreshing = false;
+    }
+  }
+}
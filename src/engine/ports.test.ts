@@ -0,0 +1,58 @@
+import { bindingsOverlap, parsePortSpec } from './ports.js';
+
+describe('parsePortSpec', () => {
+  it('reads host and container ports', () => {
+    expect(parsePortSpec('6379:6379', 'cache')).toEqual([
+      { hostIp: '', hostPort: 6379, containerPort: 6379, protocol: 'tcp', service: 'cache' },
+    ]);
+  });
+
+  it('reads the host address and protocol', () => {
+    expect(parsePortSpec('127.0.0.1:8080:80/udp')).toMatchObject([{ hostIp: '127.0.0.1', hostPort: 8080, containerPort: 80, protocol: 'udp' }]);
+    expect(parsePortSpec('[::1]:8080:80')).toMatchObject([{ hostIp: '::1', hostPort: 8080, containerPort: 80 }]);
+  });
+
+  it('treats wildcard addresses as every interface', () => {
+    expect(parsePortSpec('0.0.0.0:8080:80')).toMatchObject([{ hostIp: '' }]);
+    expect(parsePortSpec('[::]:8080:80')).toMatchObject([{ hostIp: '' }]);
+  });
+
+  it('pairs the ports of ranges in order', () => {
+    expect(parsePortSpec('8000-8002:9000-9002').map(binding => [binding.hostPort, binding.containerPort])).toEqual([
+      [8000, 9000],
+      [8001, 9001],
+      [8002, 9002],
+    ]);
+  });
+
+  it('sends a host range to a single container port', () => {
+    expect(parsePortSpec('8000-8001:80').map(binding => [binding.hostPort, binding.containerPort])).toEqual([[8000, 80], [8001, 80]]);
+  });
+
+  it('publishes nothing the engine has to pick a port for', () => {
+    expect(parsePortSpec('80')).toEqual([]);
+    expect(parsePortSpec('80/udp')).toEqual([]);
+  });
+
+  it('ignores ranges that run backwards or are not numbers', () => {
+    expect(parsePortSpec('8001-8000:80')).toEqual([]);
+    expect(parsePortSpec('http:80')).toEqual([]);
+  });
+});
+
+describe('bindingsOverlap', () => {
+  const [everywhere] = parsePortSpec('8080:80');
+  const [loopback] = parsePortSpec('127.0.0.1:8080:80');
+  const [otherAddress] = parsePortSpec('10.0.0.2:8080:80');
+  const [udp] = parsePortSpec('8080:80/udp');
+
+  it('overlaps when either side listens everywhere or both use one address', () => {
+    expect(bindingsOverlap(everywhere!, loopback!)).toBe(true);
+    expect(bindingsOverlap(loopback!, loopback!)).toBe(true);
+  });
+
+  it('keeps different addresses and protocols apart', () => {
+    expect(bindingsOverlap(loopback!, otherAddress!)).toBe(false);
+    expect(bindingsOverlap(everywhere!, udp!)).toBe(false);
+  });
+});
@@ -0,0 +1,173 @@
+import { promises as fs } from 'fs';
+import { createServer } from 'net';
+import { createSocket } from 'dgram';
+import { runProcess } from '../process/index.js';
+import type {
+  PortBinding,
+  PortOwner,
+  PortProtocol,
+} from '../types/index.js';
+
+// "0.0.0.0:8080->80/tcp", ":::8080->80/tcp", "[::]:8000-8001->8000-8001/tcp"
+const PUBLISHED_PORT = /^(.*):(\d+)(?:-(\d+))?->(\d+)(?:-\d+)?\/(\w+)$/;
+
+// /proc/net/tcp state for sockets accepting connections
+const TCP_LISTEN = '0A';
+
+function parseProtocol(protocol?: string): PortProtocol {
+  return protocol === 'udp' ? 'udp' : 'tcp';
+}
+
+// Wildcard addresses are spelled differently by every tool
+function normalizeHostIp(ip: string): string {
+  const unbracketed = ip.replace(/^\[(.*)\]$/, '$1');
+  return ['', '0.0.0.0', '::', '*'].includes(unbracketed) ? '' : unbracketed;
+}
+
+function parseRange(value: string): number[] {
+  const [start = NaN, end = start] = value.split('-').map(part => parseInt(part, 10));
+  if (isNaN(start) || isNaN(end) || end < start) return [];
+  return Array.from({ length: end - start + 1 }, (_value, index) => start + index);
+}
+
+/**
+ * Host ports a short-syntax mapping publishes, e.g. "6379:6379",
+ * "127.0.0.1:8080:80/udp" or "8000-8001:8000-8001". Mappings without a
+ * host port let the engine pick one, so they cannot conflict.
+ */
+export function parsePortSpec(spec: string, service?: string): PortBinding[] {
+  const [mapping = '', protocol] = spec.trim().split('/');
+  const containerSeparator = mapping.lastIndexOf(':');
+  if (containerSeparator < 0) return [];
+
+  const rest = mapping.substring(0, containerSeparator);
+  const hostSeparator = rest.lastIndexOf(':');
+  const hostPorts = parseRange(rest.substring(hostSeparator + 1));
+  const containerPorts = parseRange(mapping.substring(containerSeparator + 1));
+  const hostIp = hostSeparator >= 0 ? normalizeHostIp(rest.substring(0, hostSeparator)) : '';
+
+  return hostPorts.map((hostPort, index) => ({
+    hostIp,
+    hostPort,
+    containerPort: containerPorts[index] ?? containerPorts[0] ?? hostPort,
+    protocol: parseProtocol(protocol),
+    service,
+  }));
+}
+
+// Ports as listContainers reports them
+export function parsePublishedPort(port: string): PortBinding[] {
+  const match = port.match(PUBLISHED_PORT);
+  if (!match) return [];
+
+  const [, ip = '', start = '', end, target = '', protocol] = match;
+  return parseRange(end ? `${start}-${end}` : start).map(hostPort => ({
+    hostIp: normalizeHostIp(ip),
+    hostPort,
+    containerPort: parseInt(target, 10),
+    protocol: parseProtocol(protocol),
+  }));
+}
+
+export function formatPortBinding(binding: PortBinding): string {
+  const ip = binding.hostIp ? `${binding.hostIp.includes(':') ? `[${binding.hostIp}]` : binding.hostIp}:` : '';
+  return `${ip}${binding.hostPort}/${binding.protocol}`;
+}
+
+export function formatPortOwner(owner: PortOwner): string {
+  if (owner.kind === 'container') return `container ${owner.name}`;
+  return owner.pid !== undefined ? `${owner.name} (pid ${owner.pid})` : owner.name;
+}
+
+// Same port and protocol, and one of them listens everywhere or both on the same address
+export function bindingsOverlap(a: PortBinding, b: PortBinding): boolean {
+  return a.hostPort === b.hostPort
+    && a.protocol === b.protocol
+    && (!a.hostIp || !b.hostIp || a.hostIp === b.hostIp);
+}
+
+/**
+ * Whether something on this machine already holds the port. Ports we may
+ * not bind (privileged ones) count as free, since we cannot tell.
+ */
+export function isPortInUse(binding: PortBinding): Promise<boolean> {
+  const inUse = (error: NodeJS.ErrnoException) => error.code === 'EADDRINUSE';
+
+  return new Promise(resolvePromise => {
+    if (binding.protocol === 'udp') {
+      const socket = createSocket(binding.hostIp.includes(':') ? 'udp6' : 'udp4');
+      socket.once('error', error => {
+        socket.close();
+        resolvePromise(inUse(error));
+      });
+      socket.bind({ port: binding.hostPort, address: binding.hostIp || undefined, exclusive: true }, () => {
+        socket.close(() => resolvePromise(false));
+      });
+      return;
+    }
+
+    const server = createServer();
+    server.once('error', error => resolvePromise(inUse(error)));
+    server.listen({ port: binding.hostPort, host: binding.hostIp || undefined, exclusive: true }, () => {
+      server.close(() => resolvePromise(false));
+    });
+  });
+}
+
+/**
+ * The local process listening on the port, if there is one. Processes of
+ * other users cannot be looked into, so those stay anonymous.
+ */
+export async function findLocalListener(binding: PortBinding): Promise<PortOwner | undefined> {
+  if (!(await isPortInUse(binding))) return undefined;
+
+  const owner = process.platform === 'linux'
+    ? await findProcessFromProc(binding)
+    : await findProcessWithLsof(binding);
+  return owner ?? { kind: 'process', name: 'another process' };
+}
+
+async function findProcessFromProc(binding: PortBinding): Promise<PortOwner | undefined> {
+  const inodes = new Set<string>();
+
+  for (const table of [binding.protocol, `${binding.protocol}6`]) {
+    const content = await fs.readFile(`/proc/net/${table}`, 'utf8').catch(() => '');
+
+    for (const line of content.split('\n').slice(1)) {
+      const fields = line.trim().split(/\s+/);
+      const port = parseInt(fields[1]?.split(':')[1] ?? '', 16);
+      if (port === binding.hostPort && (binding.protocol === 'udp' || fields[3] === TCP_LISTEN) && fields[9]) {
+        inodes.add(`socket:[${fields[9]}]`);
+      }
+    }
+  }
+  if (inodes.size === 0) return undefined;
+
+  const pids = (await fs.readdir('/proc')).filter(entry => /^\d+$/.test(entry));
+  for (const pid of pids) {
+    const fds = await fs.readdir(`/proc/${pid}/fd`).catch(() => [] as string[]);
+
+    for (const fd of fds) {
+      const target = await fs.readlink(`/proc/${pid}/fd/${fd}`).catch(() => '');
+      if (inodes.has(target)) {
+        const name = await fs.readFile(`/proc/${pid}/comm`, 'utf8').catch(() => 'unknown');
+        return { kind: 'process', name: name.trim(), pid: parseInt(pid, 10) };
+      }
+    }
+  }
+
+  return undefined;
+}
+
+async function findProcessWithLsof(binding: PortBinding): Promise<PortOwner | undefined> {
+  const filter = binding.protocol === 'udp' ? [`-iUDP:${binding.hostPort}`] : [`-iTCP:${binding.hostPort}`, '-sTCP:LISTEN'];
+
+  try {
+    const { stdout } = await runProcess('lsof', ['-nP', ...filter, '-Fpc'], { timeoutMs: 5000 });
+    const pid = stdout.match(/^p(\d+)$/m)?.[1];
+    const name = stdout.match(/^c(.+)$/m)?.[1];
+    return pid && name ? { kind: 'process', name, pid: parseInt(pid, 10) } : undefined;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,64 @@
+import type { NetworkInfo, VolumeInfo } from '../types/index.js';
+import type { ApiEndpointSettings, ApiMount, ApiNetwork, ApiVolume, ContainerUsage } from '../types/engine.js';
+
+// Networks the engine creates itself
+const BUILT_IN_NETWORKS = ['bridge', 'host', 'none', 'podman', 'ingress', 'docker_gwbridge'];
+
+interface ContainerResources {
+  Mounts?: ApiMount[] | null;
+  NetworkSettings?: {
+    Networks?: Record<string, ApiEndpointSettings> | null;
+  } | null;
+}
+
+/**
+ * Networks and named volumes of a container, from either inspect output
+ * or an Engine API container summary.
+ */
+export function parseContainerUsage(name: string, container: ContainerResources): ContainerUsage {
+  return {
+    name: name.replace(/^\//, ''),
+    networks: Object.keys(container.NetworkSettings?.Networks || {}),
+    volumes: (container.Mounts || [])
+      .filter(mount => mount.Type === 'volume' && mount.Name)
+      .map(mount => mount.Name!),
+  };
+}
+
+export function parseNetworkInfo(network: ApiNetwork, usage: ContainerUsage[]): NetworkInfo {
+  const name = network.Name ?? network.name ?? '';
+  const subnets = network.IPAM?.Config?.map(config => config.Subnet || '') ?? network.subnets?.map(subnet => subnet.subnet) ?? [];
+
+  return {
+    id: network.Id ?? network.id ?? '',
+    name,
+    driver: network.Driver ?? network.driver ?? '',
+    scope: network.Scope ?? 'local',
+    internal: network.Internal ?? network.internal ?? false,
+    subnets: subnets.filter(Boolean),
+    created: parseDate(network.Created ?? network.created),
+    labels: network.Labels ?? network.labels ?? {},
+    containers: usage.filter(container => container.networks.includes(name)).map(container => container.name),
+    builtIn: BUILT_IN_NETWORKS.includes(name),
+  };
+}
+
+export function parseVolumeInfo(volume: ApiVolume, usage: ContainerUsage[], size = volume.UsageData?.Size): VolumeInfo {
+  return {
+    name: volume.Name,
+    driver: volume.Driver,
+    mountpoint: volume.Mountpoint,
+    created: parseDate(volume.CreatedAt),
+    labels: volume.Labels || {},
+    // Negative means the engine has not measured it
+    size: size !== undefined && size >= 0 ? size : undefined,
+    containers: usage.filter(container => container.volumes.includes(volume.Name)).map(container => container.name),
+  };
+}
+
+function parseDate(value?: string): Date | undefined {
+  if (!value) return undefined;
+
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+}
@@ -0,0 +1,36 @@
+const BINARY_UNITS: Record<string, number> = { k: 1024, m: 1024 ** 2, g: 1024 ** 3, t: 1024 ** 4 };
+const DECIMAL_UNITS: Record<string, number> = { k: 1000, m: 1000 ** 2, g: 1000 ** 3, t: 1000 ** 4 };
+
+/**
+ * Sizes the way engines print them: "12MiB" is binary, docker's "41MB" and
+ * "1.09kB" are decimal. Trailing detail such as "(virtual 41MB)" is ignored.
+ */
+export function parseByteSize(value: string): number {
+  const match = value.trim().match(/^([\d.]+)\s*([kmgt]?)(i?)b?/i);
+  if (!match) return 0;
+
+  const [, number = '0', unit = '', binary] = match;
+  const units = binary ? BINARY_UNITS : DECIMAL_UNITS;
+  return Math.round(parseFloat(number) * (units[unit.toLowerCase()] ?? 1));
+}
+
+/**
+ * Memory limits as `docker run --memory` takes them: "512m", "2g" or plain
+ * bytes. Units are binary, whatever their spelling.
+ */
+export function parseMemoryLimit(value: string): number | undefined {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*([kmgt]?)(?:i?b)?$/i);
+  if (!match) return undefined;
+
+  const [, number = '0', unit = ''] = match;
+  return Math.round(parseFloat(number) * (BINARY_UNITS[unit.toLowerCase()] ?? 1));
+}
+
+// Seconds from 30, "30s", "15m" or "2h"
+export function parseDuration(value: string): number | undefined {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*([smh]?)$/);
+  if (!match) return undefined;
+
+  const [, number = '0', unit = 's'] = match;
+  return parseFloat(number) * ({ s: 1, m: 60, h: 3600 }[unit || 's'] ?? 1);
+}
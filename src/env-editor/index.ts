@@ -59,7 +59,7 @@ export class EnvironmentEditor {
 
         // Remove quotes if present
         if ((value.startsWith('"') && value.endsWith('"')) ||
-            (value.startsWith("'") && value.endsWith("'"))) {
+            (value.startsWith('\'') && value.endsWith('\''))) {
           value = value.slice(1, -1);
         }
 
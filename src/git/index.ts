@@ -1,11 +1,12 @@
-import { spawn, exec } from 'child_process';
-import { promisify } from 'util';
 import { promises as fs } from 'fs';
-import { join, dirname } from 'path';
+import { join } from 'path';
+import { runProcess } from '../process/index.js';
+import { findComposeFiles } from '../config/index.js';
 import type { GitCloneOptions, GitStatus, GitUpdateResult } from '../types/git.js';
-import type { GitRepository } from '../types/index.js';
 
-const execAsync = promisify(exec);
+// Local queries should be instant; fetch and pull talk to the remote
+const GIT_TIMEOUT_MS = 30000;
+const GIT_NETWORK_TIMEOUT_MS = 5 * 60 * 1000;
 
 export class GitManager {
   private projectsDirectory: string;
@@ -53,36 +54,16 @@ export class GitManager {
 
     args.push(options.url, targetPath);
 
-    return new Promise((resolve, reject) => {
-      const gitProcess = spawn('git', args, {
-        stdio: ['ignore', 'pipe', 'pipe']
-      });
-
-      let stdout = '';
-      let stderr = '';
-
-      gitProcess.stdout.on('data', (data) => {
-        stdout += data.toString();
-        console.log(data.toString().trim());
-      });
-
-      gitProcess.stderr.on('data', (data) => {
-        stderr += data.toString();
-        console.log(data.toString().trim());
-      });
-
-      gitProcess.on('close', (code) => {
-        if (code === 0) {
-          resolve();
-        } else {
-          reject(new Error(`Git clone failed: ${stderr || stdout}`));
-        }
-      });
-
-      gitProcess.on('error', reject);
+    await runProcess('git', args, {
+      onOutput: (chunk) => console.log(chunk.trim()),
     });
   }
 
+  private async git(args: string[], cwd: string, timeoutMs = GIT_TIMEOUT_MS): Promise<string> {
+    const { stdout } = await runProcess('git', args, { cwd, timeoutMs });
+    return stdout;
+  }
+
   async updateRepository(repositoryPath: string): Promise<GitUpdateResult> {
     const fullPath = join(this.projectsDirectory, repositoryPath);
     const repoName = repositoryPath;
@@ -95,13 +76,10 @@ export class GitManager {
       const statusBefore = await this.getRepositoryStatus(repositoryPath);
 
       // Fetch latest changes
-      await execAsync('git fetch origin', { cwd: fullPath });
+      await this.git(['fetch', 'origin'], fullPath, GIT_NETWORK_TIMEOUT_MS);
 
       // Get the number of commits behind
-      const { stdout: behindCount } = await execAsync(
-        `git rev-list HEAD..origin/${statusBefore.branch} --count`,
-        { cwd: fullPath }
-      );
+      const behindCount = await this.git(['rev-list', `HEAD..origin/${statusBefore.branch}`, '--count'], fullPath);
 
       const commitsToUpdate = parseInt(behindCount.trim());
 
@@ -115,15 +93,12 @@ export class GitManager {
       }
 
       // Get the commit messages that will be pulled
-      const { stdout: commitMessages } = await execAsync(
-        `git log HEAD..origin/${statusBefore.branch} --oneline`,
-        { cwd: fullPath }
-      );
+      const commitMessages = await this.git(['log', `HEAD..origin/${statusBefore.branch}`, '--oneline'], fullPath);
 
       const newCommits = commitMessages.trim().split('\n').filter(Boolean);
 
       // Pull the changes
-      await execAsync('git pull origin', { cwd: fullPath });
+      await this.git(['pull', 'origin'], fullPath, GIT_NETWORK_TIMEOUT_MS);
 
       return {
         repository: repoName,
@@ -147,7 +122,7 @@ export class GitManager {
 
     try {
       // Get current branch
-      const { stdout: branchOutput } = await execAsync('git branch --show-current', { cwd: fullPath });
+      const branchOutput = await this.git(['branch', '--show-current'], fullPath);
       const branch = branchOutput.trim();
 
       // Get commits ahead/behind
@@ -155,10 +130,7 @@ export class GitManager {
       let behind = 0;
 
       try {
-        const { stdout: aheadBehind } = await execAsync(
-          `git rev-list --count --left-right HEAD...origin/${branch}`,
-          { cwd: fullPath }
-        );
+        const aheadBehind = await this.git(['rev-list', '--count', '--left-right', `HEAD...origin/${branch}`], fullPath);
         const [aheadStr, behindStr] = aheadBehind.trim().split('\t');
         ahead = parseInt(aheadStr || '0') || 0;
         behind = parseInt(behindStr || '0') || 0;
@@ -167,7 +139,7 @@ export class GitManager {
       }
 
       // Get working directory status
-      const { stdout: statusOutput } = await execAsync('git status --porcelain', { cwd: fullPath });
+      const statusOutput = await this.git(['status', '--porcelain'], fullPath);
       const statusLines = statusOutput.trim().split('\n').filter(Boolean);
 
       let modified = 0;
@@ -188,7 +160,7 @@ export class GitManager {
       }
 
       // Get last commit date
-      const { stdout: lastCommitDate } = await execAsync('git log -1 --format=%ci', { cwd: fullPath });
+      const lastCommitDate = await this.git(['log', '-1', '--format=%ci'], fullPath);
       const lastUpdate = new Date(lastCommitDate.trim());
 
       return {
@@ -254,7 +226,7 @@ export class GitManager {
         // Check if there are uncommitted changes
         const status = await this.getRepositoryStatus(repositoryPath);
         if (status.modified > 0 || status.staged > 0 || status.untracked > 0) {
-          throw new Error(`Repository has uncommitted changes. Use --force to remove anyway.`);
+          throw new Error('Repository has uncommitted changes. Use --force to remove anyway.');
         }
       }
 
@@ -302,9 +274,9 @@ export class GitManager {
     return composeFiles;
   }
 
-  async autoDiscoverServices(repositoryPath: string): Promise<Array<{ name: string; directory: string; compose_file?: string; env_file?: string }>> {
+  async autoDiscoverServices(repositoryPath: string): Promise<Array<{ name: string; directory: string; compose_files?: string[]; env_file?: string }>> {
     const composeDirectories = await this.discoverComposeFiles(repositoryPath);
-    const services: Array<{ name: string; directory: string; compose_file?: string; env_file?: string }> = [];
+    const services: Array<{ name: string; directory: string; compose_files?: string[]; env_file?: string }> = [];
 
     for (const composeDir of composeDirectories) {
       const fullPath = join(this.projectsDirectory, repositoryPath, composeDir);
@@ -312,23 +284,21 @@ export class GitManager {
       try {
         const entries = await fs.readdir(fullPath);
 
-        // Find compose file
-        const composeFile = entries.find(file =>
-          ['docker-compose.yml', 'docker-compose.yaml', 'compose.yml', 'compose.yaml'].includes(file.toLowerCase())
-        );
+        // Find compose files, overrides included
+        const composeFiles = findComposeFiles(entries);
 
         // Find env file
         const envFile = entries.find(file =>
           file === '.env' || file.startsWith('.env.')
         );
 
-        if (composeFile) {
+        if (composeFiles.length > 0) {
           const serviceName = composeDir === '.' ? repositoryPath : `${repositoryPath}-${composeDir.replace(/[^a-zA-Z0-9]/g, '-')}`;
 
           const serviceConfig: any = {
             name: serviceName,
             directory: join(this.projectsDirectory, repositoryPath, composeDir),
-            compose_file: composeFile
+            compose_files: composeFiles
           };
 
           if (envFile !== undefined) {
@@ -1,23 +1,209 @@
 #!/usr/bin/env node
 
 import { Command } from 'commander';
+import { resolve } from 'path';
 import { CronosUI } from './ui/index.js';
 import { configManager } from './config/index.js';
 import { containerEngine } from './engine/index.js';
 import { containerRegistry } from './registry/index.js';
 import { templateManager } from './templates/index.js';
 import { gitManager } from './git/index.js';
+import { serviceOrchestrator } from './orchestrator/index.js';
+import { serviceBuilder } from './builder/index.js';
+import { composeParser, formatDeclaredPort, isServiceEnabled } from './compose/index.js';
+import { metricsCollector } from './metrics/index.js';
+import { DEFAULT_EXPORTER_PORT, PrometheusExporter } from './metrics/prometheus.js';
+import { MetricsRecorder, MetricsReplay, readRecording } from './metrics/recording.js';
+import { alertManager } from './alerts/index.js';
+import { EngineCommandError, PortConflictError } from './engine/errors.js';
+import { formatPortBinding, formatPortOwner } from './engine/ports.js';
+import { BuildFailedError } from './engine/build.js';
+import { parseContainerPath } from './engine/files.js';
 import chalk from 'chalk';
+import type {
+  BuildOptions,
+  BuildStep,
+  BuildSummary,
+  ComposeContext,
+  ContainerEngine,
+  ContainerInfo,
+  DiskUsageCategory,
+  EngineSelection,
+  OrchestrationStep,
+  PruneResult,
+  ServiceConfig,
+} from './types/index.js';
+
+const ENGINE_SELECTIONS: EngineSelection[] = ['docker', 'podman', 'nerdctl', 'docker-compose', 'simulated', 'auto'];
+// Lines of the failing build step shown after the error
+const BUILD_FAILURE_TAIL = 30;
 
 const program = new Command();
 
 program
   .name('cronos')
   .description('Interactive console application for container management on development environment')
-  .version('1.0.0');
+  .version('1.0.0')
+  .option('--engine <engine>', 'Container engine to use: docker, podman, nerdctl, docker-compose, simulated or auto (overrides cronos.yml)')
+  .option('--demo', 'Use the simulated engine with fake containers (same as --engine simulated)')
+  .option('--host <name>', 'Engine endpoint from the hosts section of cronos.yml (default: local)');
+
+program.hook('preAction', async (_program, actionCommand) => {
+  const { engine, demo, host } = program.opts();
+
+  if (engine && !ENGINE_SELECTIONS.includes(engine)) {
+    console.error(chalk.red(`❌ Unknown engine '${engine}'. Use one of: ${ENGINE_SELECTIONS.join(', ')}`));
+    process.exit(1);
+  }
+
+  // --demo and --engine win over the engine setting from cronos.yml
+  if (!configManager.getConfig()) {
+    await configManager.loadConfig(actionCommand.opts().config);
+  }
+  containerEngine.setPreferredEngine(demo ? 'simulated' : engine || configManager.getConfig()!.engine);
+
+  containerEngine.setEndpoints(configManager.getConfig()!.hosts || []);
+  if (host) {
+    try {
+      containerEngine.setHost(host);
+    } catch (error) {
+      console.error(chalk.red(`❌ ${(error as Error).message}`));
+      process.exit(1);
+    }
+  }
+});
+
+// Engine failures also show the engine's own output and what to do about it
+function reportEngineError(message: string, error: unknown): void {
+  console.error(chalk.red(`❌ ${message}:`), (error as Error).message);
+
+  if (error instanceof EngineCommandError) {
+    // The last line is already part of the message
+    if (error.stderr.includes('\n')) {
+      console.error(chalk.gray(error.stderr));
+    }
+    if (error.hint) {
+      console.error(chalk.yellow(`💡 ${error.hint}`));
+    }
+  }
+
+  if (error instanceof PortConflictError) {
+    console.error(chalk.yellow(`💡 ${error.hint}`));
+  }
+}
+
+// Exact container names win, then compose service names, then cronos.yml services
+async function findContainer(name: string, runningOnly = true): Promise<ContainerInfo | undefined> {
+  const containers = (await containerEngine.listContainers()).filter(container => !runningOnly || container.status === 'running');
+
+  return containers.find(container => container.name === name || container.id.startsWith(name))
+    || containers.find(container => container.compose?.service === name)
+    || containers.find(container => configManager.findServiceForContainer(container)?.name === name);
+}
+
+// Same matching as findContainer, for commands that take several services
+function matchesService(container: ContainerInfo, name: string): boolean {
+  return container.name === name
+    || container.id.startsWith(name)
+    || container.compose?.service === name
+    || configManager.findServiceForContainer(container)?.name === name;
+}
+
+// --timeout values are seconds; exits on anything that is not a number
+function parseTimeout(value: string): number {
+  const seconds = parseFloat(value);
+  if (isNaN(seconds) || seconds < 0) {
+    console.error(chalk.red(`❌ Invalid timeout '${value}'`));
+    process.exit(1);
+  }
+  return seconds * 1000;
+}
+
+// Progress for "up"/"down" across the services in cronos.yml
+function printStep(step: OrchestrationStep): void {
+  const prefix = chalk.gray(`[${step.level + 1}]`);
+
+  switch (step.action) {
+    case 'waiting': console.log(`${prefix} ⏳ ${step.service} waiting for ${step.dependencies?.join(', ')} to be healthy`); break;
+    case 'starting': console.log(`${prefix} 🚀 Starting ${step.service}`); break;
+    case 'started': console.log(`${prefix} ${chalk.green(`✅ Started ${step.service}`)}`); break;
+    case 'stopping': console.log(`${prefix} 🛑 Stopping ${step.service}`); break;
+    case 'stopped': console.log(`${prefix} ${chalk.green(`✅ Stopped ${step.service}`)}`); break;
+    case 'failed': console.log(`${prefix} ${chalk.red(`❌ ${step.service} failed`)}`); break;
+  }
+}
+
+function formatSeconds(ms: number): string {
+  return `${(ms / 1000).toFixed(1)}s`;
+}
+
+function printBuildStep(step: BuildStep): void {
+  switch (step.status) {
+    case 'running': console.log(chalk.cyan(`=> ${step.name}`)); break;
+    case 'cached': console.log(chalk.gray(`✔ ${step.name} (cached)`)); break;
+    case 'done': console.log(chalk.gray(`✔ ${step.name} (${formatSeconds(step.durationMs ?? 0)})`)); break;
+    case 'failed': console.log(chalk.red(`✖ ${step.name}`)); break;
+  }
+}
+
+function printBuildSummary(label: string, summary: BuildSummary): void {
+  const cache = summary.instructions > 0 ? chalk.gray(` (${summary.cached}/${summary.instructions} steps cached)`) : '';
+  console.log(chalk.green(`✅ Built ${label} in ${formatSeconds(summary.durationMs)}`) + cache);
+}
+
+// The output of the step that broke says more than the exit code
+function reportBuildFailure(error: unknown): void {
+  const step = error instanceof BuildFailedError ? error.failedStep : undefined;
+
+  if (step) {
+    console.error(chalk.red(`\n❌ Build failed at ${step.name}`));
+    step.output.slice(-BUILD_FAILURE_TAIL).forEach(line => console.error(chalk.red(`   ${line}`)));
+  }
+  reportEngineError('Failed to build services', error);
+}
+
+// Plain "up"/"down" with services in cronos.yml go through the dependency order
+function useOrchestrator(services: string[], options: { directory?: string }): boolean {
+  return services.length === 0 && !options.directory && configManager.getServices().length > 0;
+}
+
+// The cronos.yml services behind the names (all of them for none), unless some are not there
+function configuredServices(names: string[]): ServiceConfig[] | undefined {
+  if (names.length === 0) return configManager.getServices();
+
+  const services = names.flatMap(name => configManager.getService(name) ?? []);
+  return services.length === names.length ? services : undefined;
+}
+
+/**
+ * Runs a compose operation for the named services. cronos.yml services run
+ * one by one with their own directory, files, profiles and project name;
+ * other names are compose services of the working directory.
+ */
+async function runForServices(
+  services: string[],
+  options: { directory?: string },
+  operation: (services: string[], context: ComposeContext, engine?: ContainerEngine) => Promise<void>,
+): Promise<void> {
+  const configured = configuredServices(services);
+  if (!options.directory && configured && configured.length > 0) {
+    for (const service of configured) {
+      await operation([], configManager.resolveServiceContext(service), service.engine);
+    }
+    return;
+  }
+
+  await operation(services, { cwd: options.directory }, configuredEngine(services));
+}
+
+// Services pinned to an engine in cronos.yml keep using it from the CLI
+function configuredEngine(services: string[]): ContainerEngine | undefined {
+  const engines = new Set(services.map(name => configManager.getService(name)?.engine));
+  return engines.size === 1 ? [...engines][0] : undefined;
+}
 
 program
-  .command('start')
+  .command('start', { isDefault: true })
   .description('Start the interactive TUI')
   .option('-c, --config <path>', 'Path to configuration file')
   .action(async (options) => {
@@ -36,7 +222,7 @@ program
       await ui.start();
 
     } catch (error) {
-      console.error(chalk.red('❌ Failed to start Cronos:'), (error as Error).message);
+      reportEngineError('Failed to start Cronos', error);
       process.exit(1);
     }
   });
@@ -50,7 +236,6 @@ program
       console.log(chalk.blue('🔧 Initializing Cronos configuration...'));
 
       await configManager.loadConfig();
-      const config = configManager.getConfig()!;
 
       if (options.autoDiscover) {
         console.log(chalk.yellow('🔍 Auto-discovering services...'));
@@ -79,9 +264,21 @@ program
 program
   .command('list')
   .description('List all containers')
-  .action(async () => {
+  .option('-a, --all-hosts', 'List containers on every host from cronos.yml')
+  .action(async (options) => {
     try {
-      const containers = await containerEngine.listContainers();
+      let containers: ContainerInfo[];
+
+      if (options.allHosts) {
+        const listings = await containerEngine.listContainersOnAllHosts();
+        for (const listing of listings.filter(listing => listing.error)) {
+          console.error(chalk.yellow(`⚠️  ${listing.host}: ${listing.error!.message}`));
+        }
+        containers = listings.flatMap(listing => listing.containers);
+      } else {
+        const running = await containerEngine.listContainers();
+        containers = [...running, ...await composeParser.findNotCreated(running)];
+      }
 
       if (containers.length === 0) {
         console.log(chalk.yellow('No containers found'));
@@ -92,18 +289,74 @@ program
       console.log('─'.repeat(80));
 
       for (const container of containers) {
-        const statusColor = container.status === 'running' ? 'green' : 'red';
-        const status = chalk[statusColor](container.status.toUpperCase());
+        const statusColor = container.status === 'running' ? 'green' : container.status === 'not-created' ? 'gray' : 'red';
+        const healthColor = container.health === 'healthy' ? 'green' : container.health === 'starting' ? 'yellow' : 'red';
+        const health = container.health && container.health !== 'none' ? ' ' + chalk[healthColor](`(${container.health})`) : '';
+        const status = chalk[statusColor](container.status.replace('-', ' ').toUpperCase()) + health;
         const ports = container.ports.length > 0 ? container.ports.join(', ') : 'None';
 
-        console.log(`${chalk.cyan(container.name)} | ${status} | ${container.image}`);
+        const host = options.allHosts ? `${chalk.magenta(container.host)} | ` : '';
+
+        console.log(`${host}${chalk.cyan(container.name)} | ${status} | ${container.image}`);
         if (container.ports.length > 0) {
           console.log(`  Ports: ${ports}`);
         }
       }
 
     } catch (error) {
-      console.error(chalk.red('❌ Failed to list containers:'), (error as Error).message);
+      reportEngineError('Failed to list containers', error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('services')
+  .description('List the services declared in compose files and whether they have a container')
+  .option('-d, --directory <path>', 'Read the compose files in this directory instead of cronos.yml\'s')
+  .option('--json', 'Print JSON')
+  .action(async (options) => {
+    try {
+      const contexts: ComposeContext[] = options.directory || configManager.getServices().length === 0
+        ? [{ cwd: options.directory }]
+        : configManager.getServices().map(service => configManager.resolveServiceContext(service));
+      const projects = await Promise.all(contexts.map(context => composeParser.parse(context)));
+
+      if (options.json) {
+        console.log(JSON.stringify(projects, null, 2));
+        return;
+      }
+
+      const containers = await containerEngine.listContainers();
+
+      for (const [index, project] of projects.entries()) {
+        const enabled = contexts[index]?.profiles ?? [];
+        const profileText = enabled.length > 0 ? chalk.gray(` profiles: ${enabled.join(', ')}`) : '';
+
+        console.log(chalk.blue(`\n📄 ${project.name}`) + chalk.gray(` (${project.files.join(', ')})`) + profileText);
+        console.log('─'.repeat(80));
+
+        for (const service of project.services) {
+          const container = containers.find(container =>
+            (container.compose?.project === project.name && container.compose.service === service.name)
+            || container.name === service.containerName);
+          const state = container
+            ? chalk[container.status === 'running' ? 'green' : 'red'](container.status.toUpperCase())
+            : chalk.gray('NOT CREATED');
+          const disabled = isServiceEnabled(service, enabled) ? '' : ' - not enabled';
+          const profiles = service.profiles.length > 0 ? chalk.gray(` [${service.profiles.join(', ')}${disabled}]`) : '';
+
+          console.log(`${chalk.cyan(service.name)} | ${state} | ${service.image ?? `build: ${service.build}`}${profiles}`);
+          if (service.ports.length > 0) {
+            console.log(`  Ports: ${service.ports.map(formatDeclaredPort).join(', ')}`);
+          }
+          if (service.dependsOn.length > 0) {
+            console.log(`  Depends on: ${service.dependsOn.join(', ')}`);
+          }
+        }
+      }
+
+    } catch (error) {
+      reportEngineError('Failed to read compose files', error);
       process.exit(1);
     }
   });
@@ -113,17 +366,24 @@ program
   .description('Start services')
   .argument('[services...]', 'Services to start (default: all)')
   .option('-d, --directory <path>', 'Working directory')
+  .option('-t, --timeout <seconds>', 'How long to wait for each healthy dependency', '60')
   .action(async (services, options) => {
     try {
       console.log(chalk.blue('🚀 Starting services...'));
 
-      await containerEngine.startServices(services, options.directory);
+      if (useOrchestrator(services, options)) {
+        await serviceOrchestrator.startAll({ timeoutMs: parseTimeout(options.timeout), onStep: printStep });
+        console.log(chalk.green('✅ Started all services'));
+        return;
+      }
+
+      await runForServices(services, options, (names, context, engine) => containerEngine.startServices(names, context, engine));
 
       const serviceText = services.length > 0 ? services.join(', ') : 'all services';
       console.log(chalk.green(`✅ Started ${serviceText}`));
 
     } catch (error) {
-      console.error(chalk.red('❌ Failed to start services:'), (error as Error).message);
+      reportEngineError('Failed to start services', error);
       process.exit(1);
     }
   });
@@ -137,13 +397,19 @@ program
     try {
       console.log(chalk.blue('🛑 Stopping services...'));
 
-      await containerEngine.stopServices(services, options.directory);
+      if (useOrchestrator(services, options)) {
+        await serviceOrchestrator.stopAll({ onStep: printStep });
+        console.log(chalk.green('✅ Stopped all services'));
+        return;
+      }
+
+      await runForServices(services, options, (names, context, engine) => containerEngine.stopServices(names, context, engine));
 
       const serviceText = services.length > 0 ? services.join(', ') : 'all services';
       console.log(chalk.green(`✅ Stopped ${serviceText}`));
 
     } catch (error) {
-      console.error(chalk.red('❌ Failed to stop services:'), (error as Error).message);
+      reportEngineError('Failed to stop services', error);
       process.exit(1);
     }
   });
@@ -157,13 +423,230 @@ program
     try {
       console.log(chalk.blue('🔄 Restarting services...'));
 
-      await containerEngine.restartServices(services, options.directory);
+      await runForServices(services, options, (names, context, engine) => containerEngine.restartServices(names, context, engine));
 
       const serviceText = services.length > 0 ? services.join(', ') : 'all services';
       console.log(chalk.green(`✅ Restarted ${serviceText}`));
 
     } catch (error) {
-      console.error(chalk.red('❌ Failed to restart services:'), (error as Error).message);
+      reportEngineError('Failed to restart services', error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('recreate')
+  .description('Recreate service containers even if their configuration is unchanged')
+  .argument('[services...]', 'Services to recreate (default: all)')
+  .option('-d, --directory <path>', 'Working directory')
+  .action(async (services, options) => {
+    try {
+      console.log(chalk.blue('♻️  Recreating services...'));
+
+      await runForServices(services, options, (names, context, engine) => containerEngine.recreateServices(names, context, engine));
+
+      const serviceText = services.length > 0 ? services.join(', ') : 'all services';
+      console.log(chalk.green(`✅ Recreated ${serviceText}`));
+
+    } catch (error) {
+      reportEngineError('Failed to recreate services', error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('build')
+  .description('Build images for services with a Dockerfile or compose build section')
+  .argument('[services...]', 'Services to build (default: all)')
+  .option('-d, --directory <path>', 'Working directory')
+  .option('--no-cache', 'Do not use the layer cache')
+  .option('--pull', 'Always pull newer base images')
+  .option('-q, --quiet', 'Only show build steps, not their output')
+  .action(async (services: string[], options) => {
+    const buildOptions: BuildOptions = {
+      noCache: options.cache === false,
+      pull: options.pull,
+      onStep: printBuildStep,
+      onOutput: (line: string) => {
+        if (!options.quiet) {
+          console.log(chalk.gray(`   ${line}`));
+        }
+      },
+    };
+
+    try {
+      console.log(chalk.blue('🔨 Building services...'));
+
+      // Services from cronos.yml build from their own directory
+      const configured = configuredServices(services);
+      if (!options.directory && configured && configured.length > 0) {
+        for (const service of configured) {
+          console.log(chalk.blue(`\n📦 ${service.name}`));
+          printBuildSummary(service.name, await serviceBuilder.build(service, buildOptions));
+        }
+        return;
+      }
+
+      const summary = await containerEngine.buildServices(services, { cwd: options.directory }, configuredEngine(services), buildOptions);
+      printBuildSummary(services.length > 0 ? services.join(', ') : 'all services', summary);
+
+    } catch (error) {
+      reportBuildFailure(error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('pause')
+  .description('Pause running containers')
+  .argument('<containers...>', 'Container names or IDs')
+  .action(async (containers: string[]) => {
+    try {
+      for (const container of containers) {
+        await containerEngine.pauseContainer(container);
+        console.log(chalk.green(`⏸️  Paused ${container}`));
+      }
+    } catch (error) {
+      reportEngineError('Failed to pause container', error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('unpause')
+  .description('Resume paused containers')
+  .argument('<containers...>', 'Container names or IDs')
+  .action(async (containers: string[]) => {
+    try {
+      for (const container of containers) {
+        await containerEngine.unpauseContainer(container);
+        console.log(chalk.green(`▶️  Unpaused ${container}`));
+      }
+    } catch (error) {
+      reportEngineError('Failed to unpause container', error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('kill')
+  .description('Send a signal to containers')
+  .argument('<containers...>', 'Container names or IDs')
+  .option('-s, --signal <signal>', 'Signal to send', 'SIGKILL')
+  .action(async (containers: string[], options) => {
+    try {
+      for (const container of containers) {
+        await containerEngine.killContainer(container, options.signal);
+        console.log(chalk.green(`💀 Sent ${options.signal} to ${container}`));
+      }
+    } catch (error) {
+      reportEngineError('Failed to kill container', error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('rm')
+  .description('Remove containers')
+  .argument('<containers...>', 'Container names or IDs')
+  .option('-v, --volumes', 'Also remove anonymous volumes attached to the containers')
+  .option('-f, --force', 'Remove running containers (kills them first)')
+  .action(async (containers: string[], options) => {
+    try {
+      for (const container of containers) {
+        await containerEngine.removeContainer(container, { volumes: options.volumes, force: options.force });
+        console.log(chalk.green(`🗑️  Removed ${container}${options.volumes ? ' and its volumes' : ''}`));
+      }
+    } catch (error) {
+      reportEngineError('Failed to remove container', error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('exec')
+  .description('Run a command in a service container (opens a shell when no command is given)')
+  .argument('<service>', 'Service from cronos.yml, compose service or container name')
+  .argument('[command...]', 'Command to run')
+  .allowUnknownOption()
+  .action(async (service: string, command: string[]) => {
+    try {
+      const container = await findContainer(service);
+      if (!container) {
+        console.error(chalk.red(`❌ No running container found for '${service}'`));
+        process.exit(1);
+      }
+
+      const target = configManager.resolveComposeTarget(container);
+      const exitCode = await containerEngine.exec(container.name, command, target.engine);
+      process.exit(exitCode);
+
+    } catch (error) {
+      reportEngineError('Failed to exec into container', error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('cp')
+  .description('Copy files between a service container and the host')
+  .argument('<source>', 'SERVICE:PATH or a host path')
+  .argument('<destination>', 'SERVICE:PATH or a host path')
+  .action(async (source: string, destination: string) => {
+    const from = parseContainerPath(source);
+    const to = parseContainerPath(destination);
+    if (!from === !to) {
+      console.error(chalk.red('❌ Exactly one of source and destination must be SERVICE:PATH'));
+      process.exit(1);
+    }
+
+    try {
+      // Stopped containers can be copied from too, e.g. to get at a crash dump
+      const reference = (from ?? to)!;
+      const container = await findContainer(reference.container, false);
+      if (!container) {
+        console.error(chalk.red(`❌ No container found for '${reference.container}'`));
+        process.exit(1);
+      }
+
+      const target = configManager.resolveComposeTarget(container);
+      if (from) {
+        await containerEngine.copyFromContainer(container.name, from.path, resolve(destination), target.engine);
+        console.log(chalk.green(`✅ Copied ${container.name}:${from.path} to ${destination}`));
+      } else {
+        await containerEngine.copyToContainer(container.name, resolve(source), reference.path, target.engine);
+        console.log(chalk.green(`✅ Copied ${source} to ${container.name}:${reference.path}`));
+      }
+
+    } catch (error) {
+      reportEngineError('Failed to copy', error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('wait')
+  .description('Block until services are running, or healthy with --healthy')
+  .argument('<services...>', 'Services from cronos.yml, compose services or container names')
+  .option('--healthy', 'Wait for passing health checks (containers without one count once running)')
+  .option('-t, --timeout <seconds>', 'Give up after this many seconds', '60')
+  .action(async (services: string[], options) => {
+    const timeoutMs = parseTimeout(options.timeout);
+
+    try {
+      const condition = options.healthy ? 'healthy' : 'running';
+      console.log(chalk.blue(`⏳ Waiting for ${services.join(', ')} to be ${condition}...`));
+
+      const containers = await containerEngine.waitForContainers(services, {
+        healthy: options.healthy,
+        timeoutMs,
+        matches: matchesService,
+      });
+
+      console.log(chalk.green(`✅ Ready: ${containers.map(container => container.name).join(', ')}`));
+
+    } catch (error) {
+      reportEngineError('Wait failed', error);
       process.exit(1);
     }
   });
@@ -178,7 +661,11 @@ program
     try {
       console.log(chalk.blue(`📋 Showing logs for ${service}...`));
 
-      const logStream = await containerEngine.getLogs(service, options.follow, options.directory);
+      // A cronos.yml service shows the logs of its whole compose project
+      const configured = options.directory ? undefined : configManager.getService(service);
+      const logStream = configured
+        ? await containerEngine.getLogs(undefined, options.follow, configManager.resolveServiceContext(configured), configured.engine)
+        : await containerEngine.getLogs(service, options.follow, { cwd: options.directory });
 
       logStream.on('data', (chunk: Buffer) => {
         process.stdout.write(chunk);
@@ -195,7 +682,7 @@ program
       });
 
     } catch (error) {
-      console.error(chalk.red('❌ Failed to show logs:'), (error as Error).message);
+      reportEngineError('Failed to show logs', error);
       process.exit(1);
     }
   });
@@ -210,18 +697,40 @@ program
   .option('-v, --volume <volumes...>', 'Volume mounts (e.g., ./data:/data)')
   .option('--tag <tag>', 'Image tag (default: latest)')
   .option('--no-start', 'Pull image but don\'t start container')
+  .option('--remap-ports', 'Publish template ports on free host ports when the defaults are taken')
   .action(async (image, options) => {
     try {
       console.log(chalk.blue(`📦 Processing ${image}...`));
 
       // Check if it's a template
       const template = templateManager.getTemplate(image);
-      let containerName = options.name || image.replace(/[^a-zA-Z0-9-_]/g, '_');
+      const containerName = options.name || image.replace(/[^a-zA-Z0-9-_]/g, '_');
 
       if (template) {
         console.log(chalk.yellow(`🔧 Using template: ${template.name}`));
         console.log(chalk.gray(template.description));
 
+        // Template defaults are only suggestions, so they can move off taken ports
+        let ports: string[] = options.port || template.defaultPorts || [];
+        if (options.start !== false && !options.port) {
+          const remaps = await containerEngine.remapPorts(ports);
+
+          for (const remap of remaps) {
+            const { binding, owner } = remap.conflict;
+            console.log(chalk.yellow(`⚠️  Port ${formatPortBinding(binding)} is already used by ${formatPortOwner(owner)}`));
+          }
+
+          if (remaps.length > 0 && !options.remapPorts) {
+            console.log(chalk.yellow(`💡 Run again with --remap-ports to use ${remaps.map(remap => remap.to).join(', ')} instead`));
+            process.exit(1);
+          }
+
+          for (const remap of remaps) {
+            console.log(chalk.blue(`🔀 Publishing ${remap.to} instead of ${remap.from}`));
+          }
+          ports = ports.map(port => remaps.find(remap => remap.from === port)?.to ?? port);
+        }
+
         // Pull the template image
         await containerRegistry.pullImage(template.image);
 
@@ -255,10 +764,11 @@ program
           const containerId = await containerRegistry.runContainer({
             name: containerName,
             image: template.image,
-            ports: options.port || template.defaultPorts,
+            ports,
             env: finalEnv,
             volumes: options.volume || template.volumes,
-            restart: 'unless-stopped'
+            restart: 'unless-stopped',
+            healthCheck: template.healthCheck,
           });
 
           console.log(chalk.green(`✅ Container started: ${containerName} (${containerId.substring(0, 12)})`));
@@ -298,7 +808,7 @@ program
       }
 
     } catch (error) {
-      console.error(chalk.red('❌ Failed to pull/run container:'), (error as Error).message);
+      reportEngineError('Failed to pull/run container', error);
       process.exit(1);
     }
   });
@@ -342,8 +852,8 @@ program
       if (templates.length === 0) {
         console.log(chalk.yellow('No templates found'));
       } else {
-        console.log(chalk.gray(`\nUsage: cronos pull <template-name>`));
-        console.log(chalk.gray(`Example: cronos pull redis -e REDIS_PASSWORD=secret`));
+        console.log(chalk.gray('\nUsage: cronos pull <template-name>'));
+        console.log(chalk.gray('Example: cronos pull redis -e REDIS_PASSWORD=secret'));
       }
 
     } catch (error) {
@@ -381,7 +891,7 @@ program
         console.log(`${name}${description}${stars} ${official}`);
       }
 
-      console.log(chalk.gray(`\nUsage: cronos pull <image-name>`));
+      console.log(chalk.gray('\nUsage: cronos pull <image-name>'));
 
     } catch (error) {
       console.error(chalk.red('❌ Failed to search images:'), (error as Error).message);
@@ -411,14 +921,570 @@ program
         const repo = image.repository.substring(0, 24).padEnd(25);
         const tag = image.tag.padEnd(15);
         const id = image.id.substring(0, 12).padEnd(15);
-        const size = image.size.padEnd(10);
+        const size = metricsCollector.formatMemory(image.size).padEnd(10);
         const created = image.created.toLocaleDateString();
 
         console.log(`${repo}${tag}${id}${size}${created}`);
       }
 
     } catch (error) {
-      console.error(chalk.red('❌ Failed to list images:'), (error as Error).message);
+      reportEngineError('Failed to list images', error);
+      process.exit(1);
+    }
+  });
+
+// Network and volume commands
+function parseLabels(labels: string[] = []): Record<string, string> {
+  const parsed: Record<string, string> = {};
+  for (const label of labels) {
+    const separator = label.indexOf('=');
+    if (separator > 0) {
+      parsed[label.substring(0, separator)] = label.substring(separator + 1);
+    } else {
+      parsed[label] = '';
+    }
+  }
+  return parsed;
+}
+
+function formatUsage(containers: string[], builtIn = false): string {
+  if (containers.length > 0) return containers.join(', ');
+  return builtIn ? chalk.gray('built-in') : chalk.yellow('unused');
+}
+
+function reportPrune(kind: string, result: PruneResult): void {
+  for (const name of result.removed) {
+    console.log(chalk.green(`✅ Removed ${kind} ${name}`));
+  }
+  for (const failure of result.failed) {
+    console.error(chalk.red(`❌ Could not remove ${kind} ${failure.name}:`), failure.error.message);
+  }
+  if (result.reclaimed > 0) {
+    console.log(chalk.blue(`💾 Reclaimed ${metricsCollector.formatMemory(result.reclaimed)}`));
+  }
+}
+
+const networksCommand = program
+  .command('networks')
+  .description('Manage container networks');
+
+networksCommand
+  .command('list')
+  .alias('ls')
+  .description('List networks and the containers attached to them')
+  .option('--json', 'Print JSON')
+  .action(async (options) => {
+    try {
+      const networks = await containerEngine.listNetworks();
+
+      if (options.json) {
+        console.log(JSON.stringify(networks, null, 2));
+        return;
+      }
+
+      console.log(chalk.blue('\n🌐 Networks:'));
+      console.log('─'.repeat(80));
+
+      for (const network of networks) {
+        const subnets = network.subnets.length > 0 ? ` | ${network.subnets.join(', ')}` : '';
+        const internal = network.internal ? ' | internal' : '';
+
+        console.log(`${chalk.cyan(network.name)} | ${network.driver}${subnets}${internal}`);
+        console.log(`  Containers: ${formatUsage(network.containers, network.builtIn)}`);
+      }
+
+    } catch (error) {
+      reportEngineError('Failed to list networks', error);
+      process.exit(1);
+    }
+  });
+
+networksCommand
+  .command('inspect')
+  .description('Show details of a network')
+  .argument('<network>', 'Network name or ID')
+  .option('--json', 'Print the engine\'s inspect output')
+  .action(async (name, options) => {
+    try {
+      if (options.json) {
+        console.log(JSON.stringify(await containerEngine.inspectNetwork(name), null, 2));
+        return;
+      }
+
+      const network = (await containerEngine.listNetworks()).find(candidate => candidate.name === name || candidate.id.startsWith(name));
+      if (!network) {
+        throw new Error(`No such network: ${name}`);
+      }
+
+      console.log(`${chalk.bold('Name:')}       ${network.name}`);
+      console.log(`${chalk.bold('ID:')}         ${network.id.substring(0, 12)}`);
+      console.log(`${chalk.bold('Driver:')}     ${network.driver} (${network.scope})`);
+      console.log(`${chalk.bold('Subnets:')}    ${network.subnets.join(', ') || '-'}`);
+      console.log(`${chalk.bold('Internal:')}   ${network.internal ? 'yes' : 'no'}`);
+      console.log(`${chalk.bold('Created:')}    ${network.created?.toLocaleString() || '-'}`);
+      console.log(`${chalk.bold('Containers:')} ${formatUsage(network.containers, network.builtIn)}`);
+      for (const [key, value] of Object.entries(network.labels)) {
+        console.log(`  ${chalk.gray(`${key}=${value}`)}`);
+      }
+
+    } catch (error) {
+      reportEngineError('Failed to inspect network', error);
+      process.exit(1);
+    }
+  });
+
+networksCommand
+  .command('create')
+  .description('Create a network')
+  .argument('<name>', 'Network name')
+  .option('-d, --driver <driver>', 'Network driver (default: bridge)')
+  .option('--internal', 'Block access to outside networks')
+  .option('--subnet <cidr>', 'Subnet, e.g. 172.30.0.0/16')
+  .option('-l, --label <labels...>', 'Labels (e.g., team=backend)')
+  .action(async (name, options) => {
+    try {
+      await containerEngine.createNetwork(name, {
+        driver: options.driver,
+        internal: options.internal,
+        subnet: options.subnet,
+        labels: parseLabels(options.label),
+      });
+      console.log(chalk.green(`✅ Created network ${name}`));
+
+    } catch (error) {
+      reportEngineError('Failed to create network', error);
+      process.exit(1);
+    }
+  });
+
+networksCommand
+  .command('remove')
+  .alias('rm')
+  .description('Remove networks')
+  .argument('<networks...>', 'Network names or IDs')
+  .action(async (names: string[]) => {
+    try {
+      for (const name of names) {
+        await containerEngine.removeNetwork(name);
+        console.log(chalk.green(`✅ Removed network ${name}`));
+      }
+
+    } catch (error) {
+      reportEngineError('Failed to remove network', error);
+      process.exit(1);
+    }
+  });
+
+networksCommand
+  .command('prune')
+  .description('Remove networks no container uses (shows them unless --force)')
+  .option('-f, --force', 'Remove them instead of listing them')
+  .option('--json', 'Print JSON')
+  .action(async (options) => {
+    try {
+      if (!options.force) {
+        const unused = await containerEngine.findUnusedNetworks();
+        if (options.json) {
+          console.log(JSON.stringify(unused, null, 2));
+        } else if (unused.length === 0) {
+          console.log(chalk.green('✅ No unused networks'));
+        } else {
+          console.log(chalk.blue('Unused networks:'));
+          unused.forEach(network => console.log(`  ${chalk.cyan(network.name)} ${chalk.gray(network.driver)}`));
+          console.log(chalk.gray('\nRun again with --force to remove them'));
+        }
+        return;
+      }
+
+      const result = await containerEngine.pruneNetworks();
+      if (options.json) {
+        console.log(JSON.stringify({ ...result, failed: result.failed.map(failure => ({ name: failure.name, error: failure.error.message })) }, null, 2));
+      } else {
+        reportPrune('network', result);
+      }
+      if (result.failed.length > 0) {
+        process.exit(1);
+      }
+
+    } catch (error) {
+      reportEngineError('Failed to prune networks', error);
+      process.exit(1);
+    }
+  });
+
+const volumesCommand = program
+  .command('volumes')
+  .description('Manage container volumes');
+
+volumesCommand
+  .command('list')
+  .alias('ls')
+  .description('List volumes with their size and the containers using them')
+  .option('--json', 'Print JSON')
+  .action(async (options) => {
+    try {
+      const volumes = await containerEngine.listVolumes();
+
+      if (options.json) {
+        console.log(JSON.stringify(volumes, null, 2));
+        return;
+      }
+
+      if (volumes.length === 0) {
+        console.log(chalk.yellow('No volumes found'));
+        return;
+      }
+
+      console.log(chalk.blue('\n💾 Volumes:'));
+      console.log('─'.repeat(80));
+
+      for (const volume of volumes) {
+        const size = volume.size !== undefined ? metricsCollector.formatMemory(volume.size) : 'size unknown';
+
+        console.log(`${chalk.cyan(volume.name)} | ${volume.driver} | ${size}`);
+        console.log(`  Containers: ${formatUsage(volume.containers)}`);
+      }
+
+    } catch (error) {
+      reportEngineError('Failed to list volumes', error);
+      process.exit(1);
+    }
+  });
+
+volumesCommand
+  .command('inspect')
+  .description('Show details of a volume')
+  .argument('<volume>', 'Volume name')
+  .option('--json', 'Print the engine\'s inspect output')
+  .action(async (name, options) => {
+    try {
+      if (options.json) {
+        console.log(JSON.stringify(await containerEngine.inspectVolume(name), null, 2));
+        return;
+      }
+
+      const volume = (await containerEngine.listVolumes()).find(candidate => candidate.name === name);
+      if (!volume) {
+        throw new Error(`No such volume: ${name}`);
+      }
+
+      console.log(`${chalk.bold('Name:')}       ${volume.name}`);
+      console.log(`${chalk.bold('Driver:')}     ${volume.driver}`);
+      console.log(`${chalk.bold('Mountpoint:')} ${volume.mountpoint}`);
+      console.log(`${chalk.bold('Size:')}       ${volume.size !== undefined ? metricsCollector.formatMemory(volume.size) : '-'}`);
+      console.log(`${chalk.bold('Created:')}    ${volume.created?.toLocaleString() || '-'}`);
+      console.log(`${chalk.bold('Containers:')} ${formatUsage(volume.containers)}`);
+      for (const [key, value] of Object.entries(volume.labels)) {
+        console.log(`  ${chalk.gray(`${key}=${value}`)}`);
+      }
+
+    } catch (error) {
+      reportEngineError('Failed to inspect volume', error);
+      process.exit(1);
+    }
+  });
+
+volumesCommand
+  .command('create')
+  .description('Create a volume')
+  .argument('<name>', 'Volume name')
+  .option('-d, --driver <driver>', 'Volume driver (default: local)')
+  .option('-l, --label <labels...>', 'Labels (e.g., team=backend)')
+  .action(async (name, options) => {
+    try {
+      await containerEngine.createVolume(name, {
+        driver: options.driver,
+        labels: parseLabels(options.label),
+      });
+      console.log(chalk.green(`✅ Created volume ${name}`));
+
+    } catch (error) {
+      reportEngineError('Failed to create volume', error);
+      process.exit(1);
+    }
+  });
+
+volumesCommand
+  .command('remove')
+  .alias('rm')
+  .description('Remove volumes')
+  .argument('<volumes...>', 'Volume names')
+  .option('-f, --force', 'Do not fail on volumes that do not exist')
+  .action(async (names: string[], options) => {
+    try {
+      for (const name of names) {
+        await containerEngine.removeVolume(name, options.force);
+        console.log(chalk.green(`✅ Removed volume ${name}`));
+      }
+
+    } catch (error) {
+      reportEngineError('Failed to remove volume', error);
+      process.exit(1);
+    }
+  });
+
+volumesCommand
+  .command('prune')
+  .description('Remove volumes no container uses, named ones included (shows them unless --force)')
+  .option('-f, --force', 'Remove them instead of listing them')
+  .option('--json', 'Print JSON')
+  .action(async (options) => {
+    try {
+      if (!options.force) {
+        const unused = await containerEngine.findUnusedVolumes();
+        if (options.json) {
+          console.log(JSON.stringify(unused, null, 2));
+        } else if (unused.length === 0) {
+          console.log(chalk.green('✅ No unused volumes'));
+        } else {
+          console.log(chalk.blue('Unused volumes:'));
+          unused.forEach(volume => {
+            const size = volume.size !== undefined ? metricsCollector.formatMemory(volume.size) : '';
+            console.log(`  ${chalk.cyan(volume.name)} ${chalk.gray(size)}`);
+          });
+          console.log(chalk.gray('\nRun again with --force to remove them'));
+        }
+        return;
+      }
+
+      const result = await containerEngine.pruneVolumes();
+      if (options.json) {
+        console.log(JSON.stringify({ ...result, failed: result.failed.map(failure => ({ name: failure.name, error: failure.error.message })) }, null, 2));
+      } else {
+        reportPrune('volume', result);
+      }
+      if (result.failed.length > 0) {
+        process.exit(1);
+      }
+
+    } catch (error) {
+      reportEngineError('Failed to prune volumes', error);
+      process.exit(1);
+    }
+  });
+
+const DISK_USAGE_TITLES: Record<DiskUsageCategory, string> = {
+  'images': 'Images',
+  'containers': 'Containers',
+  'volumes': 'Local Volumes',
+  'build-cache': 'Build Cache',
+};
+
+program
+  .command('df')
+  .description('Show disk space used by images, containers, volumes and the build cache')
+  .option('-v, --verbose', 'List what each category holds')
+  .option('--json', 'Print JSON')
+  .action(async (options) => {
+    try {
+      const report = await containerEngine.getDiskUsage();
+
+      if (options.json) {
+        console.log(JSON.stringify(report, null, 2));
+        return;
+      }
+
+      const size = (bytes: number) => metricsCollector.formatMemory(bytes);
+      const share = (part: number, total: number) => total > 0 ? ` (${Math.round((part / total) * 100)}%)` : '';
+
+      console.log(chalk.bold(`${'TYPE'.padEnd(15)} ${'TOTAL'.padStart(6)} ${'ACTIVE'.padStart(6)} ${'SIZE'.padStart(10)}  RECLAIMABLE`));
+      for (const category of report.categories) {
+        console.log(`${DISK_USAGE_TITLES[category.category].padEnd(15)} ${String(category.count).padStart(6)} ${String(category.active).padStart(6)} ${size(category.size).padStart(10)}  ${size(category.reclaimable)}${share(category.reclaimable, category.size)}`);
+      }
+      console.log('─'.repeat(60));
+      console.log(chalk.bold(`${'Total'.padEnd(29)} ${size(report.size).padStart(10)}  ${chalk.green(`${size(report.reclaimable)}${share(report.reclaimable, report.size)}`)}`));
+
+      if (options.verbose) {
+        for (const category of report.categories.filter(candidate => candidate.items.length > 0)) {
+          console.log(chalk.blue(`\n${DISK_USAGE_TITLES[category.category]}:`));
+          for (const item of category.items) {
+            const reclaimable = item.reclaimable > 0 ? chalk.green(` ${size(item.reclaimable)} reclaimable`) : '';
+            const detail = item.detail ? chalk.gray(` ${item.detail}`) : '';
+            console.log(`  ${(item.active ? chalk.cyan : chalk.gray)(item.name.padEnd(40))} ${size(item.size).padStart(10)}${reclaimable}${detail}`);
+          }
+        }
+      }
+
+    } catch (error) {
+      reportEngineError('Failed to read disk usage', error);
+      process.exit(1);
+    }
+  });
+
+const metricsCommand = program
+  .command('metrics')
+  .description('Export container and host metrics');
+
+metricsCommand
+  .command('serve')
+  .description('Serve metrics in the Prometheus text format at /metrics')
+  .option('-p, --port <port>', 'Port to listen on', String(DEFAULT_EXPORTER_PORT))
+  .option('-b, --bind <address>', 'Address to listen on', '127.0.0.1')
+  .option('-i, --interval <seconds>', 'Seconds between samples (default: metrics.interval from cronos.yml or 2)')
+  .action(async (options) => {
+    try {
+      const port = parseInt(options.port, 10);
+      if (isNaN(port) || port < 0 || port > 65535) {
+        throw new Error(`Invalid port '${options.port}'`);
+      }
+
+      const interval = options.interval !== undefined ? parseTimeout(options.interval) / 1000 : undefined;
+      metricsCollector.configure({ ...configManager.getConfig()?.metrics, ...(interval ? { interval } : {}) });
+
+      const exporter = new PrometheusExporter(metricsCollector);
+      await exporter.listen(port, options.bind);
+      await metricsCollector.start();
+      console.log(chalk.green(`✅ Serving metrics at http://${options.bind.includes(':') ? `[${options.bind}]` : options.bind}:${port}/metrics`));
+      console.log(chalk.gray('Press Ctrl+C to stop'));
+
+      process.on('SIGINT', async () => {
+        metricsCollector.stop();
+        await exporter.close();
+        process.exit(0);
+      });
+
+    } catch (error) {
+      reportEngineError('Failed to serve metrics', error);
+      process.exit(1);
+    }
+  });
+
+metricsCommand
+  .command('record')
+  .description('Record host and container metrics to an NDJSON file until stopped')
+  .requiredOption('-o, --output <file>', 'File to write, one JSON frame per line')
+  .option('-d, --duration <seconds>', 'Stop after this many seconds')
+  .option('-i, --interval <seconds>', 'Seconds between samples (default: metrics.interval from cronos.yml or 2)')
+  .action(async (options) => {
+    try {
+      const durationMs = options.duration !== undefined ? parseTimeout(options.duration) : undefined;
+      const interval = options.interval !== undefined ? parseTimeout(options.interval) / 1000 : undefined;
+      metricsCollector.configure({ ...configManager.getConfig()?.metrics, ...(interval ? { interval } : {}) });
+
+      const recorder = new MetricsRecorder(metricsCollector);
+      await recorder.start(options.output);
+      await metricsCollector.start();
+      console.log(chalk.blue(`⏺  Recording metrics to ${options.output}${durationMs ? ` for ${durationMs / 1000}s` : ' - press Ctrl+C to stop'}`));
+
+      // Ctrl+C and the duration can both end the recording
+      let finished = false;
+      let failed = false;
+      let timer: NodeJS.Timeout | undefined;
+      const finish = async () => {
+        if (finished) return;
+        finished = true;
+        clearTimeout(timer);
+        process.off('SIGINT', finish);
+
+        metricsCollector.stop();
+        await recorder.stop();
+        if (failed) {
+          process.exit(1);
+        }
+        console.log(chalk.green(`✅ Recorded ${recorder.getFrameCount()} frames to ${options.output}`));
+        process.exit(0);
+      };
+      process.on('SIGINT', finish);
+      if (durationMs) {
+        timer = setTimeout(finish, durationMs);
+      }
+      recorder.onError = (error: Error) => {
+        failed = true;
+        console.error(chalk.red('❌ Recording stopped:'), error.message);
+        finish();
+      };
+
+    } catch (error) {
+      reportEngineError('Failed to record metrics', error);
+      process.exit(1);
+    }
+  });
+
+metricsCommand
+  .command('replay')
+  .description('Open the TUI with metrics from a recording instead of live ones')
+  .argument('<file>', 'Recording made with "metrics record"')
+  .option('-s, --speed <factor>', 'Playback speed, e.g. 2 for twice as fast', '1')
+  .option('--loop', 'Start over when the recording ends')
+  .action(async (file, options) => {
+    try {
+      const frames = await readRecording(file);
+      const replay = new MetricsReplay(frames, { speed: parseFloat(options.speed), loop: options.loop });
+
+      const ui = new CronosUI({ metricsReplay: replay });
+      await ui.start();
+
+    } catch (error) {
+      reportEngineError('Failed to replay metrics', error);
+      process.exit(1);
+    }
+  });
+
+const alertsCommand = program
+  .command('alerts')
+  .description('Alert rules from the alerts section of cronos.yml');
+
+alertsCommand
+  .command('list')
+  .description('List the configured alert rules and sinks')
+  .action(() => {
+    const alerts = configManager.getConfig()?.alerts;
+    if (!alerts || (alerts.rules.length === 0 && alerts.sinks.length === 0)) {
+      console.log(chalk.yellow('No alerts configured - add rules and sinks under alerts: in cronos.yml'));
+      return;
+    }
+
+    console.log(chalk.blue('Rules:'));
+    for (const rule of alerts.rules) {
+      const name = rule.name !== rule.expression ? `${chalk.bold(rule.name)} ` : '';
+      console.log(`  ${name}${rule.expression}`);
+    }
+
+    console.log(chalk.blue('\nSinks:'));
+    for (const sink of alerts.sinks) {
+      const target = sink.url ?? sink.command ?? '';
+      console.log(`  ${sink.type}${target ? ` ${chalk.gray(target)}` : ''}${sink.send_resolved ? chalk.gray(' (also resolved)') : ''}`);
+    }
+  });
+
+alertsCommand
+  .command('watch')
+  .description('Evaluate the alert rules without the TUI and send alerts to the sinks')
+  .option('-i, --interval <seconds>', 'Seconds between samples (default: metrics.interval from cronos.yml or 2)')
+  .action(async (options) => {
+    try {
+      const alerts = configManager.getConfig()?.alerts;
+      if (!alerts || alerts.rules.length === 0) {
+        throw new Error('No alert rules in cronos.yml');
+      }
+
+      const interval = options.interval !== undefined ? parseTimeout(options.interval) / 1000 : undefined;
+      metricsCollector.configure({ ...configManager.getConfig()?.metrics, ...(interval ? { interval } : {}) });
+
+      alertManager.configure(alerts);
+      alertManager.onAlert(alert => {
+        const time = chalk.gray(new Date().toLocaleTimeString());
+        const state = alert.state === 'firing' ? chalk.red('FIRING  ') : chalk.green('RESOLVED');
+        console.log(`${time} ${state} [${alert.rule}] ${alert.message}`);
+      });
+      alertManager.onSinkError = (sink, error) => {
+        console.error(chalk.yellow(`⚠️  Alert sink ${sink.type} failed: ${error.message}`));
+      };
+      alertManager.start();
+
+      console.log(chalk.blue(`👀 Watching ${alerts.rules.length} alert rule${alerts.rules.length === 1 ? '' : 's'} - press Ctrl+C to stop`));
+      await containerEngine.watchEvents();
+      await metricsCollector.start();
+
+      process.on('SIGINT', () => {
+        alertManager.stop();
+        metricsCollector.stop();
+        containerEngine.stopWatchingEvents();
+        process.exit(0);
+      });
+
+    } catch (error) {
+      reportEngineError('Failed to watch alerts', error);
       process.exit(1);
     }
   });
@@ -461,8 +1527,8 @@ gitCommand
         console.log(chalk.blue('📋 Discovered services:'));
         for (const service of services) {
           console.log(`  ${chalk.cyan(service.name)} - ${service.directory}`);
-          if (service.compose_file) {
-            console.log(`    Compose: ${service.compose_file}`);
+          if (service.compose_files) {
+            console.log(`    Compose: ${service.compose_files.join(', ')}`);
           }
           if (service.env_file) {
             console.log(`    Env: ${service.env_file}`);
@@ -604,10 +1670,5 @@ gitCommand
     }
   });
 
-// Default command (start)
-if (process.argv.length === 2) {
-  // No command provided, default to start
-  program.parse(['node', 'cronos', 'start']);
-} else {
-  program.parse();
-}
\ No newline at end of file
+// Default command (start) is handled by commander via isDefault
+program.parse();
\ No newline at end of file
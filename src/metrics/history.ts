@@ -0,0 +1,194 @@
+import type { ContainerMetrics, MetricsSample, MetricsWindow, SystemMetrics } from '../types/index.js';
+
+export const METRICS_WINDOWS: Record<MetricsWindow, number> = {
+  '1m': 60 * 1000,
+  '5m': 5 * 60 * 1000,
+  '15m': 15 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+};
+
+export const DEFAULT_RETENTION_MS = METRICS_WINDOWS['1h'];
+
+// Series key of the host's own metrics; container series use the container name
+export const HOST_SERIES = '@host';
+
+// Samples newer than this keep full resolution
+const RAW_WINDOW_MS = METRICS_WINDOWS['5m'];
+// Older ones are merged so no series holds much more than this many
+const MAX_COMPACTED_SAMPLES = 600;
+const MIN_COMPACTED_RESOLUTION_MS = 15 * 1000;
+
+interface Series {
+  // Oldest first, at compacted resolution
+  compacted: MetricsSample[];
+  // How many samples the last compacted one averages
+  lastCount: number;
+  // Oldest first, as recorded
+  raw: MetricsSample[];
+  // Network counters are totals; rates need the previous ones
+  network?: { rx: number; tx: number; timestamp: number } | undefined;
+}
+
+function averageInto(target: MetricsSample, sample: MetricsSample, count: number): void {
+  const weight = 1 / (count + 1);
+  target.cpu += (sample.cpu - target.cpu) * weight;
+  target.memory += (sample.memory - target.memory) * weight;
+  target.memoryPercentage += (sample.memoryPercentage - target.memoryPercentage) * weight;
+  target.rxRate += (sample.rxRate - target.rxRate) * weight;
+  target.txRate += (sample.txRate - target.txRate) * weight;
+}
+
+/**
+ * Averages samples into at most `points` evenly spaced buckets across
+ * [start, end]. Buckets without samples are left out rather than invented.
+ */
+export function downsample(samples: MetricsSample[], start: number, end: number, points: number): MetricsSample[] {
+  if (samples.length <= points || points < 1) return samples;
+
+  const step = (end - start) / points;
+  const buckets: MetricsSample[] = [];
+  let bucketIndex = -1;
+  let count = 0;
+
+  for (const sample of samples) {
+    const index = Math.min(Math.floor((sample.timestamp - start) / step), points - 1);
+    if (index !== bucketIndex) {
+      bucketIndex = index;
+      count = 0;
+      buckets.push({ ...sample, timestamp: start + index * step });
+    } else {
+      averageInto(buckets[buckets.length - 1]!, sample, count);
+    }
+    count++;
+  }
+
+  return buckets;
+}
+
+/**
+ * Time series of the host and of every container, bounded by a retention.
+ * The last few minutes keep every sample; older ones are averaged into
+ * coarser steps so long retentions stay small.
+ */
+export class MetricsHistory {
+  private series: Map<string, Series> = new Map();
+  private latest = 0;
+
+  constructor(private retentionMs = DEFAULT_RETENTION_MS) {}
+
+  setRetention(retentionMs: number): void {
+    this.retentionMs = retentionMs;
+    this.prune();
+  }
+
+  getRetention(): number {
+    return this.retentionMs;
+  }
+
+  recordSystem(metrics: SystemMetrics, timestamp = Date.now()): void {
+    this.append(HOST_SERIES, {
+      timestamp,
+      cpu: metrics.cpu,
+      memory: metrics.memory.used,
+      memoryPercentage: metrics.memory.percentage,
+      rxRate: 0,
+      txRate: 0,
+    });
+    this.prune();
+  }
+
+  recordContainers(containers: ContainerMetrics[], timestamp = Date.now()): void {
+    for (const container of containers) {
+      const series = this.getOrCreate(container.name);
+      const previous = series.network;
+      const seconds = previous ? (timestamp - previous.timestamp) / 1000 : 0;
+      // Counters restart with the container
+      const rate = (current: number, before: number) => seconds > 0 && current >= before ? (current - before) / seconds : 0;
+
+      this.append(container.name, {
+        timestamp,
+        cpu: container.cpu,
+        memory: container.memory.used,
+        memoryPercentage: container.memory.percentage,
+        rxRate: previous ? rate(container.network.rx, previous.rx) : 0,
+        txRate: previous ? rate(container.network.tx, previous.tx) : 0,
+      });
+      series.network = { rx: container.network.rx, tx: container.network.tx, timestamp };
+    }
+    this.prune();
+  }
+
+  /**
+   * Samples of the last `windowMs`, counted back from the newest sample
+   * recorded. With `points`, they are averaged down to that many.
+   */
+  getSamples(key: string, windowMs: number, points?: number): MetricsSample[] {
+    const series = this.series.get(key);
+    if (!series) return [];
+
+    const start = this.latest - windowMs;
+    const samples = [...series.compacted, ...series.raw].filter(sample => sample.timestamp > start);
+    return points !== undefined ? downsample(samples, start, this.latest, points) : samples;
+  }
+
+  getKeys(): string[] {
+    return [...this.series.keys()];
+  }
+
+  clear(): void {
+    this.series.clear();
+    this.latest = 0;
+  }
+
+  private getOrCreate(key: string): Series {
+    let series = this.series.get(key);
+    if (!series) {
+      series = { compacted: [], lastCount: 0, raw: [] };
+      this.series.set(key, series);
+    }
+    return series;
+  }
+
+  private append(key: string, sample: MetricsSample): void {
+    this.getOrCreate(key).raw.push(sample);
+    this.latest = Math.max(this.latest, sample.timestamp);
+  }
+
+  private compactedResolution(): number {
+    return Math.max(MIN_COMPACTED_RESOLUTION_MS, Math.ceil(this.retentionMs / MAX_COMPACTED_SAMPLES));
+  }
+
+  private prune(): void {
+    const cutoff = this.latest - this.retentionMs;
+    const rawCutoff = this.latest - RAW_WINDOW_MS;
+    const resolution = this.compactedResolution();
+
+    for (const [key, series] of this.series) {
+      while (series.raw[0] && series.raw[0].timestamp <= rawCutoff) {
+        const sample = series.raw.shift()!;
+        const bucket = Math.floor(sample.timestamp / resolution) * resolution;
+        const last = series.compacted[series.compacted.length - 1];
+
+        if (last && last.timestamp === bucket) {
+          averageInto(last, sample, series.lastCount);
+          series.lastCount++;
+        } else {
+          series.compacted.push({ ...sample, timestamp: bucket });
+          series.lastCount = 1;
+        }
+      }
+
+      // Both are oldest first
+      while (series.compacted[0] && series.compacted[0].timestamp <= cutoff) {
+        series.compacted.shift();
+      }
+      while (series.raw[0] && series.raw[0].timestamp <= cutoff) {
+        series.raw.shift();
+      }
+      // Containers gone for longer than the retention
+      if (series.compacted.length === 0 && series.raw.length === 0) {
+        this.series.delete(key);
+      }
+    }
+  }
+}
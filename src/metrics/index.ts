@@ -1,17 +1,70 @@
 import * as si from 'systeminformation';
 import { containerEngine } from '../engine/index.js';
-import type { SystemMetrics, ContainerMetrics } from '../types/index.js';
+import { MetricsHistory } from './history.js';
+import type { MetricsReplay } from './recording.js';
+import type { SystemMetrics, ContainerMetrics, MetricsFrame, MetricsSettings } from '../types/index.js';
+
+// Receives the time of the collection, which is the recorded one while replaying
+type MetricsListener = (system: SystemMetrics, containers: ContainerMetrics[], timestamp: number) => void;
 
 export class MetricsCollector {
   private updateInterval: NodeJS.Timeout | null = null;
   private systemMetrics: SystemMetrics | null = null;
   private containerMetrics: ContainerMetrics[] = [];
-  private listeners: Set<(system: SystemMetrics, containers: ContainerMetrics[]) => void> = new Set();
+  private lastUpdate = 0;
+  private listeners: Set<MetricsListener> = new Set();
+  private history = new MetricsHistory();
+  // Set while recorded metrics stand in for collected ones
+  private replaySource: MetricsReplay | undefined;
+  private stopReplay: (() => void) | undefined;
 
   constructor(private intervalMs = 2000) {}
 
+  // Applies the metrics section of cronos.yml; a running collector picks up the new interval
+  configure(settings: MetricsSettings = {}): void {
+    if (settings.interval !== undefined) {
+      this.intervalMs = settings.interval * 1000;
+    }
+    if (settings.retention !== undefined) {
+      this.history.setRetention(settings.retention * 1000);
+    }
+
+    if (this.updateInterval) {
+      this.stop();
+      this.schedule();
+    }
+  }
+
   async start(): Promise<void> {
+    if (this.replaySource) {
+      this.replaySource.start();
+      return;
+    }
+
     await this.collectMetrics();
+    this.schedule();
+  }
+
+  /**
+   * Takes metrics from a recording instead of the engine and the host,
+   * starting from an empty history. start() plays it; without that the
+   * replay can be stepped through frame by frame.
+   */
+  replay(source: MetricsReplay): void {
+    this.stop();
+    this.stopReplay?.();
+    this.history.clear();
+    this.lastUpdate = 0;
+
+    this.replaySource = source;
+    this.stopReplay = source.onFrame(frame => this.apply(frame));
+  }
+
+  isReplaying(): boolean {
+    return this.replaySource !== undefined;
+  }
+
+  private schedule(): void {
     this.updateInterval = setInterval(() => {
       this.collectMetrics();
     }, this.intervalMs);
@@ -22,6 +75,14 @@ export class MetricsCollector {
       clearInterval(this.updateInterval);
       this.updateInterval = null;
     }
+    this.replaySource?.stop();
+  }
+
+  // Collects now instead of waiting for the next tick, e.g. after limits changed
+  async refresh(): Promise<void> {
+    // A recording has nothing newer to offer
+    if (this.replaySource) return;
+    await this.collectMetrics();
   }
 
   private async collectMetrics(): Promise<void> {
@@ -31,15 +92,28 @@ export class MetricsCollector {
         this.collectContainerMetrics(),
       ]);
 
-      this.systemMetrics = systemData;
-      this.containerMetrics = containerData;
-
-      this.notifyListeners();
+      this.apply({ timestamp: Date.now(), system: systemData, containers: containerData });
     } catch (error) {
       console.error('Error collecting metrics:', error);
     }
   }
 
+  private apply(frame: MetricsFrame): void {
+    // A looping replay starts over in the past
+    if (frame.timestamp < this.lastUpdate) {
+      this.history.clear();
+    }
+
+    this.systemMetrics = frame.system;
+    this.containerMetrics = frame.containers;
+    this.lastUpdate = frame.timestamp;
+
+    this.history.recordSystem(frame.system, frame.timestamp);
+    this.history.recordContainers(frame.containers, frame.timestamp);
+
+    this.notifyListeners();
+  }
+
   private async collectSystemMetrics(): Promise<SystemMetrics> {
     const [cpu, memory] = await Promise.all([
       si.currentLoad(),
@@ -70,80 +144,18 @@ export class MetricsCollector {
 
   private async collectContainerMetrics(): Promise<ContainerMetrics[]> {
     try {
-      const statsOutput = await containerEngine.getStats();
-      return statsOutput
-        .map(line => this.parseContainerStats(line))
-        .filter((metric): metric is ContainerMetrics => metric !== null);
+      return await containerEngine.getContainerMetrics();
     } catch (error) {
       console.error('Error collecting container metrics:', error);
       return [];
     }
   }
 
-  private parseContainerStats(statsLine: string): ContainerMetrics | null {
-    try {
-      const parts = statsLine.split('\t').map(p => p.trim());
-      if (parts.length < 5) return null;
-
-      const [name, cpuPerc, memUsage, memPerc, netIO] = parts;
-
-      // Parse CPU percentage
-      const cpu = parseFloat(cpuPerc?.replace('%', '') || '0');
-
-      // Parse memory usage (format: "used / limit")
-      const memParts = memUsage?.split(' / ') || [];
-      const memUsed = this.parseMemoryValue(memParts[0] || '0');
-      const memLimit = this.parseMemoryValue(memParts[1] || '0');
-      const memPercentage = parseFloat(memPerc?.replace('%', '') || '0');
-
-      // Parse network I/O (format: "rx / tx")
-      const netParts = netIO?.split(' / ') || [];
-      const netRx = this.parseMemoryValue(netParts[0] || '0');
-      const netTx = this.parseMemoryValue(netParts[1] || '0');
-
-      return {
-        id: name || '',
-        name: name || '',
-        cpu: Math.round(cpu * 100) / 100,
-        memory: {
-          used: memUsed,
-          limit: memLimit,
-          percentage: Math.round(memPercentage * 100) / 100,
-        },
-        network: {
-          rx: netRx,
-          tx: netTx,
-        },
-      };
-    } catch (error) {
-      console.error('Error parsing container stats:', error);
-      return null;
-    }
-  }
-
-  private parseMemoryValue(value: string): number {
-    const cleaned = value.trim().toLowerCase();
-    const number = parseFloat(cleaned);
-
-    if (cleaned.includes('ki')) return number * 1024;
-    if (cleaned.includes('mi')) return number * 1024 * 1024;
-    if (cleaned.includes('gi')) return number * 1024 * 1024 * 1024;
-    if (cleaned.includes('ti')) return number * 1024 * 1024 * 1024 * 1024;
-
-    // Docker uses different suffixes
-    if (cleaned.includes('kb')) return number * 1000;
-    if (cleaned.includes('mb')) return number * 1000 * 1000;
-    if (cleaned.includes('gb')) return number * 1000 * 1000 * 1000;
-    if (cleaned.includes('tb')) return number * 1000 * 1000 * 1000 * 1000;
-
-    return number;
-  }
-
   private notifyListeners(): void {
     if (this.systemMetrics) {
       this.listeners.forEach(listener => {
         try {
-          listener(this.systemMetrics!, this.containerMetrics);
+          listener(this.systemMetrics!, this.containerMetrics, this.lastUpdate);
         } catch (error) {
           console.error('Error in metrics listener:', error);
         }
@@ -151,12 +163,12 @@ export class MetricsCollector {
     }
   }
 
-  onMetricsUpdate(callback: (system: SystemMetrics, containers: ContainerMetrics[]) => void): () => void {
+  onMetricsUpdate(callback: MetricsListener): () => void {
     this.listeners.add(callback);
 
     // Send current metrics immediately if available
     if (this.systemMetrics) {
-      callback(this.systemMetrics, this.containerMetrics);
+      callback(this.systemMetrics, this.containerMetrics, this.lastUpdate);
     }
 
     // Return unsubscribe function
@@ -172,6 +184,10 @@ export class MetricsCollector {
     };
   }
 
+  getHistory(): MetricsHistory {
+    return this.history;
+  }
+
   formatMemory(bytes: number): string {
     const sizes = ['B', 'KB', 'MB', 'GB', 'TB'];
     if (bytes === 0) return '0 B';
@@ -0,0 +1,112 @@
+import { createServer, type Server } from 'http';
+import { containerEngine } from '../engine/index.js';
+import { ComposeLabelCache } from '../engine/labels.js';
+import type { MetricsCollector } from './index.js';
+import type { ComposeLabels, ContainerMetrics, SystemMetrics } from '../types/index.js';
+
+export const DEFAULT_EXPORTER_PORT = 9464;
+
+const CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+const LOAD_PERIODS = ['1m', '5m', '15m'];
+
+type MetricType = 'gauge' | 'counter';
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function formatLabels(labels: Record<string, string>): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabel(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+/**
+ * Renders metrics in the Prometheus text exposition format. Containers
+ * carry their compose service and project as labels; both are empty for
+ * containers compose did not create.
+ */
+export function formatPrometheusMetrics(
+  system: SystemMetrics,
+  containers: ContainerMetrics[],
+  compose: Map<string, ComposeLabels> = new Map(),
+): string {
+  const lines: string[] = [];
+  const family = (name: string, type: MetricType, help: string, samples: [Record<string, string>, number][]) => {
+    lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`);
+    samples.forEach(([labels, value]) => lines.push(`${name}${formatLabels(labels)} ${value}`));
+  };
+  const perContainer = (value: (container: ContainerMetrics) => number): [Record<string, string>, number][] =>
+    containers.map(container => [{
+      container: container.name,
+      service: compose.get(container.name)?.service ?? '',
+      project: compose.get(container.name)?.project ?? '',
+    }, value(container)]);
+
+  family('cronos_host_cpu_usage_percent', 'gauge', 'CPU usage of the host in percent.', [[{}, system.cpu]]);
+  family('cronos_host_memory_used_bytes', 'gauge', 'Memory used on the host.', [[{}, system.memory.used]]);
+  family('cronos_host_memory_total_bytes', 'gauge', 'Memory installed on the host.', [[{}, system.memory.total]]);
+  family('cronos_host_load_average', 'gauge', 'Load average of the host.',
+    system.loadAvg.map((load, index): [Record<string, string>, number] => [{ period: LOAD_PERIODS[index] ?? String(index) }, load]));
+
+  family('cronos_container_cpu_usage_percent', 'gauge', 'CPU usage of the container in percent of one core.', perContainer(container => container.cpu));
+  family('cronos_container_memory_usage_bytes', 'gauge', 'Memory used by the container.', perContainer(container => container.memory.used));
+  family('cronos_container_memory_limit_bytes', 'gauge', 'Memory limit of the container.', perContainer(container => container.memory.limit));
+  family('cronos_container_memory_usage_percent', 'gauge', 'Memory used by the container in percent of its limit.', perContainer(container => container.memory.percentage));
+  family('cronos_container_network_receive_bytes_total', 'counter', 'Bytes the container received.', perContainer(container => container.network.rx));
+  family('cronos_container_network_transmit_bytes_total', 'counter', 'Bytes the container sent.', perContainer(container => container.network.tx));
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Serves the collector's latest metrics at /metrics. Scrapes answer from
+ * what the collector last delivered, so they never trigger a collection.
+ */
+export class PrometheusExporter {
+  private server: Server | undefined;
+  private unsubscribe: (() => void) | undefined;
+  private system: SystemMetrics | null = null;
+  private containers: ContainerMetrics[] = [];
+  private compose: ComposeLabelCache = new ComposeLabelCache(() => containerEngine.listContainers());
+
+  constructor(private collector: MetricsCollector) {}
+
+  async listen(port = DEFAULT_EXPORTER_PORT, host = '127.0.0.1'): Promise<void> {
+    this.unsubscribe = this.collector.onMetricsUpdate((system, containers) => {
+      this.system = system;
+      this.containers = containers;
+      this.compose.refresh(containers.map(container => container.name));
+    });
+
+    this.server = createServer((request, response) => {
+      const path = (request.url || '/').split('?')[0];
+
+      if (path === '/metrics') {
+        if (!this.system) {
+          response.writeHead(503, { 'Content-Type': 'text/plain' }).end('No metrics collected yet\n');
+          return;
+        }
+        response.writeHead(200, { 'Content-Type': CONTENT_TYPE }).end(formatPrometheusMetrics(this.system, this.containers, this.compose.getAll()));
+      } else if (path === '/') {
+        response.writeHead(200, { 'Content-Type': 'text/plain' }).end('Cronos metrics exporter - scrape /metrics\n');
+      } else {
+        response.writeHead(404, { 'Content-Type': 'text/plain' }).end('Not found\n');
+      }
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(port, host, () => {
+        this.server!.off('error', reject);
+        resolve();
+      });
+    });
+  }
+
+  async close(): Promise<void> {
+    this.unsubscribe?.();
+    this.unsubscribe = undefined;
+    await new Promise<void>(resolve => this.server ? this.server.close(() => resolve()) : resolve());
+    this.server = undefined;
+  }
+}
@@ -0,0 +1,131 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { MetricsCollector } from './index.js';
+import { HOST_SERIES } from './history.js';
+import { MetricsRecorder, MetricsReplay, parseRecording, readRecording } from './recording.js';
+import { containerMetrics, metricsFrame } from '../test-support/metrics.js';
+import type { MetricsFrame } from '../types/index.js';
+
+// Host and web container at the same CPU; web's counters grow 100 bytes a second
+function frame(timestamp: number, cpu: number): MetricsFrame {
+  return metricsFrame(timestamp, cpu, [containerMetrics('web', { cpu, rx: timestamp / 10 })]);
+}
+
+describe('parseRecording', () => {
+  it('reads one frame per line, oldest first', () => {
+    const content = [frame(3000, 30), frame(1000, 10), frame(2000, 20)].map(item => JSON.stringify(item)).join('\n');
+
+    expect(parseRecording(`${content}\n\n`).map(item => item.timestamp)).toEqual([1000, 2000, 3000]);
+  });
+
+  it('names the line that is not a frame', () => {
+    const content = `${JSON.stringify(frame(1000, 10))}\n{"timestamp":2000}\n`;
+
+    expect(() => parseRecording(content, 'run.ndjson')).toThrow('run.ndjson:2: not a metrics frame - expected timestamp, system and containers');
+    expect(() => parseRecording('{not json', 'run.ndjson')).toThrow(/^run\.ndjson:1: /);
+  });
+});
+
+describe('MetricsRecorder', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'cronos-recording-'));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('writes the frames a replay delivers back out as a readable recording', async () => {
+    const frames = [frame(1000, 10), frame(3000, 30)];
+    const collector = new MetricsCollector();
+    const replay = new MetricsReplay(frames);
+    collector.replay(replay);
+
+    const recorder = new MetricsRecorder(collector);
+    const path = join(directory, 'run.ndjson');
+    await recorder.start(path);
+    while (replay.step());
+    await recorder.stop();
+
+    expect(recorder.getFrameCount()).toBe(2);
+    expect(await readRecording(path)).toEqual(frames);
+  });
+
+  it('rejects a recording without frames', async () => {
+    const path = join(directory, 'empty.ndjson');
+    writeFileSync(path, '\n');
+
+    await expect(readRecording(path)).rejects.toThrow(`${path} holds no metrics frames`);
+  });
+});
+
+describe('MetricsReplay', () => {
+  it('refuses empty recordings and speeds that are not positive', () => {
+    expect(() => new MetricsReplay([])).toThrow('Nothing to replay - the recording has no frames');
+    expect(() => new MetricsReplay([frame(1000, 10)], { speed: 0 })).toThrow('Invalid replay speed: 0');
+  });
+
+  it('feeds the collector one frame per step with the recorded timestamps', () => {
+    const collector = new MetricsCollector();
+    const replay = new MetricsReplay([frame(1000, 10), frame(3000, 30), frame(5000, 50)]);
+    const onEnd = jest.fn();
+    replay.onEnd = onEnd;
+    collector.replay(replay);
+
+    const received: [number, number][] = [];
+    collector.onMetricsUpdate((system, _containers, timestamp) => received.push([timestamp, system.cpu]));
+
+    while (replay.step());
+
+    expect(received).toEqual([[1000, 10], [3000, 30], [5000, 50]]);
+    expect(replay.isFinished()).toBe(true);
+    expect(replay.getPosition()).toEqual({ frame: 3, frames: 3 });
+    expect(onEnd).toHaveBeenCalledTimes(1);
+    expect(replay.step()).toBeUndefined();
+
+    expect(collector.isReplaying()).toBe(true);
+    expect(collector.getHistory().getSamples(HOST_SERIES, 60000).map(sample => sample.cpu)).toEqual([10, 30, 50]);
+    // Network rates come from the recorded counters and timestamps
+    expect(collector.getHistory().getSamples('web', 60000).map(sample => sample.rxRate)).toEqual([0, 100, 100]);
+  });
+
+  it('starts the history over when a looping replay wraps around', () => {
+    const collector = new MetricsCollector();
+    const replay = new MetricsReplay([frame(1000, 10), frame(3000, 30)], { loop: true });
+    collector.replay(replay);
+
+    replay.step();
+    replay.step();
+    expect(replay.step()?.timestamp).toBe(1000);
+
+    expect(replay.isFinished()).toBe(false);
+    expect(collector.getHistory().getSamples(HOST_SERIES, 60000).map(sample => sample.timestamp)).toEqual([1000]);
+  });
+
+  it('plays frames with their recorded spacing scaled by the speed', () => {
+    jest.useFakeTimers();
+    try {
+      const replay = new MetricsReplay([frame(1000, 10), frame(5000, 50), frame(6000, 60)], { speed: 2 });
+      const played: number[] = [];
+      replay.onFrame(item => played.push(item.timestamp));
+
+      replay.start();
+      expect(played).toEqual([1000]);
+
+      jest.advanceTimersByTime(1999);
+      expect(played).toEqual([1000]);
+      jest.advanceTimersByTime(1);
+      expect(played).toEqual([1000, 5000]);
+
+      replay.setSpeed(0.5);
+      jest.advanceTimersByTime(2000);
+      expect(played).toEqual([1000, 5000, 6000]);
+      expect(replay.isPlaying()).toBe(false);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,224 @@
+import { createWriteStream, promises as fs, type WriteStream } from 'fs';
+import type { MetricsCollector } from './index.js';
+import type { MetricsFrame } from '../types/index.js';
+
+// Used for recordings too short to tell their sampling interval
+const DEFAULT_FRAME_GAP_MS = 2000;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+function isFrame(value: unknown): value is MetricsFrame {
+  return isObject(value)
+    && typeof value.timestamp === 'number'
+    && isObject(value.system)
+    && typeof value.system.cpu === 'number'
+    && Array.isArray(value.containers);
+}
+
+/**
+ * Reads a recording written by MetricsRecorder. Frames come back oldest
+ * first, whatever order the file has them in.
+ */
+export function parseRecording(content: string, source = 'recording'): MetricsFrame[] {
+  const frames: MetricsFrame[] = [];
+
+  content.split('\n').forEach((line, index) => {
+    if (!line.trim()) return;
+
+    let frame: unknown;
+    try {
+      frame = JSON.parse(line);
+    } catch (error) {
+      throw new Error(`${source}:${index + 1}: ${(error as Error).message}`);
+    }
+    if (!isFrame(frame)) {
+      throw new Error(`${source}:${index + 1}: not a metrics frame - expected timestamp, system and containers`);
+    }
+    frames.push(frame);
+  });
+
+  return frames.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+export async function readRecording(path: string): Promise<MetricsFrame[]> {
+  const frames = parseRecording(await fs.readFile(path, 'utf8'), path);
+  if (frames.length === 0) {
+    throw new Error(`${path} holds no metrics frames`);
+  }
+  return frames;
+}
+
+/**
+ * Writes every frame the collector delivers to an NDJSON file, one frame
+ * per line, so a recording cut short is still readable.
+ */
+export class MetricsRecorder {
+  private output: WriteStream | undefined;
+  private unsubscribe: (() => void) | undefined;
+  private frames = 0;
+
+  constructor(private collector: MetricsCollector) {}
+
+  async start(path: string): Promise<void> {
+    const output = createWriteStream(path, { flags: 'w' });
+    await new Promise<void>((resolve, reject) => {
+      output.once('error', reject);
+      output.once('open', () => {
+        output.off('error', reject);
+        resolve();
+      });
+    });
+
+    // A full disk or a removed file ends the recording rather than the process
+    output.on('error', error => {
+      this.unsubscribe?.();
+      this.unsubscribe = undefined;
+      this.output = undefined;
+      this.onError?.(error);
+    });
+
+    this.output = output;
+    this.unsubscribe = this.collector.onMetricsUpdate((system, containers, timestamp) => {
+      const frame: MetricsFrame = { timestamp, system, containers };
+      output.write(`${JSON.stringify(frame)}\n`);
+      this.frames++;
+    });
+  }
+
+  // Set by the owner to hear that writing failed and the recording stopped
+  onError?: (error: Error) => void;
+
+  getFrameCount(): number {
+    return this.frames;
+  }
+
+  async stop(): Promise<void> {
+    this.unsubscribe?.();
+    this.unsubscribe = undefined;
+
+    const output = this.output;
+    this.output = undefined;
+    if (output) {
+      await new Promise<void>(resolve => output.end(() => resolve()));
+    }
+  }
+}
+
+export interface MetricsReplayOptions {
+  // 2 plays twice as fast as recorded
+  speed?: number | undefined;
+  // Start over after the last frame
+  loop?: boolean | undefined;
+}
+
+/**
+ * Plays recorded frames back with their original spacing, scaled by the
+ * speed. Nothing is emitted until start(); step() emits the next frame
+ * right away, which makes a replay a deterministic metrics source.
+ */
+export class MetricsReplay {
+  private index = 0;
+  private speed: number;
+  private loop: boolean;
+  private timer: NodeJS.Timeout | undefined;
+  private listeners: Set<(frame: MetricsFrame) => void> = new Set();
+
+  constructor(private frames: MetricsFrame[], options: MetricsReplayOptions = {}) {
+    this.speed = options.speed ?? 1;
+    this.loop = options.loop ?? false;
+    if (!(this.speed > 0)) {
+      throw new Error(`Invalid replay speed: ${options.speed}`);
+    }
+    if (frames.length === 0) {
+      throw new Error('Nothing to replay - the recording has no frames');
+    }
+  }
+
+  onFrame(callback: (frame: MetricsFrame) => void): () => void {
+    this.listeners.add(callback);
+    return () => {
+      this.listeners.delete(callback);
+    };
+  }
+
+  start(): void {
+    if (this.timer || this.isFinished()) return;
+    this.step();
+    this.schedule();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  isPlaying(): boolean {
+    return this.timer !== undefined;
+  }
+
+  // Emits the next frame now; undefined once the recording is played out
+  step(): MetricsFrame | undefined {
+    if (this.isFinished()) return undefined;
+    if (this.index >= this.frames.length) {
+      this.index = 0;
+    }
+
+    const frame = this.frames[this.index++]!;
+    this.listeners.forEach(listener => listener(frame));
+    if (this.isFinished()) {
+      this.onEnd?.();
+    }
+    return frame;
+  }
+
+  isFinished(): boolean {
+    return !this.loop && this.index >= this.frames.length;
+  }
+
+  getSpeed(): number {
+    return this.speed;
+  }
+
+  // While playing, the wait for the next frame starts over at the new speed
+  setSpeed(speed: number): void {
+    if (!(speed > 0)) {
+      throw new Error(`Invalid replay speed: ${speed}`);
+    }
+    this.speed = speed;
+
+    if (this.timer) {
+      this.stop();
+      this.schedule();
+    }
+  }
+
+  getPosition(): { frame: number; frames: number } {
+    return { frame: this.index, frames: this.frames.length };
+  }
+
+  private schedule(): void {
+    if (this.isFinished()) return;
+
+    const previous = this.frames[this.index - 1];
+    const next = this.frames[this.index];
+    const [first, second] = this.frames;
+    const gapMs = previous && next
+      ? next.timestamp - previous.timestamp
+      // Looping back to the start waits as long as the first frames are apart
+      : (first && second ? second.timestamp - first.timestamp : 0) || DEFAULT_FRAME_GAP_MS;
+    const delayMs = Math.max(gapMs, 0) / this.speed;
+
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.step();
+      this.schedule();
+    }, delayMs);
+  }
+
+  // Set by the owner, e.g. to say the replay is over
+  onEnd?: () => void;
+}
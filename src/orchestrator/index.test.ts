@@ -0,0 +1,47 @@
+import { planServiceLevels } from './index.js';
+import type { ServiceConfig } from '../types/index.js';
+
+function service(name: string, ...dependencies: string[]): ServiceConfig {
+  return {
+    name,
+    directory: `/srv/${name}`,
+    depends_on: dependencies.map(dependency => ({ service: dependency, condition: 'started' })),
+  };
+}
+
+function names(levels: ServiceConfig[][]): string[][] {
+  return levels.map(level => level.map(item => item.name));
+}
+
+describe('planServiceLevels', () => {
+  it('puts every service after the ones it depends on', () => {
+    const levels = planServiceLevels([
+      service('web', 'api'),
+      service('api', 'db', 'cache'),
+      service('db'),
+      service('cache'),
+      service('docs'),
+    ]);
+
+    expect(names(levels)).toEqual([['db', 'cache', 'docs'], ['api'], ['web']]);
+  });
+
+  it('runs independent services on one level', () => {
+    expect(names(planServiceLevels([service('a'), service('b')]))).toEqual([['a', 'b']]);
+    expect(planServiceLevels([])).toEqual([]);
+  });
+
+  it('rejects dependencies on services that are not configured', () => {
+    expect(() => planServiceLevels([service('api', 'db')])).toThrow('Service \'api\' depends on unknown service \'db\'');
+  });
+
+  it('names the services of a dependency cycle', () => {
+    const services = [service('db'), service('api', 'db', 'worker'), service('worker', 'queue'), service('queue', 'api')];
+
+    expect(() => planServiceLevels(services)).toThrow('Dependency cycle: api -> worker -> queue -> api');
+  });
+
+  it('treats a service depending on itself as a cycle', () => {
+    expect(() => planServiceLevels([service('api', 'api')])).toThrow('Dependency cycle: api -> api');
+  });
+});
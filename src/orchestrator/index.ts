@@ -0,0 +1,135 @@
+import { configManager } from '../config/index.js';
+import { containerEngine } from '../engine/index.js';
+import type {
+  ContainerInfo,
+  OrchestrationOptions,
+  OrchestrationStep,
+  ServiceConfig,
+} from '../types/index.js';
+
+/**
+ * Groups services into levels so that every service comes after the ones
+ * it depends on. Services within a level are independent of each other.
+ * Throws on unknown dependencies and on cycles.
+ */
+export function planServiceLevels(services: ServiceConfig[]): ServiceConfig[][] {
+  const byName = new Map(services.map(service => [service.name, service]));
+  const remaining = new Map<string, Set<string>>();
+
+  for (const service of services) {
+    const dependencies = new Set<string>();
+
+    for (const dependency of service.depends_on || []) {
+      if (!byName.has(dependency.service)) {
+        throw new Error(`Service '${service.name}' depends on unknown service '${dependency.service}'`);
+      }
+      dependencies.add(dependency.service);
+    }
+
+    remaining.set(service.name, dependencies);
+  }
+
+  const levels: ServiceConfig[][] = [];
+  while (remaining.size > 0) {
+    const ready = [...remaining].filter(([, dependencies]) => dependencies.size === 0).map(([name]) => name);
+    if (ready.length === 0) {
+      throw new Error(`Dependency cycle: ${findCycle(remaining).join(' -> ')}`);
+    }
+
+    levels.push(ready.map(name => byName.get(name)!));
+    for (const name of ready) {
+      remaining.delete(name);
+    }
+    for (const dependencies of remaining.values()) {
+      ready.forEach(name => dependencies.delete(name));
+    }
+  }
+
+  return levels;
+}
+
+// Every service left over has an unresolved dependency, so following them must loop
+function findCycle(remaining: Map<string, Set<string>>): string[] {
+  const path: string[] = [];
+  let current = remaining.keys().next().value as string;
+
+  while (!path.includes(current)) {
+    path.push(current);
+    current = remaining.get(current)!.values().next().value as string;
+  }
+
+  return [...path.slice(path.indexOf(current)), current];
+}
+
+// Containers belong to a configured service through their compose labels
+function belongsToService(container: ContainerInfo, service: string): boolean {
+  return configManager.findServiceForContainer(container)?.name === service;
+}
+
+/**
+ * Starts and stops the services from cronos.yml in dependency order, one
+ * level at a time, running the services of a level in parallel.
+ */
+export class ServiceOrchestrator {
+  async startAll(options: OrchestrationOptions = {}): Promise<void> {
+    const levels = planServiceLevels(configManager.getServices());
+
+    for (const [level, services] of levels.entries()) {
+      await this.runLevel(services, level, options, async service => {
+        const healthy = (service.depends_on || [])
+          .filter(dependency => dependency.condition === 'healthy')
+          .map(dependency => dependency.service);
+
+        if (healthy.length > 0) {
+          this.notify(options, { service: service.name, action: 'waiting', level, dependencies: healthy });
+          await containerEngine.waitForContainers(healthy, {
+            healthy: true,
+            timeoutMs: options.timeoutMs,
+            matches: belongsToService,
+          });
+        }
+
+        this.notify(options, { service: service.name, action: 'starting', level });
+        await containerEngine.startServices([], configManager.resolveServiceContext(service), service.engine);
+        this.notify(options, { service: service.name, action: 'started', level });
+      });
+    }
+  }
+
+  // Dependents go down before the services they rely on
+  async stopAll(options: OrchestrationOptions = {}): Promise<void> {
+    const levels = planServiceLevels(configManager.getServices());
+
+    for (const [level, services] of [...levels.entries()].reverse()) {
+      await this.runLevel(services, level, options, async service => {
+        this.notify(options, { service: service.name, action: 'stopping', level });
+        await containerEngine.stopServices([], configManager.resolveServiceContext(service), service.engine);
+        this.notify(options, { service: service.name, action: 'stopped', level });
+      });
+    }
+  }
+
+  // Lets the whole level finish before failing, so nothing is left half-started
+  private async runLevel(
+    services: ServiceConfig[],
+    level: number,
+    options: OrchestrationOptions,
+    run: (service: ServiceConfig) => Promise<void>,
+  ): Promise<void> {
+    const results = await Promise.allSettled(services.map(service => run(service).catch(error => {
+      this.notify(options, { service: service.name, action: 'failed', level });
+      throw error;
+    })));
+    const failure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+
+    if (failure) {
+      throw failure.reason;
+    }
+  }
+
+  private notify(options: OrchestrationOptions, step: OrchestrationStep): void {
+    options.onStep?.(step);
+  }
+}
+
+export const serviceOrchestrator = new ServiceOrchestrator();
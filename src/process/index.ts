@@ -0,0 +1,176 @@
+import { spawn } from 'child_process';
+import { constants } from 'os';
+import type { ChildProcess } from 'child_process';
+import { PassThrough } from 'stream';
+import type { Readable } from 'stream';
+import type { CommandFailure, ProcessStream, RunOptions, RunResult, StreamOptions } from '../types/process.js';
+
+const STDERR_TAIL_LINES = 10;
+const KILL_GRACE_MS = 2000;
+
+/**
+ * A command that exited non-zero, timed out or was cancelled. Only the
+ * tail of stderr is kept; that is where tools put the actual error.
+ */
+export class ProcessError extends Error {
+  readonly command: string;
+  readonly args: string[];
+  readonly exitCode: number | null;
+  readonly stderr: string;
+  readonly timedOut: boolean;
+  readonly cancelled: boolean;
+
+  constructor(failure: CommandFailure) {
+    const stderr = failure.stderr.trim().split('\n').slice(-STDERR_TAIL_LINES).join('\n');
+    const lastLine = stderr.split('\n').pop() || '';
+
+    super(`${[failure.command, ...failure.args].join(' ')} ${describeExit(failure)}${lastLine ? `: ${lastLine}` : ''}`);
+    this.name = new.target.name;
+    this.command = failure.command;
+    this.args = failure.args;
+    this.exitCode = failure.exitCode;
+    this.stderr = stderr;
+    this.timedOut = failure.timedOut ?? false;
+    this.cancelled = failure.cancelled ?? false;
+  }
+}
+
+function describeExit(failure: CommandFailure): string {
+  if (failure.httpStatus !== undefined) return `failed (${failure.httpStatus})`;
+  if (failure.timedOut) return 'timed out';
+  if (failure.cancelled) return 'was cancelled';
+  if (failure.exitCode === null) return 'was terminated';
+  return `exited with code ${failure.exitCode}`;
+}
+
+/**
+ * Runs a command with an argument vector - never through a shell, so
+ * arguments reach the program exactly as given.
+ */
+export function runProcess(command: string, args: string[], options: RunOptions = {}): Promise<RunResult> {
+  const createError = options.createError || ((failure: CommandFailure) => new ProcessError(failure));
+
+  return new Promise((resolve, reject) => {
+    if (options.signal?.aborted) {
+      reject(createError({ command, args, exitCode: null, stderr: '', cancelled: true }));
+      return;
+    }
+
+    const child = spawn(command, args, {
+      cwd: options.cwd,
+      env: options.env,
+      stdio: ['ignore', 'pipe', 'pipe'],
+    });
+
+    let stdout = '';
+    let stderr = '';
+    let timedOut = false;
+    let cancelled = false;
+
+    child.stdout.on('data', (chunk: Buffer) => {
+      stdout += chunk.toString();
+      options.onOutput?.(chunk.toString());
+    });
+
+    child.stderr.on('data', (chunk: Buffer) => {
+      stderr += chunk.toString();
+      options.onOutput?.(chunk.toString());
+    });
+
+    const timer = options.timeoutMs ? setTimeout(() => {
+      timedOut = true;
+      terminate(child);
+    }, options.timeoutMs) : null;
+
+    const handleAbort = () => {
+      cancelled = true;
+      terminate(child);
+    };
+    options.signal?.addEventListener('abort', handleAbort, { once: true });
+
+    const cleanup = () => {
+      if (timer) clearTimeout(timer);
+      options.signal?.removeEventListener('abort', handleAbort);
+    };
+
+    child.on('error', (error: NodeJS.ErrnoException) => {
+      cleanup();
+      // Spawn failures (e.g. ENOENT) look like a shell's "command not found"
+      reject(createError({ command, args, exitCode: error.code === 'ENOENT' ? 127 : null, stderr: error.message }));
+    });
+
+    child.on('close', (code) => {
+      cleanup();
+
+      if (code === 0 && !timedOut && !cancelled) {
+        resolve({ stdout, stderr, exitCode: 0 });
+        return;
+      }
+
+      if (timedOut) {
+        stderr += `\nTimed out after ${options.timeoutMs}ms`;
+      }
+      reject(createError({ command, args, exitCode: code, stderr, timedOut, cancelled }));
+    });
+  });
+}
+
+/**
+ * Runs a command attached to this terminal (shells, editors) and resolves
+ * with its exit code once the user is done.
+ */
+export function runInteractive(command: string, args: string[], options: { cwd?: string | undefined } = {}): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { cwd: options.cwd, stdio: 'inherit' });
+
+    child.on('error', reject);
+    child.on('close', (code, signal) => {
+      resolve(code ?? (signal ? 128 + (constants.signals[signal] || 0) : 1));
+    });
+  });
+}
+
+/**
+ * Starts a long-running command (logs, events) and hands back its output
+ * as a stream. Calling stop() or aborting the signal ends the process.
+ */
+export function streamProcess(command: string, args: string[], options: StreamOptions = {}): ProcessStream {
+  const child = spawn(command, args, {
+    cwd: options.cwd,
+    stdio: ['ignore', 'pipe', options.mergeStderr ? 'pipe' : 'ignore'],
+  });
+
+  let stream: Readable = child.stdout!;
+  if (options.mergeStderr) {
+    const output = new PassThrough();
+    child.stdout!.pipe(output, { end: false });
+    child.stderr!.pipe(output, { end: false });
+    child.on('close', () => output.end());
+    stream = output;
+  }
+
+  // A missing binary should end the stream, not crash the process
+  child.on('error', (error) => {
+    stream.destroy(error);
+  });
+
+  const stop = () => terminate(child);
+  options.signal?.addEventListener('abort', stop, { once: true });
+  child.on('close', () => options.signal?.removeEventListener('abort', stop));
+  // Destroying the stream ends the command behind it
+  stream.on('close', stop);
+
+  return { stream, stop };
+}
+
+function terminate(child: ChildProcess): void {
+  if (child.exitCode !== null || child.signalCode !== null) return;
+
+  child.kill('SIGTERM');
+  const timer = setTimeout(() => {
+    if (child.exitCode === null && child.signalCode === null) {
+      child.kill('SIGKILL');
+    }
+  }, KILL_GRACE_MS);
+  timer.unref();
+}
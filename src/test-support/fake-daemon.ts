@@ -0,0 +1,58 @@
+import { createServer, type IncomingMessage, type Server } from 'http';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+export interface DaemonCall {
+  method: string;
+  url: string;
+  body: string;
+}
+
+// Status and JSON body to answer a call with
+export type DaemonHandler = (request: IncomingMessage, body: string) => [number, unknown?];
+
+/**
+ * Stands in for the engine daemon on a unix socket in a temporary
+ * directory. Answers /_ping like the engine and records every other call.
+ */
+export class FakeDaemon {
+  readonly calls: DaemonCall[] = [];
+  private server: Server;
+
+  private constructor(readonly directory: string, readonly socketPath: string, handle: DaemonHandler) {
+    this.server = createServer((request, response) => {
+      let body = '';
+      request.on('data', chunk => body += chunk);
+      request.on('end', () => {
+        if (request.url === '/_ping') {
+          response.end('OK');
+          return;
+        }
+        this.calls.push({ method: request.method ?? '', url: request.url ?? '', body });
+
+        const [status, payload] = handle(request, body);
+        response.writeHead(status, { 'Content-Type': 'application/json' });
+        response.end(payload === undefined ? '' : JSON.stringify(payload));
+      });
+    });
+  }
+
+  static async start(handle: DaemonHandler = () => [200]): Promise<FakeDaemon> {
+    const directory = mkdtempSync(join(tmpdir(), 'cronos-daemon-'));
+    const daemon = new FakeDaemon(directory, join(directory, 'engine.sock'), handle);
+
+    await new Promise<void>(resolve => daemon.server.listen(daemon.socketPath, () => resolve()));
+    return daemon;
+  }
+
+  // A socket path next to this daemon's that nothing listens on
+  missingSocket(): string {
+    return join(this.directory, 'missing.sock');
+  }
+
+  async close(): Promise<void> {
+    await new Promise<void>(resolve => this.server.close(() => resolve()));
+    rmSync(this.directory, { recursive: true, force: true });
+  }
+}
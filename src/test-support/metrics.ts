@@ -0,0 +1,34 @@
+import type { ContainerMetrics, MetricsFrame } from '../types/index.js';
+
+export const MB = 1024 * 1024;
+
+export interface ContainerSample {
+  cpu?: number | undefined;
+  // Bytes
+  memory?: number | undefined;
+  limit?: number | undefined;
+  // Received bytes so far
+  rx?: number | undefined;
+}
+
+export function containerMetrics(name: string, sample: ContainerSample = {}): ContainerMetrics {
+  const used = sample.memory ?? 64 * MB;
+  const limit = sample.limit ?? 1024 * MB;
+
+  return {
+    id: `${name}-id`,
+    name,
+    cpu: sample.cpu ?? 0,
+    memory: { used, limit, percentage: Math.round((used / limit) * 100) },
+    network: { rx: sample.rx ?? 0, tx: 0 },
+  };
+}
+
+// One collection round with the given host CPU
+export function metricsFrame(timestamp: number, cpu: number, containers: ContainerMetrics[] = []): MetricsFrame {
+  return {
+    timestamp,
+    system: { cpu, memory: { used: 1024 * MB, total: 4096 * MB, percentage: 25 }, loadAvg: [0, 0, 0] },
+    containers,
+  };
+}
@@ -0,0 +1,10 @@
+import 'blessed';
+
+declare module 'blessed' {
+  namespace Widgets {
+    interface ListElement {
+      // Index of the highlighted item, which @types/blessed leaves out
+      selected: number;
+    }
+  }
+}
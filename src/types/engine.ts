@@ -0,0 +1,326 @@
+import type { Readable } from 'stream';
+import type {
+  ComposeContext,
+  ContainerEngine,
+  ContainerFileEntry,
+  ContainerInfo,
+  ContainerMetrics,
+  ContainerRemoveOptions,
+  DiskUsageReport,
+  ImageBuildOptions,
+  ImageInfo,
+  ImageSearchResult,
+  NetworkCreateOptions,
+  NetworkInfo,
+  ResourceLimits,
+  VolumeCreateOptions,
+  VolumeInfo,
+} from './index.js';
+import type { ContainerRunOptions } from './registry.js';
+
+export interface EngineCapabilities {
+  api: boolean;
+  events: boolean;
+  stats: boolean;
+  pause: boolean;
+  composeProfiles: boolean;
+}
+
+export interface EngineEventStream {
+  stream: NodeJS.ReadableStream;
+  stop: () => void;
+}
+
+export interface EngineDriver {
+  readonly name: ContainerEngine;
+  readonly cli: string;
+  readonly capabilities: EngineCapabilities;
+
+  isAvailable(): Promise<boolean>;
+  isComposeAvailable(): Promise<boolean>;
+  connect(): Promise<void>;
+  isUsingApi(): boolean;
+
+  listContainers(): Promise<ContainerInfo[]>;
+  startServices(services: string[], context?: ComposeContext): Promise<void>;
+  stopServices(services: string[], context?: ComposeContext): Promise<void>;
+  restartServices(services: string[], context?: ComposeContext): Promise<void>;
+  recreateServices(services: string[], context?: ComposeContext): Promise<void>;
+  pauseContainer(nameOrId: string): Promise<void>;
+  unpauseContainer(nameOrId: string): Promise<void>;
+  killContainer(nameOrId: string, signal?: string): Promise<void>;
+  stopContainer(nameOrId: string): Promise<void>;
+  removeContainer(nameOrId: string, options?: ContainerRemoveOptions): Promise<void>;
+  detectShell(nameOrId: string): Promise<string>;
+  // Interactive sessions need the caller's terminal, so callers spawn this themselves
+  execArgv(nameOrId: string, command: string[], interactive: boolean): string[];
+  getLogs(service?: string, follow?: boolean, context?: ComposeContext): Promise<Readable>;
+  getContainerLogs(nameOrId: string, follow?: boolean): Promise<Readable>;
+  getContainerMetrics(): Promise<ContainerMetrics[]>;
+  inspect(nameOrId: string): Promise<unknown>;
+  listContainerFiles(nameOrId: string, directory: string): Promise<ContainerFileEntry[]>;
+  // At most maxBytes from the start of the file
+  readContainerFile(nameOrId: string, path: string, maxBytes: number): Promise<string>;
+  copyFromContainer(nameOrId: string, containerPath: string, hostPath: string): Promise<void>;
+  copyToContainer(nameOrId: string, hostPath: string, containerPath: string): Promise<void>;
+  updateContainer(nameOrId: string, limits: ResourceLimits): Promise<void>;
+  getDiskUsage(): Promise<DiskUsageReport>;
+  pullImage(image: string): Promise<void>;
+  searchImages(query: string, limit: number): Promise<ImageSearchResult[]>;
+  listImages(): Promise<ImageInfo[]>;
+  inspectImage(image: string): Promise<unknown>;
+  runContainer(options: ContainerRunOptions): Promise<string>;
+  buildServices(services: string[], context?: ComposeContext, options?: BuildRunOptions): Promise<void>;
+  buildImage(image: ImageBuildOptions, options?: BuildRunOptions): Promise<void>;
+  streamEvents(): Promise<EngineEventStream>;
+
+  listNetworks(): Promise<NetworkInfo[]>;
+  inspectNetwork(nameOrId: string): Promise<unknown>;
+  createNetwork(name: string, options?: NetworkCreateOptions): Promise<void>;
+  removeNetwork(nameOrId: string): Promise<void>;
+  listVolumes(): Promise<VolumeInfo[]>;
+  inspectVolume(name: string): Promise<unknown>;
+  createVolume(name: string, options?: VolumeCreateOptions): Promise<void>;
+  removeVolume(name: string, force?: boolean): Promise<void>;
+}
+
+// Drivers hand back raw builder output; the manager parses it into steps
+export interface BuildRunOptions {
+  noCache?: boolean | undefined;
+  pull?: boolean | undefined;
+  signal?: AbortSignal | undefined;
+  onOutput?: ((chunk: string) => void) | undefined;
+}
+
+// Networks and named volumes one container uses
+export interface ContainerUsage {
+  name: string;
+  networks: string[];
+  volumes: string[];
+}
+
+export type EngineErrorCause =
+  | 'daemon-not-running'
+  | 'permission-denied'
+  | 'name-conflict'
+  | 'port-allocated'
+  | 'image-not-found'
+  | 'unknown';
+
+export interface ApiPort {
+  IP?: string;
+  PrivatePort: number;
+  PublicPort?: number;
+  Type: string;
+}
+
+export interface ApiContainerSummary {
+  Id: string;
+  Names: string[];
+  Image: string;
+  ImageID: string;
+  Command: string;
+  Created: number;
+  State: string;
+  Status: string;
+  Ports: ApiPort[];
+  Labels: Record<string, string> | null;
+  Mounts?: ApiMount[] | null;
+  NetworkSettings?: {
+    Networks?: Record<string, ApiEndpointSettings> | null;
+  } | null;
+}
+
+export interface ApiHealthLogEntry {
+  Start: string;
+  End: string;
+  ExitCode: number;
+  Output: string;
+}
+
+export interface ApiHealthState {
+  Status: string;
+  FailingStreak: number;
+  Log: ApiHealthLogEntry[] | null;
+}
+
+export interface ApiMount {
+  Type: string;
+  Name?: string;
+  Source: string;
+  Destination: string;
+  Mode: string;
+  RW: boolean;
+}
+
+export interface ApiEndpointSettings {
+  IPAddress: string;
+  Gateway: string;
+  MacAddress: string;
+  Aliases: string[] | null;
+}
+
+export interface ApiContainerInspect {
+  Id: string;
+  Name: string;
+  Created: string;
+  RestartCount?: number;
+  Config: {
+    Tty: boolean;
+    Image: string;
+    Labels: Record<string, string> | null;
+    Env?: string[] | null;
+    Cmd?: string[] | null;
+    Entrypoint?: string[] | string | null;
+    WorkingDir?: string;
+  };
+  State: {
+    Status: string;
+    Running: boolean;
+    ExitCode: number;
+    OOMKilled?: boolean;
+    Error?: string;
+    StartedAt?: string;
+    FinishedAt?: string;
+    Health?: ApiHealthState | undefined;
+    // Older podman versions use this name
+    Healthcheck?: ApiHealthState;
+  };
+  HostConfig?: {
+    RestartPolicy?: {
+      Name: string;
+      MaximumRetryCount: number;
+    };
+    NanoCpus?: number;
+    Memory?: number;
+  };
+  Mounts?: ApiMount[] | null;
+  NetworkSettings?: {
+    Networks?: Record<string, ApiEndpointSettings> | null;
+  };
+}
+
+export interface ApiContainerStats {
+  id?: string;
+  name?: string;
+  cpu_stats: {
+    cpu_usage: { total_usage: number; percpu_usage?: number[] };
+    system_cpu_usage?: number;
+    online_cpus?: number;
+  };
+  precpu_stats: {
+    cpu_usage: { total_usage: number };
+    system_cpu_usage?: number;
+  };
+  memory_stats: {
+    usage?: number;
+    limit?: number;
+    stats?: Record<string, number>;
+  };
+  networks?: Record<string, { rx_bytes: number; tx_bytes: number }>;
+}
+
+export interface ApiEvent {
+  Type?: string;
+  Action?: string;
+  status?: string;
+  id?: string;
+  from?: string;
+  time?: number;
+  timeNano?: number;
+  Actor?: {
+    ID: string;
+    Attributes?: Record<string, string>;
+  };
+}
+
+export interface PodmanEvent {
+  ID: string;
+  Name?: string;
+  Image?: string;
+  Status: string;
+  Type: string;
+  Time?: string;
+  ContainerExitCode?: number;
+  HealthStatus?: string;
+}
+
+export interface EngineApiErrorBody {
+  message?: string;
+}
+
+/**
+ * Network inspect output. Docker and the compat API use the capitalized
+ * keys; podman's CLI (netavark) prints the lowercase ones.
+ */
+export interface ApiNetwork {
+  Id?: string;
+  Name?: string;
+  Driver?: string;
+  Scope?: string;
+  Internal?: boolean;
+  Created?: string;
+  IPAM?: {
+    Config?: { Subnet?: string }[] | null;
+  };
+  Labels?: Record<string, string> | null;
+  id?: string;
+  name?: string;
+  driver?: string;
+  internal?: boolean;
+  created?: string;
+  subnets?: { subnet: string }[] | null;
+  labels?: Record<string, string> | null;
+}
+
+export interface ApiImageSummary {
+  Id: string;
+  RepoTags?: string[] | null;
+  // Seconds since the epoch
+  Created: number;
+  Size: number;
+}
+
+export interface ApiVolume {
+  Name: string;
+  Driver: string;
+  Mountpoint: string;
+  CreatedAt?: string;
+  Labels?: Record<string, string> | null;
+  // Only filled in by /system/df; Size is -1 until computed
+  UsageData?: {
+    Size: number;
+    RefCount: number;
+  } | null;
+}
+
+export interface ApiVolumeList {
+  Volumes: ApiVolume[] | null;
+}
+
+export interface ApiSystemDf {
+  LayersSize?: number;
+  Images?: {
+    Id: string;
+    RepoTags?: string[] | null;
+    Size: number;
+    // -1 when not computed
+    SharedSize: number;
+    Containers: number;
+  }[] | null;
+  Containers?: {
+    Id: string;
+    Names: string[];
+    SizeRw?: number;
+    State: string;
+    Status: string;
+  }[] | null;
+  Volumes?: ApiVolume[] | null;
+  BuildCache?: {
+    ID: string;
+    Type: string;
+    Size: number;
+    InUse: boolean;
+    Shared: boolean;
+  }[] | null;
+}
@@ -2,11 +2,316 @@ export interface ContainerInfo {
   id: string;
   name: string;
   image: string;
-  status: 'running' | 'stopped' | 'paused' | 'restarting' | 'dead';
+  // 'not-created' is a service declared in a compose file that has no container yet
+  status: 'running' | 'stopped' | 'paused' | 'restarting' | 'dead' | 'not-created';
   ports: string[];
   created: Date;
+  // 'none' when the image defines no health check
+  health?: ContainerHealth | undefined;
   cpu?: number;
   memory?: number;
+  labels?: Record<string, string>;
+  compose?: ComposeLabels | undefined;
+  // Engine endpoint the container runs on ('local' for the default engine)
+  host?: string | undefined;
+}
+
+export interface ComposeLabels {
+  project: string;
+  service: string;
+  workingDir?: string | undefined;
+  configFiles?: string[] | undefined;
+}
+
+export interface ComposeContext {
+  cwd?: string | undefined;
+  files?: string[] | undefined;
+  projectName?: string | undefined;
+  // Profiles to enable besides the services that have none
+  profiles?: string[] | undefined;
+}
+
+export interface ContainerRemoveOptions {
+  // Also remove anonymous volumes attached to the container
+  volumes?: boolean | undefined;
+  // Remove even when running (kills it first)
+  force?: boolean | undefined;
+}
+
+export interface NetworkInfo {
+  id: string;
+  name: string;
+  driver: string;
+  scope: string;
+  internal: boolean;
+  subnets: string[];
+  created?: Date | undefined;
+  labels: Record<string, string>;
+  // Names of attached containers, running or not
+  containers: string[];
+  // bridge, host, none and the like; never pruned
+  builtIn: boolean;
+}
+
+export interface VolumeInfo {
+  name: string;
+  driver: string;
+  mountpoint: string;
+  created?: Date | undefined;
+  labels: Record<string, string>;
+  // Bytes on disk, when the engine reports it
+  size?: number | undefined;
+  // Names of containers mounting the volume, running or not
+  containers: string[];
+}
+
+export interface ImageInfo {
+  repository: string;
+  tag: string;
+  id: string;
+  // Bytes
+  size: number;
+  created: Date;
+}
+
+export interface ImageSearchResult {
+  name: string;
+  description: string;
+  stars: number;
+  official: boolean;
+}
+
+export type ContainerFileType = 'file' | 'directory' | 'symlink' | 'other';
+
+export interface ContainerFileEntry {
+  name: string;
+  // Absolute path inside the container
+  path: string;
+  type: ContainerFileType;
+  size: number;
+  modified?: Date | undefined;
+}
+
+export type DiskUsageCategory = 'images' | 'containers' | 'volumes' | 'build-cache';
+
+export interface DiskUsageItem {
+  name: string;
+  size: number;
+  // What removing it would free; shared image layers stay
+  reclaimable: number;
+  // In use: images with containers, running containers, attached volumes
+  active: boolean;
+  // e.g. the containers using an image, or a container's status
+  detail?: string | undefined;
+}
+
+export interface DiskUsageSummary {
+  category: DiskUsageCategory;
+  count: number;
+  active: number;
+  size: number;
+  reclaimable: number;
+  items: DiskUsageItem[];
+}
+
+export interface DiskUsageReport {
+  categories: DiskUsageSummary[];
+  size: number;
+  reclaimable: number;
+}
+
+// Omitted fields stay as they are; 0 CPUs lifts the CPU limit
+export interface ResourceLimits {
+  cpus?: number | undefined;
+  // Bytes
+  memory?: number | undefined;
+}
+
+export interface NetworkCreateOptions {
+  driver?: string | undefined;
+  internal?: boolean | undefined;
+  subnet?: string | undefined;
+  labels?: Record<string, string> | undefined;
+}
+
+export interface VolumeCreateOptions {
+  driver?: string | undefined;
+  labels?: Record<string, string> | undefined;
+}
+
+export interface PruneResult {
+  removed: string[];
+  failed: { name: string; error: Error }[];
+  // Bytes freed, for volumes with a known size
+  reclaimed: number;
+}
+
+export type PortProtocol = 'tcp' | 'udp';
+
+// A container port published on the host
+export interface PortBinding {
+  // Empty means every interface
+  hostIp: string;
+  hostPort: number;
+  containerPort: number;
+  protocol: PortProtocol;
+  // Compose service that asks for it
+  service?: string | undefined;
+}
+
+export interface PortOwner {
+  kind: 'container' | 'process';
+  name: string;
+  pid?: number | undefined;
+}
+
+export interface PortConflict {
+  binding: PortBinding;
+  owner: PortOwner;
+}
+
+// A template port mapping moved off a taken host port
+export interface PortRemap {
+  from: string;
+  to: string;
+  conflict: PortConflict;
+}
+
+// A service as declared in compose files, whether or not it has a container
+export interface DeclaredService {
+  name: string;
+  // Unset for services that are only built
+  image?: string | undefined;
+  // Build context directory
+  build?: string | undefined;
+  ports: PortBinding[];
+  dependsOn: string[];
+  profiles: string[];
+  containerName?: string | undefined;
+}
+
+export interface ComposeProject {
+  // Project name compose will use
+  name: string;
+  directory: string;
+  files: string[];
+  services: DeclaredService[];
+}
+
+export type BuildStepStatus = 'running' | 'cached' | 'done' | 'failed';
+
+export interface BuildStep {
+  id: string;
+  // As the builder prints it, e.g. "[2/4] RUN npm ci"
+  name: string;
+  // Compose service being built, when the output says
+  service?: string | undefined;
+  status: BuildStepStatus;
+  output: string[];
+  durationMs?: number | undefined;
+}
+
+export interface BuildSummary {
+  steps: BuildStep[];
+  durationMs: number;
+  // Dockerfile instructions, as opposed to the builder's own steps
+  instructions: number;
+  cached: number;
+  failedStep?: BuildStep | undefined;
+}
+
+export interface BuildOptions {
+  noCache?: boolean | undefined;
+  // Always pull newer base images
+  pull?: boolean | undefined;
+  signal?: AbortSignal | undefined;
+  onStep?: ((step: BuildStep) => void) | undefined;
+  onOutput?: ((line: string, step: BuildStep | undefined) => void) | undefined;
+}
+
+export interface ImageBuildOptions {
+  directory: string;
+  tag: string;
+  dockerfile?: string | undefined;
+}
+
+export interface ComposeTarget {
+  service: string;
+  context: ComposeContext;
+  engine?: ContainerEngine | undefined;
+}
+
+export type HealthStatus = 'starting' | 'healthy' | 'unhealthy';
+
+export type ContainerHealth = HealthStatus | 'none';
+
+export interface WaitOptions {
+  // Wait for a passing health check, not just a running container
+  healthy?: boolean | undefined;
+  timeoutMs?: number | undefined;
+  // How a target name picks out containers; defaults to name, ID or compose service
+  matches?: ((container: ContainerInfo, target: string) => boolean) | undefined;
+}
+
+export interface HealthCheckResult {
+  start: Date;
+  end: Date;
+  exitCode: number;
+  output: string;
+}
+
+export interface ContainerMount {
+  type: string;
+  source: string;
+  destination: string;
+  readOnly: boolean;
+}
+
+export interface ContainerNetwork {
+  name: string;
+  ipAddress: string;
+  gateway: string;
+  macAddress: string;
+  aliases: string[];
+}
+
+/**
+ * Parsed view of a container's inspect output. Engine-specific fields are
+ * normalized; `raw` keeps the original document for the JSON view.
+ */
+export interface ContainerDetails {
+  id: string;
+  name: string;
+  image: string;
+  created: Date;
+  command: string[];
+  workingDir?: string | undefined;
+  state: {
+    status: string;
+    running: boolean;
+    exitCode: number;
+    oomKilled: boolean;
+    error?: string | undefined;
+    startedAt?: Date | undefined;
+    finishedAt?: Date | undefined;
+  };
+  restartPolicy: {
+    name: string;
+    maximumRetryCount: number;
+  };
+  restartCount: number;
+  env: Record<string, string>;
+  mounts: ContainerMount[];
+  networks: ContainerNetwork[];
+  labels: Record<string, string>;
+  // Unset when the container is not limited
+  limits: ResourceLimits;
+  health?: {
+    status: HealthStatus;
+    failingStreak: number;
+    log: HealthCheckResult[];
+  } | undefined;
+  raw: unknown;
 }
 
 export interface SystemMetrics {
@@ -34,11 +339,71 @@ export interface ContainerMetrics {
   };
 }
 
+// One collection round, as `metrics record` writes it: a line of NDJSON each
+export interface MetricsFrame {
+  // Milliseconds since the epoch
+  timestamp: number;
+  system: SystemMetrics;
+  containers: ContainerMetrics[];
+}
+
+export type MetricsWindow = '1m' | '5m' | '15m' | '1h';
+
+// One point of a host or container series
+export interface MetricsSample {
+  // Milliseconds since the epoch
+  timestamp: number;
+  cpu: number;
+  // Bytes
+  memory: number;
+  memoryPercentage: number;
+  // Bytes per second; always 0 for the host
+  rxRate: number;
+  txRate: number;
+}
+
+// metrics section of cronos.yml
+export interface MetricsSettings {
+  // Seconds between samples
+  interval?: number | undefined;
+  // Seconds of history to keep
+  retention?: number | undefined;
+}
+
 export interface ServiceConfig {
   name: string;
-  compose_file?: string | undefined;
+  // Merged in order, e.g. the base file, its override and local tweaks
+  compose_files?: string[] | undefined;
+  profiles?: string[] | undefined;
+  // Compose derives one from the directory when not set
+  project_name?: string | undefined;
   env_file?: string | undefined;
   directory: string;
+  engine?: ContainerEngine | undefined;
+  depends_on?: ServiceDependency[] | undefined;
+}
+
+export type DependencyCondition = 'started' | 'healthy';
+
+export interface ServiceDependency {
+  service: string;
+  // 'healthy' also waits for the dependency's health checks to pass
+  condition: DependencyCondition;
+}
+
+export interface OrchestrationStep {
+  service: string;
+  action: 'waiting' | 'starting' | 'started' | 'stopping' | 'stopped' | 'failed';
+  // Position in the startup order; services on the same level run in parallel
+  level: number;
+  // Dependencies being waited on
+  dependencies?: string[] | undefined;
+}
+
+export interface OrchestrationOptions {
+  // Limit for each wait on a healthy dependency
+  timeoutMs?: number | undefined;
+  onStep?: ((step: OrchestrationStep) => void) | undefined;
 }
 
 export interface ContainerConfig {
@@ -61,24 +426,122 @@ export interface GitRepository {
 
 export interface ProjectConfig {
   name: string;
-  engine: 'docker' | 'podman' | 'auto';
+  engine: EngineSelection;
   projects_directory?: string;
   repositories?: GitRepository[];
   containers?: ContainerConfig[];
   services: ServiceConfig[];
   global_env?: string;
+  hosts?: EngineEndpoint[] | undefined;
+  metrics?: MetricsSettings | undefined;
+  alerts?: AlertSettings | undefined;
+}
+
+// restarts counts engine events; the others are collected metrics
+export type AlertMetric = 'cpu' | 'memory' | 'memory.percentage' | 'restarts';
+
+export type AlertOperator = '>' | '>=' | '<' | '<=';
+
+// What a rule watches; without a scope it watches every container
+export interface AlertScope {
+  kind: 'service' | 'container' | 'host';
+  // Compose service or container name; unset for the host
+  name?: string | undefined;
+}
+
+export interface AlertRule {
+  name: string;
+  // As written in cronos.yml, e.g. "memory.percentage > 90 for 30s on service api"
+  expression: string;
+  metric: AlertMetric;
+  operator: AlertOperator;
+  // Percent, bytes or a number of restarts
+  threshold: number;
+  // Seconds the condition has to hold before the alert fires
+  for?: number | undefined;
+  // Seconds restarts are counted over
+  window?: number | undefined;
+  scope?: AlertScope | undefined;
+}
+
+export type AlertSinkType = 'bell' | 'desktop' | 'webhook' | 'command';
+
+export interface AlertSink {
+  type: AlertSinkType;
+  // webhook: where the alert is POSTed as JSON
+  url?: string | undefined;
+  // command: run through the shell with the alert in CRONOS_ALERT_* variables
+  command?: string | undefined;
+  // Also report alerts that stopped firing
+  send_resolved?: boolean | undefined;
+}
+
+// alerts section of cronos.yml
+export interface AlertSettings {
+  rules: AlertRule[];
+  sinks: AlertSink[];
 }
 
-export type ContainerEngine = 'docker' | 'podman';
+export type AlertState = 'firing' | 'resolved';
+
+export interface Alert {
+  rule: string;
+  // Container name, or the host
+  target: string;
+  state: AlertState;
+  // What the rule's metric was when the alert last changed
+  value: number;
+  message: string;
+  // When the alert started firing
+  since: Date;
+}
+
+/**
+ * A named engine other than the local default: a remote daemon, a second
+ * local socket, a docker context or a podman system connection.
+ */
+export interface EngineEndpoint {
+  name: string;
+  engine: ContainerEngine;
+  // DOCKER_HOST-style URL: unix:///path, tcp://host:2375 or ssh://user@host
+  host?: string | undefined;
+  // Name from "docker context ls"
+  context?: string | undefined;
+  // Name from "podman system connection ls"
+  connection?: string | undefined;
+}
 
-export interface EngineCommands {
-  ps: string;
-  up: string;
-  down: string;
-  restart: string;
-  logs: string;
-  stats: string;
-  inspect: string;
+export interface HostContainers {
+  host: string;
+  containers: ContainerInfo[];
+  // Set when the host could not be reached; containers is then empty
+  error?: Error | undefined;
+}
+
+export type ContainerEngine = 'docker' | 'podman' | 'nerdctl' | 'docker-compose' | 'simulated';
+
+export type EngineSelection = ContainerEngine | 'auto';
+
+export type ContainerEventAction =
+  | 'create'
+  | 'start'
+  | 'stop'
+  | 'die'
+  | 'kill'
+  | 'pause'
+  | 'unpause'
+  | 'restart'
+  | 'destroy'
+  | 'health_status';
+
+export interface ContainerEvent {
+  action: ContainerEventAction;
+  id: string;
+  name: string;
+  image?: string | undefined;
+  timestamp: Date;
+  exitCode?: number | undefined;
+  health?: HealthStatus | undefined;
 }
 
 export interface LogEntry {
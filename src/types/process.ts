@@ -0,0 +1,41 @@
+import type { Readable } from 'stream';
+
+export interface CommandFailure {
+  command: string;
+  args: string[];
+  exitCode: number | null;
+  stderr: string;
+  // Engine API calls fail with an HTTP status rather than an exit code
+  httpStatus?: number | undefined;
+  timedOut?: boolean | undefined;
+  cancelled?: boolean | undefined;
+}
+
+export interface RunOptions {
+  cwd?: string | undefined;
+  env?: NodeJS.ProcessEnv | undefined;
+  // Kill the process when it runs longer than this; 0 waits forever
+  timeoutMs?: number | undefined;
+  signal?: AbortSignal | undefined;
+  // Called with every chunk of stdout and stderr as it arrives
+  onOutput?: ((chunk: string) => void) | undefined;
+  createError?: ((failure: CommandFailure) => Error) | undefined;
+}
+
+export interface RunResult {
+  stdout: string;
+  stderr: string;
+  exitCode: number;
+}
+
+export interface StreamOptions {
+  cwd?: string | undefined;
+  signal?: AbortSignal | undefined;
+  // Interleave stderr into the output stream
+  mergeStderr?: boolean | undefined;
+}
+
+export interface ProcessStream {
+  stream: Readable;
+  stop: () => void;
+}
@@ -33,4 +33,6 @@ export interface ContainerRunOptions {
   network?: string;
   restart?: string;
   detach?: boolean;
+  // Shell command run inside the container to report health
+  healthCheck?: string | undefined;
 }
\ No newline at end of file
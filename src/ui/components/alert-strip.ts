@@ -0,0 +1,50 @@
+import blessed from 'blessed';
+import type { Alert } from '../../types/index.js';
+
+export interface AlertStripOptions {
+  parent: blessed.Widgets.Node;
+  top: number | string;
+  left: number | string;
+  width: number | string;
+}
+
+// One line listing the alerts that are firing, oldest first
+export class AlertStrip {
+  public widget: blessed.Widgets.BoxElement;
+  private hasRules = false;
+
+  constructor(options: AlertStripOptions) {
+    this.widget = blessed.box({
+      parent: options.parent,
+      top: options.top,
+      left: options.left,
+      width: options.width,
+      height: 1,
+      tags: true,
+      style: {
+        fg: 'white',
+        bg: 'default',
+      },
+    });
+  }
+
+  setHasRules(hasRules: boolean): void {
+    this.hasRules = hasRules;
+  }
+
+  update(alerts: Alert[]): void {
+    if (alerts.length === 0) {
+      this.widget.style.bg = 'default';
+      this.widget.setContent(this.hasRules ? ' {green-fg}✔ No alerts firing{/green-fg}' : ' {gray-fg}No alert rules - add them under alerts: in cronos.yml{/gray-fg}');
+    } else {
+      const sorted = [...alerts].sort((a, b) => a.since.getTime() - b.since.getTime());
+      this.widget.style.bg = 'red';
+      this.widget.setContent(` {bold}▲ ${alerts.length} firing{/bold} | ${sorted.map(alert => blessed.escape(`[${alert.rule}] ${alert.message}`)).join(' | ')}`);
+    }
+    this.widget.screen?.render();
+  }
+
+  destroy(): void {
+    this.widget.destroy();
+  }
+}
@@ -0,0 +1,217 @@
+import blessed from 'blessed';
+import { posix } from 'path';
+import type { ContainerFileEntry } from '../../types/index.js';
+
+export interface FileBrowserOptions {
+  parent: blessed.Widgets.Node;
+  formatSize: (bytes: number) => string;
+}
+
+export class FileBrowser {
+  public widget: blessed.Widgets.ListElement;
+  private preview: blessed.Widgets.BoxElement;
+  private container = '';
+  private directory = '/';
+  private entries: ContainerFileEntry[] = [];
+  private formatSize: (bytes: number) => string;
+
+  constructor(options: FileBrowserOptions) {
+    this.formatSize = options.formatSize;
+    this.widget = blessed.list({
+      parent: options.parent,
+      top: 'center',
+      left: 'center',
+      width: '80%',
+      height: '70%',
+      label: ' Files ',
+      border: {
+        type: 'line',
+      },
+      style: {
+        fg: 'white',
+        bg: 'black',
+        border: {
+          fg: 'yellow',
+        },
+        selected: {
+          bg: 'blue',
+        },
+      },
+      scrollbar: {
+        ch: ' ',
+      },
+      keys: true,
+      vi: true,
+      mouse: true,
+      tags: true,
+      hidden: true,
+    });
+
+    this.preview = blessed.box({
+      parent: options.parent,
+      top: 'center',
+      left: 'center',
+      width: '80%',
+      height: '80%',
+      border: {
+        type: 'line',
+      },
+      style: {
+        fg: 'white',
+        bg: 'black',
+        border: {
+          fg: 'cyan',
+        },
+      },
+      scrollable: true,
+      alwaysScroll: true,
+      scrollbar: {
+        ch: ' ',
+      },
+      keys: true,
+      vi: true,
+      mouse: true,
+      hidden: true,
+    });
+
+    this.setupKeyBindings();
+  }
+
+  private setupKeyBindings(): void {
+    this.widget.on('select', (_item: blessed.Widgets.BlessedElement, index: number) => {
+      const parent = this.hasParentRow();
+      if (parent && index === 0) {
+        this.onOpen?.(posix.dirname(this.directory));
+        return;
+      }
+
+      const entry = this.entries[index - (parent ? 1 : 0)];
+      if (!entry) return;
+
+      if (entry.type === 'directory' || entry.type === 'symlink') {
+        this.onOpen?.(entry.path);
+      } else {
+        this.onPreview?.(entry);
+      }
+    });
+
+    this.widget.key(['backspace'], () => {
+      if (this.hasParentRow()) {
+        this.onOpen?.(posix.dirname(this.directory));
+      }
+    });
+
+    this.widget.key(['d', 'D'], () => {
+      const entry = this.getSelectedEntry();
+      if (entry) {
+        this.onDownload?.(entry);
+      }
+    });
+
+    this.widget.key(['u', 'U'], () => {
+      this.onUpload?.(this.directory);
+    });
+
+    this.widget.key(['escape'], () => {
+      this.hide();
+    });
+
+    this.preview.key(['escape', 'q'], () => {
+      this.preview.hide();
+      this.widget.focus();
+      this.widget.screen?.render();
+    });
+  }
+
+  show(container: string, directory: string, entries: ContainerFileEntry[]): void {
+    this.container = container;
+    this.update(directory, entries);
+    this.widget.show();
+    this.widget.setFront();
+    this.widget.focus();
+    this.widget.screen?.render();
+  }
+
+  // Shows another directory of the same container
+  update(directory: string, entries: ContainerFileEntry[]): void {
+    this.directory = directory;
+    this.entries = entries;
+
+    this.widget.setLabel(` Files: ${this.container}:${directory} `);
+    this.render();
+    this.widget.select(0);
+    this.widget.screen?.render();
+  }
+
+  showPreview(path: string, content: string): void {
+    this.preview.setLabel(` ${path} (Esc: back) `);
+    this.preview.setContent(content);
+    this.preview.setScrollPerc(0);
+    this.preview.show();
+    this.preview.setFront();
+    this.preview.focus();
+    this.widget.screen?.render();
+  }
+
+  getDirectory(): string {
+    return this.directory;
+  }
+
+  hide(): void {
+    this.preview.hide();
+    this.widget.hide();
+    this.widget.screen?.render();
+    this.onClose?.();
+  }
+
+  isVisible(): boolean {
+    return !this.widget.hidden;
+  }
+
+  private hasParentRow(): boolean {
+    return this.directory !== '/';
+  }
+
+  private getSelectedEntry(): ContainerFileEntry | undefined {
+    const index = this.widget.selected;
+    return this.entries[index - (this.hasParentRow() ? 1 : 0)];
+  }
+
+  private render(): void {
+    const rows = this.entries.map(entry => this.formatRow(entry));
+    if (this.hasParentRow()) {
+      rows.unshift('{blue-fg}../{/blue-fg}');
+    }
+    if (this.entries.length === 0) {
+      rows.push('{gray-fg}(empty){/gray-fg}');
+    }
+
+    rows.push('', '{gray-fg}Enter: open/preview  Backspace: up  D: download  U: upload  Esc: close{/gray-fg}');
+
+    this.widget.setItems(rows);
+  }
+
+  private formatRow(entry: ContainerFileEntry): string {
+    const name = blessed.escape(entry.name.padEnd(40));
+    const size = entry.type === 'file' ? this.formatSize(entry.size) : '';
+    const modified = entry.modified ? entry.modified.toISOString().replace('T', ' ').substring(0, 16) : '';
+
+    switch (entry.type) {
+      case 'directory': return `{blue-fg}${name}{/blue-fg} ${''.padEnd(10)} ${modified}`;
+      case 'symlink': return `{cyan-fg}${name}{/cyan-fg} ${''.padEnd(10)} ${modified}`;
+      default: return `${name} ${size.padEnd(10)} ${modified}`;
+    }
+  }
+
+  // Event handlers (to be set by parent)
+  onOpen?: (directory: string) => void;
+  onPreview?: (entry: ContainerFileEntry) => void;
+  onDownload?: (entry: ContainerFileEntry) => void;
+  onUpload?: (directory: string) => void;
+  onClose?: () => void;
+
+  destroy(): void {
+    this.preview.destroy();
+    this.widget.destroy();
+  }
+}
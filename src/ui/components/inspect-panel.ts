@@ -0,0 +1,238 @@
+import blessed from 'blessed';
+import type { ContainerDetails, ResourceLimits } from '../../types/index.js';
+
+export interface InspectPanelOptions {
+  parent: blessed.Widgets.Node;
+}
+
+interface InspectSection {
+  title: string;
+  lines: string[];
+  collapsed: boolean;
+}
+
+export class InspectPanel {
+  public widget: blessed.Widgets.ListElement;
+  private details: ContainerDetails | null = null;
+  private sections: InspectSection[] = [];
+  private showRaw = false;
+  // Section index for each header row, so Enter knows what to toggle
+  private headerRows: Map<number, number> = new Map();
+
+  constructor(options: InspectPanelOptions) {
+    this.widget = blessed.list({
+      parent: options.parent,
+      top: 'center',
+      left: 'center',
+      width: '80%',
+      height: '80%',
+      label: ' Inspect ',
+      border: {
+        type: 'line',
+      },
+      style: {
+        fg: 'white',
+        bg: 'black',
+        border: {
+          fg: 'yellow',
+        },
+        selected: {
+          bg: 'blue',
+        },
+      },
+      scrollbar: {
+        ch: ' ',
+      },
+      keys: true,
+      vi: true,
+      mouse: true,
+      tags: true,
+      hidden: true,
+    });
+
+    this.setupKeyBindings();
+  }
+
+  private setupKeyBindings(): void {
+    this.widget.on('select', (_item: blessed.Widgets.BlessedElement, index: number) => {
+      this.toggleSection(index);
+    });
+
+    this.widget.key(['space'], () => {
+      this.toggleSection(this.widget.selected);
+    });
+
+    this.widget.key(['j', 'J'], () => {
+      this.showRaw = !this.showRaw;
+      this.render();
+    });
+
+    this.widget.key(['a', 'A'], () => {
+      this.toggleAll();
+    });
+
+    this.widget.key(['escape'], () => {
+      this.hide();
+    });
+  }
+
+  show(details: ContainerDetails): void {
+    this.details = details;
+    this.sections = this.buildSections(details);
+    this.showRaw = false;
+
+    this.widget.setLabel(` Inspect: ${details.name} `);
+    this.render();
+    this.widget.select(0);
+    this.widget.show();
+    this.widget.setFront();
+    this.widget.focus();
+    this.widget.screen?.render();
+  }
+
+  hide(): void {
+    this.widget.hide();
+    this.widget.screen?.render();
+    this.onClose?.();
+  }
+
+  isVisible(): boolean {
+    return !this.widget.hidden;
+  }
+
+  private formatLimits(limits: ResourceLimits): string {
+    const parts = [
+      limits.cpus !== undefined ? `${limits.cpus} CPUs` : '',
+      limits.memory !== undefined ? `${Math.round(limits.memory / 1024 / 1024)} MiB memory` : '',
+    ].filter(Boolean);
+    return parts.join(', ') || 'none';
+  }
+
+  private buildSections(details: ContainerDetails): InspectSection[] {
+    const state = details.state;
+    const policy = details.restartPolicy;
+
+    const overview = [
+      `Image:          ${details.image}`,
+      `ID:             ${details.id.substring(0, 12)}`,
+      `Command:        ${details.command.join(' ') || '-'}`,
+      `Working dir:    ${details.workingDir || '-'}`,
+      `Created:        ${details.created.toLocaleString()}`,
+      `Status:         ${state.status}`,
+      `Exit code:      ${state.exitCode === 0 ? '0' : `{red-fg}${state.exitCode}{/red-fg}`}`,
+      `OOM killed:     ${state.oomKilled ? '{red-fg}yes{/red-fg}' : 'no'}`,
+      `Started:        ${state.startedAt?.toLocaleString() || '-'}`,
+      `Finished:       ${state.finishedAt?.toLocaleString() || '-'}`,
+      `Restart policy: ${policy.name}${policy.maximumRetryCount > 0 ? ` (max ${policy.maximumRetryCount} retries)` : ''}`,
+      `Restart count:  ${details.restartCount}`,
+      `Limits:         ${this.formatLimits(details.limits)}`,
+    ];
+    if (state.error) {
+      overview.push(`Error:          {red-fg}${blessed.escape(state.error)}{/red-fg}`);
+    }
+
+    const sections: InspectSection[] = [
+      { title: 'Overview', lines: overview, collapsed: false },
+    ];
+
+    if (details.health) {
+      const health = details.health;
+      sections.push({
+        title: `Health: ${health.status}`,
+        lines: [
+          `Failing streak: ${health.failingStreak}`,
+          ...health.log.map(check => {
+            const color = check.exitCode === 0 ? 'green' : 'red';
+            const output = blessed.escape(check.output.replace(/\s+/g, ' '));
+            return `${check.start.toLocaleTimeString()} {${color}-fg}exit ${check.exitCode}{/${color}-fg} ${output}`;
+          }),
+        ],
+        collapsed: false,
+      });
+    }
+
+    const env = Object.entries(details.env);
+    sections.push({
+      title: `Environment (${env.length})`,
+      lines: env.map(([key, value]) => `{cyan-fg}${blessed.escape(key)}{/cyan-fg}=${blessed.escape(value)}`),
+      collapsed: true,
+    });
+
+    sections.push({
+      title: `Mounts (${details.mounts.length})`,
+      lines: details.mounts.map(mount =>
+        `${mount.type.padEnd(7)} ${blessed.escape(mount.source)} -> ${blessed.escape(mount.destination)} ${mount.readOnly ? '(ro)' : '(rw)'}`
+      ),
+      collapsed: false,
+    });
+
+    sections.push({
+      title: `Networks (${details.networks.length})`,
+      lines: details.networks.map(network => {
+        const aliases = network.aliases.length > 0 ? ` aliases: ${network.aliases.join(', ')}` : '';
+        return `${network.name.padEnd(20)} ${(network.ipAddress || '-').padEnd(16)} gw ${network.gateway || '-'}${aliases}`;
+      }),
+      collapsed: false,
+    });
+
+    const labels = Object.entries(details.labels);
+    sections.push({
+      title: `Labels (${labels.length})`,
+      lines: labels.map(([key, value]) => `{cyan-fg}${blessed.escape(key)}{/cyan-fg}=${blessed.escape(value)}`),
+      collapsed: true,
+    });
+
+    return sections;
+  }
+
+  private render(): void {
+    this.headerRows.clear();
+
+    if (this.showRaw) {
+      const raw = JSON.stringify(this.details?.raw ?? {}, null, 2);
+      this.widget.setItems(raw.split('\n').map(line => blessed.escape(line)));
+      this.widget.screen?.render();
+      return;
+    }
+
+    const rows: string[] = [];
+    this.sections.forEach((section, index) => {
+      this.headerRows.set(rows.length, index);
+      rows.push(`{bold}${section.collapsed ? '▸' : '▾'} ${section.title}{/bold}`);
+
+      if (!section.collapsed) {
+        rows.push(...section.lines.map(line => `    ${line}`));
+      }
+    });
+    rows.push('', '{gray-fg}Enter/Space: expand/collapse  A: all  J: raw JSON  Esc: close{/gray-fg}');
+
+    this.widget.setItems(rows);
+    this.widget.screen?.render();
+  }
+
+  private toggleSection(row: number): void {
+    const index = this.headerRows.get(row);
+    const section = index !== undefined ? this.sections[index] : undefined;
+    if (!section) return;
+
+    section.collapsed = !section.collapsed;
+    this.render();
+    this.widget.select(row);
+  }
+
+  private toggleAll(): void {
+    const collapse = this.sections.some(section => !section.collapsed);
+    this.sections.forEach(section => {
+      section.collapsed = collapse;
+    });
+    this.render();
+    this.widget.select(0);
+  }
+
+  // Event handlers (to be set by parent)
+  onClose?: () => void;
+
+  destroy(): void {
+    this.widget.destroy();
+  }
+}
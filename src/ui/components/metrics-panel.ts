@@ -1,6 +1,7 @@
 import blessed from 'blessed';
 import * as contrib from 'blessed-contrib';
-import type { SystemMetrics, ContainerMetrics } from '../../types/index.js';
+import { HOST_SERIES, METRICS_WINDOWS, type MetricsHistory } from '../../metrics/history.js';
+import type { SystemMetrics, ContainerMetrics, MetricsSample, MetricsWindow } from '../../types/index.js';
 
 export interface MetricsPanelOptions {
   parent: blessed.Widgets.Node;
@@ -8,16 +9,53 @@ export interface MetricsPanelOptions {
   left: number | string;
   width: number | string;
   height: number | string;
+  history: MetricsHistory;
 }
 
+type ChartKind = 'cpu' | 'memory' | 'network';
+
+interface ChartLine {
+  title: string;
+  x: string[];
+  y: number[];
+  style: { line: string };
+}
+
+// The parts of a blessed-contrib line chart the panel uses
+type LineChart = blessed.Widgets.BoxElement & {
+  // Unset until the chart is attached to a screen
+  ctx: unknown;
+  options: { maxY?: number | undefined };
+  setData(series: ChartLine[]): void;
+};
+
+const CHART_KINDS: ChartKind[] = ['cpu', 'memory', 'network'];
+const CHART_TITLES: Record<ChartKind, string> = {
+  cpu: 'CPU %',
+  memory: 'Memory MiB',
+  network: 'Network KiB/s',
+};
+
+const SPARK_CHARS = '▁▂▃▄▅▆▇█';
+const SPARK_POINTS = 10;
+const NAME_WIDTH = 16;
+
 export class MetricsPanel {
   public widget: blessed.Widgets.BoxElement;
   private systemMetricsBox!: blessed.Widgets.BoxElement;
-  private cpuGauge: any;
-  private memoryGauge: any;
+  private chart!: LineChart;
   private containersList!: blessed.Widgets.ListElement;
+  private history: MetricsHistory;
+  private window: MetricsWindow = '5m';
+  private chartKind: ChartKind = 'cpu';
+  // Series the chart shows: the host or a container name
+  private selectedKey = HOST_SERIES;
+  private rowKeys: string[] = [];
+  private systemMetrics: SystemMetrics | null = null;
+  private containerMetrics: ContainerMetrics[] = [];
 
   constructor(options: MetricsPanelOptions) {
+    this.history = options.history;
     this.widget = blessed.box({
       parent: options.parent,
       top: options.top,
@@ -38,18 +76,27 @@ export class MetricsPanel {
     });
 
     this.setupSystemMetrics();
+    this.createChart();
     this.setupContainerMetrics();
+    this.setupKeyBindings();
+
+    // The chart's canvas is sized once, so it is rebuilt for the new size
+    this.widget.screen?.on('resize', () => {
+      this.chart.destroy();
+      this.createChart();
+      this.renderChart();
+    });
   }
 
   private setupSystemMetrics(): void {
-    // System info box
     this.systemMetricsBox = blessed.box({
       parent: this.widget,
       top: 0,
       left: 0,
       width: '100%',
-      height: 8,
+      height: 4,
       content: 'Loading system metrics...',
+      tags: true,
       style: {
         fg: 'white',
       },
@@ -58,47 +105,38 @@ export class MetricsPanel {
         right: 1,
       },
     });
+  }
 
-    // CPU Progress bar (using basic blessed box instead of contrib gauge)
-    this.cpuGauge = blessed.box({
-      parent: this.widget,
-      top: 8,
+  private createChart(): void {
+    // Appended afterwards: the canvas only sets itself up on attach
+    this.chart = contrib.line({
+      top: 4,
       left: 0,
-      width: '50%',
-      height: 6,
-      label: ' CPU Usage ',
-      border: { type: 'line' },
-      style: {
-        fg: 'white',
-        border: { fg: 'green' }
-      },
-      content: 'CPU: 0%'
-    });
-
-    // Memory Progress bar (using basic blessed box instead of contrib gauge)
-    this.memoryGauge = blessed.box({
-      parent: this.widget,
-      top: 8,
-      left: '50%',
-      width: '50%',
-      height: 6,
-      label: ' Memory Usage ',
+      width: '100%',
+      height: '50%',
       border: { type: 'line' },
       style: {
-        fg: 'white',
-        border: { fg: 'cyan' }
+        line: 'yellow',
+        text: 'white',
+        // The canvas knows the eight basic colors only
+        baseline: 'white',
+        border: { fg: 'green' },
       },
-      content: 'Memory: 0%'
+      xLabelPadding: 3,
+      xPadding: 5,
+      showLegend: true,
+      legend: { width: 10 },
     });
+    this.widget.append(this.chart);
   }
 
   private setupContainerMetrics(): void {
     this.containersList = blessed.list({
       parent: this.widget,
-      top: 14,
+      top: '50%+4',
       left: 0,
       width: '100%',
-      height: '100%-14',
+      height: '50%-4',
       label: ' Container Resources ',
       border: {
         type: 'line',
@@ -113,6 +151,7 @@ export class MetricsPanel {
           bg: 'blue',
         },
       },
+      tags: true,
       scrollable: true,
       alwaysScroll: true,
       keys: true,
@@ -121,57 +160,165 @@ export class MetricsPanel {
     });
   }
 
+  private setupKeyBindings(): void {
+    this.containersList.on('select item', (_item: blessed.Widgets.BlessedElement, index: number) => {
+      const key = this.rowKeys[index];
+      if (key && key !== this.selectedKey) {
+        this.selectedKey = key;
+        this.renderChart();
+      }
+    });
+
+    this.containersList.key(['w', 'W'], () => {
+      const windows = this.availableWindows();
+      this.window = windows[(windows.indexOf(this.window) + 1) % windows.length] ?? '1m';
+      this.renderAll();
+    });
+
+    this.containersList.key(['g', 'G'], () => {
+      this.chartKind = CHART_KINDS[(CHART_KINDS.indexOf(this.chartKind) + 1) % CHART_KINDS.length]!;
+      this.renderAll();
+    });
+  }
+
   updateSystemMetrics(metrics: SystemMetrics): void {
-    // Update system info
-    const systemInfo = [
+    this.systemMetrics = metrics;
+    this.renderSystemMetrics();
+    this.widget.screen?.render();
+  }
+
+  updateContainerMetrics(containers: ContainerMetrics[]): void {
+    this.containerMetrics = containers;
+    this.renderRows();
+    this.renderChart();
+  }
+
+  // Windows longer than the retention would only ever be partly filled
+  private availableWindows(): MetricsWindow[] {
+    const windows = (Object.keys(METRICS_WINDOWS) as MetricsWindow[])
+      .filter(window => METRICS_WINDOWS[window] <= this.history.getRetention());
+    return windows.length > 0 ? windows : ['1m'];
+  }
+
+  private renderAll(): void {
+    this.renderSystemMetrics();
+    this.renderRows();
+    this.renderChart();
+  }
+
+  private renderSystemMetrics(): void {
+    const metrics = this.systemMetrics;
+    if (!metrics) return;
+
+    this.systemMetricsBox.setContent([
       `CPU Usage: ${metrics.cpu.toFixed(1)}%`,
       `Memory: ${this.formatBytes(metrics.memory.used)} / ${this.formatBytes(metrics.memory.total)} (${metrics.memory.percentage.toFixed(1)}%)`,
       `Load Avg: ${metrics.loadAvg.map(load => load.toFixed(2)).join(', ')}`,
-    ].join('\n');
+      `{gray-fg}Window: ${this.window} (W)  Chart: ${CHART_TITLES[this.chartKind]} (G){/gray-fg}`,
+    ].join('\n'));
+  }
 
-    this.systemMetricsBox.setContent(systemInfo);
+  // One row per series, each with sparklines over the selected window
+  private renderRows(): void {
+    const windowMs = METRICS_WINDOWS[this.window];
+    const rows: string[] = [];
+    this.rowKeys = [];
 
-    // Update progress indicators
-    const cpuBar = this.createProgressBar(metrics.cpu, 'CPU');
-    const memBar = this.createProgressBar(metrics.memory.percentage, 'Memory');
+    if (this.systemMetrics) {
+      const samples = this.history.getSamples(HOST_SERIES, windowMs, SPARK_POINTS);
+      rows.push(this.formatRow('{bold}Host{/bold}', 'Host', this.systemMetrics.cpu, this.systemMetrics.memory.used, samples));
+      this.rowKeys.push(HOST_SERIES);
+    }
 
-    this.cpuGauge.setContent(`CPU: ${metrics.cpu.toFixed(1)}%\n${cpuBar}`);
-    this.memoryGauge.setContent(`Memory: ${metrics.memory.percentage.toFixed(1)}%\n${memBar}`);
+    for (const container of this.containerMetrics) {
+      const samples = this.history.getSamples(container.name, windowMs, SPARK_POINTS);
+      rows.push(this.formatRow(blessed.escape(container.name), container.name, container.cpu, container.memory.used, samples));
+      this.rowKeys.push(container.name);
+    }
 
-    this.widget.screen?.render();
+    if (this.containerMetrics.length === 0) {
+      rows.push('{gray-fg}No containers running{/gray-fg}');
+    }
+
+    this.containersList.setItems(rows);
+    // The chart stays on its series while rows come and go
+    const index = this.rowKeys.indexOf(this.selectedKey);
+    if (index >= 0) {
+      this.containersList.select(index);
+    } else {
+      this.selectedKey = HOST_SERIES;
+      this.containersList.select(0);
+    }
   }
 
-  updateContainerMetrics(containers: ContainerMetrics[]): void {
-    const items = containers.map(container => {
-      const memUsage = this.formatBytes(container.memory.used);
-      const memLimit = this.formatBytes(container.memory.limit);
-      const netRx = this.formatBytes(container.network.rx);
-      const netTx = this.formatBytes(container.network.tx);
-
-      return [
-        `{bold}${container.name}{/bold}`,
-        `  CPU: ${container.cpu.toFixed(1)}%`,
-        `  Memory: ${memUsage}/${memLimit} (${container.memory.percentage.toFixed(1)}%)`,
-        `  Network: ↓${netRx} ↑${netTx}`,
-      ].join('\n');
-    });
+  private formatRow(label: string, name: string, cpu: number, memory: number, samples: MetricsSample[]): string {
+    const padding = ' '.repeat(Math.max(NAME_WIDTH - name.length, 0));
+    const shortLabel = name.length > NAME_WIDTH ? blessed.escape(`${name.substring(0, NAME_WIDTH - 1)}…`) : label;
+    const cpuValues = samples.map(sample => sample.cpu);
+    // Scaled to at least one full core, so an idle container does not look busy
+    const cpuSpark = this.sparkline(cpuValues, Math.max(100, ...cpuValues));
+    const memorySpark = this.sparkline(samples.map(sample => sample.memory));
 
-    if (items.length === 0) {
-      this.containersList.setItems(['No containers running']);
-    } else {
-      this.containersList.setItems(items);
+    return `${shortLabel}${padding} ${`${cpu.toFixed(1)}%`.padStart(6)} {yellow-fg}${cpuSpark}{/yellow-fg} ${this.formatBytes(memory).padStart(9)} {cyan-fg}${memorySpark}{/cyan-fg}`;
+  }
+
+  private sparkline(values: number[], max = Math.max(...values)): string {
+    const top = SPARK_CHARS.length - 1;
+    const line = values.map(value => SPARK_CHARS[max > 0 ? Math.min(Math.round((value / max) * top), top) : 0]).join('');
+    return line.padStart(SPARK_POINTS, ' ');
+  }
+
+  private renderChart(): void {
+    if (!this.chart.ctx) return;
+
+    const windowMs = METRICS_WINDOWS[this.window];
+    // About one point per column
+    const points = Math.max(10, (this.chart.width as number) - 14);
+    const samples = this.history.getSamples(this.selectedKey, windowMs, points);
+    const name = this.selectedKey === HOST_SERIES ? 'Host' : this.selectedKey;
+    const hostNetwork = this.selectedKey === HOST_SERIES && this.chartKind === 'network';
+
+    const latest = samples[samples.length - 1]?.timestamp ?? 0;
+    const x = samples.map(sample => this.formatAge(latest - sample.timestamp));
+    const series = this.chartSeries(samples).map(line => ({ ...line, x }));
+
+    // The chart needs two points to draw a line and a range to scale to
+    if (samples.length < 2) {
+      series.forEach(line => {
+        line.x = ['', 'now'];
+        line.y = [0, 0];
+      });
     }
+    const max = Math.max(0, ...series.flatMap(line => line.y));
+    this.chart.options.maxY = max > 0 ? undefined : 1;
 
+    const note = samples.length < 2 ? ' (collecting...)' : hostNetwork ? ' (containers only)' : '';
+    this.chart.setLabel(` ${CHART_TITLES[this.chartKind]} - ${name} (${this.window})${note} `);
+    this.chart.setData(series);
     this.widget.screen?.render();
   }
 
-  private createProgressBar(percentage: number, label: string): string {
-    const width = 20;
-    const filled = Math.round((percentage / 100) * width);
-    const empty = width - filled;
+  private chartSeries(samples: MetricsSample[]): ChartLine[] {
+    const round = (value: number) => Math.round(value * 10) / 10;
 
-    const bar = '█'.repeat(filled) + '░'.repeat(empty);
-    return `[${bar}]`;
+    switch (this.chartKind) {
+      case 'cpu':
+        return [{ title: 'cpu', x: [], y: samples.map(sample => round(sample.cpu)), style: { line: 'yellow' } }];
+      case 'memory':
+        return [{ title: 'used', x: [], y: samples.map(sample => round(sample.memory / 1024 / 1024)), style: { line: 'cyan' } }];
+      case 'network':
+        return [
+          { title: 'rx', x: [], y: samples.map(sample => round(sample.rxRate / 1024)), style: { line: 'green' } },
+          { title: 'tx', x: [], y: samples.map(sample => round(sample.txRate / 1024)), style: { line: 'magenta' } },
+        ];
+    }
+  }
+
+  // x axis labels count back from the newest sample
+  private formatAge(ms: number): string {
+    const seconds = Math.round(ms / 1000);
+    if (seconds === 0) return 'now';
+    return seconds < 120 ? `-${seconds}s` : `-${Math.round(seconds / 60)}m`;
   }
 
   private formatBytes(bytes: number): string {
@@ -191,4 +338,4 @@ export class MetricsPanel {
   destroy(): void {
     this.widget.destroy();
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,172 @@
+import blessed from 'blessed';
+import type { NetworkInfo, VolumeInfo } from '../../types/index.js';
+
+export type ResourceKind = 'networks' | 'volumes';
+
+export interface ResourcesPanelOptions {
+  parent: blessed.Widgets.Node;
+  formatSize: (bytes: number) => string;
+}
+
+export class ResourcesPanel {
+  public widget: blessed.Widgets.ListElement;
+  private kind: ResourceKind = 'networks';
+  private networks: NetworkInfo[] = [];
+  private volumes: VolumeInfo[] = [];
+  private formatSize: (bytes: number) => string;
+
+  constructor(options: ResourcesPanelOptions) {
+    this.formatSize = options.formatSize;
+    this.widget = blessed.list({
+      parent: options.parent,
+      top: 'center',
+      left: 'center',
+      width: '80%',
+      height: '70%',
+      label: ' Networks ',
+      border: {
+        type: 'line',
+      },
+      style: {
+        fg: 'white',
+        bg: 'black',
+        border: {
+          fg: 'yellow',
+        },
+        selected: {
+          bg: 'blue',
+        },
+      },
+      scrollbar: {
+        ch: ' ',
+      },
+      keys: true,
+      vi: true,
+      mouse: true,
+      tags: true,
+      hidden: true,
+    });
+
+    this.setupKeyBindings();
+  }
+
+  private setupKeyBindings(): void {
+    this.widget.key(['delete'], () => {
+      const name = this.getSelectedName();
+      if (name) {
+        this.onRemove?.(this.kind, name);
+      }
+    });
+
+    this.widget.key(['p', 'P'], () => {
+      this.onPrune?.(this.kind);
+    });
+
+    this.widget.key(['escape'], () => {
+      this.hide();
+    });
+  }
+
+  showNetworks(networks: NetworkInfo[]): void {
+    this.kind = 'networks';
+    this.networks = networks;
+    this.open();
+  }
+
+  showVolumes(volumes: VolumeInfo[]): void {
+    this.kind = 'volumes';
+    this.volumes = volumes;
+    this.open();
+  }
+
+  // Replaces the rows in place, keeping the selection where it was
+  update(resources: NetworkInfo[] | VolumeInfo[]): void {
+    if (this.kind === 'networks') {
+      this.networks = resources as NetworkInfo[];
+    } else {
+      this.volumes = resources as VolumeInfo[];
+    }
+
+    const selected = this.widget.selected;
+    this.render();
+    this.widget.select(Math.min(selected, Math.max(this.count() - 1, 0)));
+    this.widget.screen?.render();
+  }
+
+  getKind(): ResourceKind {
+    return this.kind;
+  }
+
+  hide(): void {
+    this.widget.hide();
+    this.widget.screen?.render();
+    this.onClose?.();
+  }
+
+  isVisible(): boolean {
+    return !this.widget.hidden;
+  }
+
+  private open(): void {
+    this.widget.setLabel(this.kind === 'networks' ? ' Networks ' : ' Volumes ');
+    this.render();
+    this.widget.select(0);
+    this.widget.show();
+    this.widget.setFront();
+    this.widget.focus();
+    this.widget.screen?.render();
+  }
+
+  private count(): number {
+    return this.kind === 'networks' ? this.networks.length : this.volumes.length;
+  }
+
+  private getSelectedName(): string | undefined {
+    const index = this.widget.selected;
+    return this.kind === 'networks' ? this.networks[index]?.name : this.volumes[index]?.name;
+  }
+
+  private render(): void {
+    const rows = this.kind === 'networks'
+      ? this.networks.map(network => this.formatRow(
+        network.name,
+        network.driver,
+        network.subnets.join(', ') || '-',
+        network.containers,
+        network.builtIn,
+      ))
+      : this.volumes.map(volume => this.formatRow(
+        volume.name,
+        volume.driver,
+        volume.size !== undefined ? this.formatSize(volume.size) : '-',
+        volume.containers,
+        false,
+      ));
+
+    rows.push('', '{gray-fg}Delete: remove  P: prune unused  Esc: close{/gray-fg}');
+
+    this.widget.setItems(rows);
+  }
+
+  private formatRow(name: string, driver: string, detail: string, containers: string[], builtIn: boolean): string {
+    let usedBy: string;
+    if (containers.length > 0) {
+      usedBy = blessed.escape(containers.join(', '));
+    } else if (builtIn) {
+      usedBy = '{gray-fg}built-in{/gray-fg}';
+    } else {
+      usedBy = '{yellow-fg}unused{/yellow-fg}';
+    }
+
+    return `${blessed.escape(name.padEnd(28))} ${driver.padEnd(8)} ${detail.padEnd(16)} ${usedBy}`;
+  }
+
+  // Event handlers (to be set by parent)
+  onRemove?: (kind: ResourceKind, name: string) => void;
+  onPrune?: (kind: ResourceKind) => void;
+  onClose?: () => void;
+
+  destroy(): void {
+    this.widget.destroy();
+  }
+}
@@ -13,6 +13,8 @@ export class ServicesTable {
   public widget: blessed.Widgets.TableElement;
   private containers: ContainerInfo[] = [];
   private selectedIndex = 0;
+  // Merged multi-host view
+  private showHost = false;
 
   constructor(options: ServicesTableOptions) {
     this.widget = blessed.table({
@@ -79,6 +81,47 @@ export class ServicesTable {
       this.editEnvSelected();
     });
 
+    this.widget.key(['p', 'P'], () => {
+      this.togglePauseSelected();
+    });
+
+    // Plain k moves up in vi mode
+    this.widget.key(['C-k'], () => {
+      this.killSelected();
+    });
+
+    this.widget.key(['delete'], () => {
+      this.removeSelected();
+    });
+
+    this.widget.key(['c', 'C'], () => {
+      this.recreateSelected();
+    });
+
+    this.widget.key(['t', 'T'], () => {
+      this.execSelected();
+    });
+
+    this.widget.key(['i', 'I'], () => {
+      this.inspectSelected();
+    });
+
+    this.widget.key(['b', 'B'], () => {
+      this.buildSelected();
+    });
+
+    this.widget.key(['o', 'O'], () => {
+      this.profilesSelected();
+    });
+
+    this.widget.key(['f', 'F'], () => {
+      this.filesSelected();
+    });
+
+    this.widget.key(['l', 'L'], () => {
+      this.limitsSelected();
+    });
+
     this.widget.on('select', (_item: any, index: number) => {
       this.selectedIndex = index - 1; // Subtract 1 for header
       const selectedContainer = this.containers[this.selectedIndex];
@@ -93,9 +136,15 @@ export class ServicesTable {
     this.updateTable();
   }
 
+  setShowHost(showHost: boolean): void {
+    this.showHost = showHost;
+    this.updateTable();
+  }
+
   private updateTable(): void {
+    const header = ['Name', 'Status', 'Image', 'Ports', 'CPU', 'Memory'];
     const rows = [
-      ['Name', 'Status', 'Image', 'Ports', 'CPU', 'Memory'],
+      this.showHost ? ['Host', ...header] : header,
     ];
 
     for (const container of this.containers) {
@@ -104,8 +153,9 @@ export class ServicesTable {
       const memoryText = container.memory !== undefined ? this.formatMemory(container.memory) : 'N/A';
 
       rows.push([
+        ...(this.showHost ? [container.host || ''] : []),
         container.name,
-        `{${statusColor}-fg}${container.status}{/${statusColor}-fg}`,
+        `{${statusColor}-fg}${container.status.replace('-', ' ')}{/${statusColor}-fg}${this.formatHealth(container.health)}`,
         this.truncateText(container.image, 30),
         this.formatPorts(container.ports),
         cpuText,
@@ -124,10 +174,18 @@ export class ServicesTable {
       case 'paused': return 'yellow';
       case 'restarting': return 'cyan';
       case 'dead': return 'magenta';
+      case 'not-created': return 'gray';
       default: return 'white';
     }
   }
 
+  private formatHealth(health: ContainerInfo['health']): string {
+    if (!health || health === 'none') return '';
+
+    const color = health === 'healthy' ? 'green' : health === 'starting' ? 'yellow' : 'red';
+    return ` {${color}-fg}(${health}){/${color}-fg}`;
+  }
+
   private formatPorts(ports: string[]): string {
     if (ports.length === 0) return 'None';
     return ports.slice(0, 2).join(', ') + (ports.length > 2 ? '...' : '');
@@ -190,6 +248,76 @@ export class ServicesTable {
     }
   }
 
+  private togglePauseSelected(): void {
+    const container = this.getSelectedContainer();
+    if (container) {
+      this.onServiceAction?.(container.status === 'paused' ? 'unpause' : 'pause', container);
+    }
+  }
+
+  private killSelected(): void {
+    const container = this.getSelectedContainer();
+    if (container) {
+      this.onServiceAction?.('kill', container);
+    }
+  }
+
+  private removeSelected(): void {
+    const container = this.getSelectedContainer();
+    if (container) {
+      this.onServiceAction?.('remove', container);
+    }
+  }
+
+  private recreateSelected(): void {
+    const container = this.getSelectedContainer();
+    if (container) {
+      this.onServiceAction?.('recreate', container);
+    }
+  }
+
+  private execSelected(): void {
+    const container = this.getSelectedContainer();
+    if (container) {
+      this.onServiceAction?.('exec', container);
+    }
+  }
+
+  private inspectSelected(): void {
+    const container = this.getSelectedContainer();
+    if (container) {
+      this.onServiceAction?.('inspect', container);
+    }
+  }
+
+  private buildSelected(): void {
+    const container = this.getSelectedContainer();
+    if (container) {
+      this.onServiceAction?.('build', container);
+    }
+  }
+
+  private profilesSelected(): void {
+    const container = this.getSelectedContainer();
+    if (container) {
+      this.onServiceAction?.('profiles', container);
+    }
+  }
+
+  private filesSelected(): void {
+    const container = this.getSelectedContainer();
+    if (container) {
+      this.onServiceAction?.('files', container);
+    }
+  }
+
+  private limitsSelected(): void {
+    const container = this.getSelectedContainer();
+    if (container) {
+      this.onServiceAction?.('limits', container);
+    }
+  }
+
   // Event handlers (to be set by parent)
   onServiceSelect?: (container: ContainerInfo) => void;
   onServiceAction?: (action: string, container: ContainerInfo) => void;
@@ -1,25 +1,88 @@
 import blessed from 'blessed';
+import { promises as fs } from 'fs';
+import { basename, join, posix } from 'path';
+import type { Readable } from 'stream';
 import { ServicesTable } from './components/services-table.js';
 import { MetricsPanel } from './components/metrics-panel.js';
 import { LogsPanel } from './components/logs-panel.js';
-import { containerEngine } from '../engine/index.js';
+import { InspectPanel } from './components/inspect-panel.js';
+import { ResourcesPanel, type ResourceKind } from './components/resources-panel.js';
+import { FileBrowser } from './components/file-browser.js';
+import { AlertStrip } from './components/alert-strip.js';
+import { FILE_PREVIEW_MAX_BYTES, containerEngine, type ContainerEngineManager } from '../engine/index.js';
+import { EngineCommandError, describeEngineError } from '../engine/errors.js';
+import { BuildFailedError } from '../engine/build.js';
+import { isTextContent } from '../engine/files.js';
+import { parseMemoryLimit } from '../engine/units.js';
 import { metricsCollector } from '../metrics/index.js';
+import type { MetricsReplay } from '../metrics/recording.js';
+import { alertManager } from '../alerts/index.js';
 import { configManager } from '../config/index.js';
-import type { ContainerInfo, SystemMetrics, ContainerMetrics } from '../types/index.js';
+import { serviceOrchestrator } from '../orchestrator/index.js';
+import { composeParser, listProfiles } from '../compose/index.js';
+import type {
+  Alert,
+  AlertSink,
+  BuildStep,
+  ContainerEngine,
+  ContainerFileEntry,
+  ContainerInfo,
+  ContainerEvent,
+  SystemMetrics,
+  ContainerMetrics,
+  OrchestrationStep,
+  NetworkInfo,
+  ResourceLimits,
+  VolumeInfo,
+} from '../types/index.js';
+
+const POLL_INTERVAL_MS = 5000;
+const EVENT_REFRESH_DEBOUNCE_MS = 250;
+const KILL_SIGNALS = ['SIGTERM', 'SIGKILL', 'SIGINT', 'SIGHUP', 'SIGQUIT', 'SIGUSR1', 'SIGUSR2'];
+const REMOVE_CHOICES = ['Remove container', 'Remove container and volumes'];
+const ALL_HOSTS = 'All hosts';
+const KEEP_LIMIT = 'Keep current';
+const NO_CPU_LIMIT = 'No limit';
+const CPU_LIMIT_CHOICES = ['0.25', '0.5', '1', '2', '4', NO_CPU_LIMIT];
+// docker update reads a memory limit of 0 as "unchanged", so one cannot be lifted
+const MEMORY_LIMIT_CHOICES = ['128m', '256m', '512m', '1g', '2g', '4g'];
+// What can be done with a service that has no container yet
+const NOT_CREATED_ACTIONS = ['start', 'recreate', 'build', 'profiles'];
+
+// Replays go up and down by these steps
+const REPLAY_SPEEDS = [0.25, 0.5, 1, 2, 4, 8, 16, 32];
+
+export interface CronosUIOptions {
+  // Shows recorded metrics instead of live ones
+  metricsReplay?: MetricsReplay | undefined;
+}
 
 export class CronosUI {
   private screen: blessed.Widgets.Screen;
   private servicesTable!: ServicesTable;
   private metricsPanel!: MetricsPanel;
   private logsPanel!: LogsPanel;
+  private inspectPanel!: InspectPanel;
+  private resourcesPanel!: ResourcesPanel;
+  private fileBrowser!: FileBrowser;
+  // Whose files the file browser shows
+  private browsedContainer: ContainerInfo | undefined;
+  private alertStrip!: AlertStrip;
   private statusBar!: blessed.Widgets.BoxElement;
   private helpText!: blessed.Widgets.BoxElement;
 
   private currentFocus: 'services' | 'metrics' | 'logs' = 'services';
   private containers: ContainerInfo[] = [];
   private refreshInterval: NodeJS.Timeout | undefined;
+  private eventRefreshTimer: NodeJS.Timeout | undefined;
+  // Container whose logs are followed, re-attached when it starts again
+  private logStreamContainer: ContainerInfo | undefined;
+  // The followed log stream; replaced, not added to, when it re-attaches
+  private logStream: Readable | undefined;
+  // Shows containers from every configured host at once
+  private mergedHosts = false;
 
-  constructor() {
+  constructor(private options: CronosUIOptions = {}) {
     this.screen = blessed.screen({
       smartCSR: true,
       title: 'Cronos - Container Management',
@@ -54,6 +117,7 @@ export class CronosUI {
       left: '60%',
       width: '40%',
       height: '70%',
+      history: metricsCollector.getHistory(),
     });
 
     // Logs panel (full width, bottom)
@@ -62,7 +126,15 @@ export class CronosUI {
       top: '70%',
       left: 0,
       width: '100%',
-      height: '25%',
+      height: '25%-1',
+    });
+
+    // Firing alerts, right above the status bar
+    this.alertStrip = new AlertStrip({
+      parent: this.screen,
+      top: '95%-1',
+      left: 0,
+      width: '100%',
     });
 
     // Status bar
@@ -79,13 +151,30 @@ export class CronosUI {
       },
     });
 
+    // Inspect overlay (initially hidden)
+    this.inspectPanel = new InspectPanel({
+      parent: this.screen,
+    });
+
+    // Networks/volumes overlay (initially hidden)
+    this.resourcesPanel = new ResourcesPanel({
+      parent: this.screen,
+      formatSize: bytes => metricsCollector.formatMemory(bytes),
+    });
+
+    // Container file browser (initially hidden)
+    this.fileBrowser = new FileBrowser({
+      parent: this.screen,
+      formatSize: bytes => metricsCollector.formatMemory(bytes),
+    });
+
     // Help text (initially hidden)
     this.helpText = blessed.box({
       parent: this.screen,
       top: 'center',
       left: 'center',
       width: 60,
-      height: 20,
+      height: 50,
       label: ' Help ',
       content: this.getHelpContent(),
       border: {
@@ -121,6 +210,38 @@ export class CronosUI {
       this.refreshData();
     });
 
+    this.screen.key(['C-e'], () => {
+      this.switchEngine();
+    });
+
+    this.screen.key(['C-o'], () => {
+      this.pickHost();
+    });
+
+    this.screen.key(['C-a'], () => {
+      this.orchestrate('start');
+    });
+
+    this.screen.key(['C-x'], () => {
+      this.orchestrate('stop');
+    });
+
+    this.screen.key(['n'], () => {
+      this.showResources('networks');
+    });
+
+    this.screen.key(['v'], () => {
+      this.showResources('volumes');
+    });
+
+    this.screen.key(['+', '='], () => {
+      this.changeReplaySpeed(1);
+    });
+
+    this.screen.key(['-'], () => {
+      this.changeReplaySpeed(-1);
+    });
+
     // Focus-specific key bindings
     this.screen.key(['1'], () => {
       this.setFocus('services');
@@ -155,12 +276,71 @@ export class CronosUI {
       await this.handleServiceAction(action, container);
     };
 
+    this.inspectPanel.onClose = () => {
+      this.setFocus('services');
+    };
+
+    this.resourcesPanel.onRemove = (kind: ResourceKind, name: string) => {
+      this.removeResource(kind, name);
+    };
+
+    this.resourcesPanel.onPrune = (kind: ResourceKind) => {
+      this.pruneResources(kind);
+    };
+
+    this.resourcesPanel.onClose = () => {
+      this.setFocus('services');
+    };
+
+    this.fileBrowser.onOpen = (directory: string) => {
+      this.browseFiles(directory);
+    };
+
+    this.fileBrowser.onPreview = (entry: ContainerFileEntry) => {
+      this.previewFile(entry);
+    };
+
+    this.fileBrowser.onDownload = (entry: ContainerFileEntry) => {
+      this.downloadFile(entry);
+    };
+
+    this.fileBrowser.onUpload = (directory: string) => {
+      this.uploadFile(directory);
+    };
+
+    this.fileBrowser.onClose = () => {
+      this.browsedContainer = undefined;
+      this.setFocus('services');
+    };
+
     // Metrics updates
     metricsCollector.onMetricsUpdate((system: SystemMetrics, containers: ContainerMetrics[]) => {
       this.metricsPanel.updateSystemMetrics(system);
       this.metricsPanel.updateContainerMetrics(containers);
     });
 
+    alertManager.onAlert((alert: Alert) => {
+      this.handleAlert(alert);
+    });
+
+    alertManager.onSinkError = (sink: AlertSink, error: Error) => {
+      this.logsPanel.addLogEntry({
+        timestamp: new Date(),
+        service: 'cronos',
+        message: `Alert sink ${sink.type} failed: ${error.message}`,
+        level: 'warn',
+      });
+    };
+
+    // Engine events keep the table live; polling only covers stream outages
+    containerEngine.onContainerEvent((event: ContainerEvent) => {
+      this.handleContainerEvent(event);
+    });
+
+    containerEngine.onEventStreamChange((connected: boolean) => {
+      this.handleEventStreamChange(connected);
+    });
+
     // Screen resize
     this.screen.on('resize', () => {
       this.screen.render();
@@ -168,12 +348,20 @@ export class CronosUI {
   }
 
   private async handleServiceAction(action: string, container: ContainerInfo): Promise<void> {
+    if (container.status === 'not-created' && !NOT_CREATED_ACTIONS.includes(action)) {
+      this.updateStatusBar(`${container.name} has no container yet - press S to start it`);
+      return;
+    }
+
     try {
       this.updateStatusBar(`${action} ${container.name}...`);
+      const target = configManager.resolveComposeTarget(container);
+      // In the merged view the container may live on another host
+      const engine = containerEngine.forHost(container.host || containerEngine.getHost());
 
       switch (action) {
         case 'start':
-          await containerEngine.startServices([container.name]);
+          await engine.startServices([target.service], target.context, target.engine);
           this.logsPanel.addLogEntry({
             timestamp: new Date(),
             service: container.name,
@@ -183,7 +371,7 @@ export class CronosUI {
           break;
 
         case 'stop':
-          await containerEngine.stopServices([container.name]);
+          await engine.stopServices([target.service], target.context, target.engine);
           this.logsPanel.addLogEntry({
             timestamp: new Date(),
             service: container.name,
@@ -193,7 +381,7 @@ export class CronosUI {
           break;
 
         case 'restart':
-          await containerEngine.restartServices([container.name]);
+          await engine.restartServices([target.service], target.context, target.engine);
           this.logsPanel.addLogEntry({
             timestamp: new Date(),
             service: container.name,
@@ -202,21 +390,162 @@ export class CronosUI {
           });
           break;
 
+        case 'recreate':
+          await engine.recreateServices([target.service], target.context, target.engine);
+          this.logsPanel.addLogEntry({
+            timestamp: new Date(),
+            service: container.name,
+            message: 'Service recreated',
+            level: 'info',
+          });
+          break;
+
+        case 'pause':
+          await engine.pauseContainer(container.name, target.engine);
+          this.logsPanel.addLogEntry({
+            timestamp: new Date(),
+            service: container.name,
+            message: 'Container paused',
+            level: 'info',
+          });
+          break;
+
+        case 'unpause':
+          await engine.unpauseContainer(container.name, target.engine);
+          this.logsPanel.addLogEntry({
+            timestamp: new Date(),
+            service: container.name,
+            message: 'Container unpaused',
+            level: 'info',
+          });
+          break;
+
+        case 'kill': {
+          const signal = await this.pickOption(`Kill ${container.name}`, KILL_SIGNALS);
+          if (!signal) {
+            this.updateStatusBar(`${action} ${container.name} cancelled`);
+            return;
+          }
+
+          await engine.killContainer(container.name, signal, target.engine);
+          this.logsPanel.addLogEntry({
+            timestamp: new Date(),
+            service: container.name,
+            message: `Container killed with ${signal}`,
+            level: 'info',
+          });
+          break;
+        }
+
+        case 'remove': {
+          const choice = await this.pickOption(`Remove ${container.name}`, REMOVE_CHOICES);
+          if (!choice) {
+            this.updateStatusBar(`${action} ${container.name} cancelled`);
+            return;
+          }
+
+          const volumes = choice === REMOVE_CHOICES[1];
+          await engine.removeContainer(container.name, { volumes, force: true }, target.engine);
+          this.logsPanel.addLogEntry({
+            timestamp: new Date(),
+            service: container.name,
+            message: volumes ? 'Container and volumes removed' : 'Container removed',
+            level: 'info',
+          });
+          break;
+        }
+
+        case 'exec': {
+          if (container.status !== 'running') {
+            throw new Error(`Container ${container.name} is not running`);
+          }
+
+          const shell = await engine.detectShell(container.name, target.engine);
+          const argv = await engine.execArgv(container.name, [shell], true, target.engine);
+          const exitCode = await this.runSuspended(argv);
+          this.logsPanel.addLogEntry({
+            timestamp: new Date(),
+            service: container.name,
+            message: `Shell (${shell}) exited with code ${exitCode}`,
+            level: exitCode === 0 ? 'info' : 'warn',
+          });
+          break;
+        }
+
+        case 'files': {
+          if (container.status !== 'running') {
+            throw new Error(`Container ${container.name} is not running`);
+          }
+
+          const entries = await engine.listContainerFiles(container.name, '/', target.engine);
+          this.browsedContainer = container;
+          this.fileBrowser.show(container.name, '/', entries);
+          break;
+        }
+
+        case 'limits': {
+          if (container.status !== 'running') {
+            throw new Error(`Container ${container.name} is not running`);
+          }
+
+          const limits = await this.pickLimits(container, engine, target.engine);
+          if (!limits) {
+            this.updateStatusBar(`${action} ${container.name} cancelled`);
+            return;
+          }
+
+          await engine.updateContainerLimits(container.name, limits, target.engine);
+          this.logsPanel.addLogEntry({
+            timestamp: new Date(),
+            service: container.name,
+            message: `Limits updated: ${this.formatLimits(limits)}`,
+            level: 'info',
+          });
+          // Show the new memory limit without waiting for the next poll
+          await metricsCollector.refresh();
+          break;
+        }
+
+        case 'inspect': {
+          const details = await engine.getContainerDetails(container.name, target.engine);
+          this.inspectPanel.show(details);
+          break;
+        }
+
+        case 'build': {
+          const summary = await engine.buildServices([target.service], target.context, target.engine, {
+            onStep: (step: BuildStep) => this.logBuildStep(container.name, step),
+            onOutput: (line: string) => this.logsPanel.addRawLog(blessed.escape(line), container.name),
+          });
+          const cache = summary.instructions > 0 ? `, ${summary.cached}/${summary.instructions} steps cached` : '';
+          this.logsPanel.addLogEntry({
+            timestamp: new Date(),
+            service: container.name,
+            message: `Image built in ${(summary.durationMs / 1000).toFixed(1)}s${cache}`,
+            level: 'info',
+          });
+          break;
+        }
+
         case 'logs':
           this.logsPanel.setService(container.name);
           this.setFocus('logs');
-          this.streamLogs(container.name);
+          this.streamLogs(container);
           break;
 
         case 'edit-env':
           await this.editEnvironment(container.name);
           break;
+
+        case 'profiles':
+          await this.toggleProfiles(container);
+          break;
       }
 
       await this.refreshContainers();
       this.updateStatusBar(`${action} ${container.name} completed`);
     } catch (error) {
-      const errorMessage = `Error ${action} ${container.name}: ${(error as Error).message}`;
+      const errorMessage = `Error ${action} ${container.name}: ${describeEngineError(error)}`;
       this.updateStatusBar(errorMessage);
       this.logsPanel.addLogEntry({
         timestamp: new Date(),
@@ -224,12 +553,183 @@ export class CronosUI {
         message: errorMessage,
         level: 'error',
       });
+
+      // Point at the step that broke, with its output, rather than the exit code
+      if (error instanceof BuildFailedError && error.failedStep) {
+        const step = error.failedStep;
+        this.logsPanel.addLogEntry({
+          timestamp: new Date(),
+          service: container.name,
+          message: `{bold}Build failed at ${blessed.escape(step.name)}{/bold}`,
+          level: 'error',
+        });
+        for (const line of step.output) {
+          this.logsPanel.addLogEntry({
+            timestamp: new Date(),
+            service: container.name,
+            message: `{red-fg}${blessed.escape(line)}{/red-fg}`,
+            level: 'error',
+          });
+        }
+      }
+
+      // The full stderr tail is more than fits in the status bar
+      if (error instanceof EngineCommandError) {
+        for (const line of error.stderr.split('\n').filter(Boolean)) {
+          this.logsPanel.addRawLog(line, container.name);
+        }
+      }
+    }
+  }
+
+  private logBuildStep(service: string, step: BuildStep): void {
+    if (step.status === 'running') {
+      this.updateStatusBar(`Building ${service}: ${step.name}`);
+      return;
+    }
+
+    const detail = step.status === 'cached' ? 'cached' : `${step.status} in ${((step.durationMs ?? 0) / 1000).toFixed(1)}s`;
+    this.logsPanel.addLogEntry({
+      timestamp: new Date(),
+      service,
+      message: `${blessed.escape(step.name)} {gray-fg}(${detail}){/gray-fg}`,
+      level: step.status === 'failed' ? 'error' : 'info',
+    });
+  }
+
+  // Hands the terminal to a foreground process and redraws when it exits
+  private runSuspended(argv: string[]): Promise<number> {
+    const [file = '', ...args] = argv;
+
+    return new Promise((resolve, reject) => {
+      const child = this.screen.spawn(file, args, {});
+      child.on('error', reject);
+      child.on('exit', (code: number | null) => resolve(code ?? 1));
+    });
+  }
+
+  // Small modal list; resolves to null when dismissed with Escape
+  private pickOption(title: string, options: string[]): Promise<string | null> {
+    return new Promise(resolve => {
+      const list = blessed.list({
+        parent: this.screen,
+        top: 'center',
+        left: 'center',
+        width: 40,
+        // Long lists scroll instead of running off the screen
+        height: Math.min(options.length + 2, (this.screen.height as number) - 4),
+        label: ` ${title} `,
+        items: options,
+        keys: true,
+        vi: true,
+        border: {
+          type: 'line',
+        },
+        style: {
+          fg: 'white',
+          bg: 'black',
+          border: {
+            fg: 'yellow',
+          },
+          selected: {
+            bg: 'blue',
+          },
+        },
+      });
+
+      const finish = (value: string | null) => {
+        list.destroy();
+        this.setFocus('services');
+        resolve(value);
+      };
+
+      list.on('select', (_item, index) => finish(options[index] ?? null));
+      list.key(['escape'], () => finish(null));
+
+      list.focus();
+      this.screen.render();
+    });
+  }
+
+  private handleContainerEvent(event: ContainerEvent): void {
+    const failed = (event.action === 'die' && event.exitCode !== undefined && event.exitCode !== 0)
+      || event.health === 'unhealthy';
+    const detail = event.action === 'health_status'
+      ? `health: ${event.health ?? 'unknown'}`
+      : event.action + (event.exitCode !== undefined ? ` (exit code ${event.exitCode})` : '');
+
+    this.logsPanel.addLogEntry({
+      timestamp: event.timestamp,
+      service: event.name,
+      message: `Container ${detail}`,
+      level: failed ? 'warn' : 'info',
+    });
+
+    // Re-attach the followed log stream when its container comes back; events
+    // only come from the current host
+    const followed = this.logStreamContainer;
+    if (event.action === 'start' && followed?.name === event.name && (followed.host || containerEngine.getHost()) === containerEngine.getHost()) {
+      this.streamLogs(followed);
+    }
+
+    this.scheduleEventRefresh();
+  }
+
+  private scheduleEventRefresh(): void {
+    // Coalesce bursts (compose up emits create/start for every container)
+    if (this.eventRefreshTimer) return;
+
+    this.eventRefreshTimer = setTimeout(() => {
+      this.eventRefreshTimer = undefined;
+      this.refreshContainers();
+    }, EVENT_REFRESH_DEBOUNCE_MS);
+  }
+
+  private handleEventStreamChange(connected: boolean): void {
+    if (connected) {
+      if (!this.mergedHosts) {
+        this.stopPolling();
+      }
+      this.refreshContainers();
+    } else {
+      this.startPolling();
     }
+    this.updateStatusBar(connected ? 'Event stream connected' : 'Event stream lost - polling every 5s');
   }
 
-  private async streamLogs(serviceName: string): Promise<void> {
+  private startPolling(): void {
+    if (this.refreshInterval) return;
+
+    this.refreshInterval = setInterval(() => {
+      this.refreshContainers();
+    }, POLL_INTERVAL_MS);
+  }
+
+  private stopPolling(): void {
+    if (this.refreshInterval) {
+      clearInterval(this.refreshInterval);
+      this.refreshInterval = undefined;
+    }
+  }
+
+  private stopLogStream(): void {
+    this.logStream?.destroy();
+    this.logStream = undefined;
+  }
+
+  private async streamLogs(container: ContainerInfo): Promise<void> {
+    const serviceName = container.name;
+    this.logStreamContainer = container;
+    this.stopLogStream();
+
     try {
-      const logStream = await containerEngine.getLogs(serviceName, true);
+      const logStream = await this.browsedEngine(container).getContainerLogs(serviceName, true);
+      // Another stream may have been asked for while this one opened
+      if (this.logStreamContainer !== container || this.logStream) {
+        logStream.destroy();
+        return;
+      }
+      this.logStream = logStream;
 
       logStream.on('data', (chunk: Buffer) => {
         const lines = chunk.toString().split('\n');
@@ -252,12 +752,71 @@ export class CronosUI {
       this.logsPanel.addLogEntry({
         timestamp: new Date(),
         service: serviceName,
-        message: `Failed to stream logs: ${(error as Error).message}`,
+        message: `Failed to stream logs: ${describeEngineError(error)}`,
         level: 'error',
       });
     }
   }
 
+  /**
+   * Switches the compose profiles of the container's cronos.yml service on
+   * and off. The choice is saved and applies from the next start.
+   */
+  private async toggleProfiles(container: ContainerInfo): Promise<void> {
+    const service = configManager.findServiceForContainer(container);
+    if (!service) {
+      throw new Error(`${container.name} is not part of a service in cronos.yml`);
+    }
+
+    const profiles = listProfiles(await composeParser.parse(configManager.resolveServiceContext(service)));
+    if (profiles.length === 0) {
+      throw new Error(`${service.name} declares no compose profiles`);
+    }
+
+    let enabled = service.profiles ?? [];
+    for (;;) {
+      const choice = await this.pickOption(`${service.name} profiles`, profiles.map(profile => `[${enabled.includes(profile) ? 'x' : ' '}] ${profile}`));
+      if (!choice) break;
+
+      const profile = choice.substring(4);
+      const enabling = !enabled.includes(profile);
+      enabled = enabling ? [...enabled, profile] : enabled.filter(name => name !== profile);
+      await configManager.updateService(service.name, { profiles: enabled });
+
+      this.logsPanel.addLogEntry({
+        timestamp: new Date(),
+        service: service.name,
+        message: `Profile ${profile} ${enabling ? 'enabled' : 'disabled'} - applies when the service is next started`,
+        level: 'info',
+      });
+    }
+  }
+
+  // Asks for CPUs, then memory; null when either was cancelled
+  private async pickLimits(container: ContainerInfo, engine: ContainerEngineManager, target: ContainerEngine | undefined): Promise<ResourceLimits | null> {
+    const { limits } = await engine.getContainerDetails(container.name, target);
+    const current = { ...limits, memory: limits.memory !== undefined ? metricsCollector.formatMemory(limits.memory) : undefined };
+
+    const cpus = await this.pickOption(`CPUs (now ${current.cpus ?? 'unlimited'})`, [KEEP_LIMIT, ...CPU_LIMIT_CHOICES]);
+    if (!cpus) return null;
+    const memory = await this.pickOption(`Memory (now ${current.memory ?? 'unlimited'})`, [KEEP_LIMIT, ...MEMORY_LIMIT_CHOICES]);
+    if (!memory) return null;
+
+    return {
+      // docker update takes 0 CPUs as no limit
+      cpus: cpus === KEEP_LIMIT ? undefined : cpus === NO_CPU_LIMIT ? 0 : parseFloat(cpus),
+      memory: memory === KEEP_LIMIT ? undefined : parseMemoryLimit(memory),
+    };
+  }
+
+  private formatLimits(limits: ResourceLimits): string {
+    const parts = [
+      limits.cpus !== undefined ? (limits.cpus > 0 ? `${limits.cpus} CPUs` : 'no CPU limit') : '',
+      limits.memory !== undefined ? `${metricsCollector.formatMemory(limits.memory)} memory` : '',
+    ].filter(Boolean);
+    return parts.length > 0 ? parts.join(', ') : 'unchanged';
+  }
+
   private async editEnvironment(serviceName: string): Promise<void> {
     // This would open an environment editor modal
     // For now, just show a message
@@ -327,6 +886,21 @@ export class CronosUI {
       'R            - Restart selected service',
       'D            - Show logs for service',
       'E            - Edit environment (coming soon)',
+      'P            - Pause/unpause selected container',
+      'Ctrl+K       - Kill selected container (pick signal)',
+      'C            - Recreate selected service',
+      'Delete       - Remove selected container',
+      'T            - Open a shell in selected container',
+      'I            - Inspect selected container',
+      'B            - Build image(s) for selected service',
+      'O            - Toggle compose profiles of selected service',
+      'F            - Browse files of selected container',
+      'L            - Change CPU/memory limits of selected container',
+      '',
+      '{underline}Metrics Panel:{/underline}',
+      'Up/Down      - Pick the host or a container to chart',
+      'W            - Cycle time window (1m/5m/15m/1h)',
+      'G            - Cycle chart (CPU/memory/network)',
       '',
       '{underline}Logs Panel:{/underline}',
       'F            - Toggle follow mode',
@@ -335,11 +909,346 @@ export class CronosUI {
       '',
       '{underline}Global:{/underline}',
       'F5/R         - Refresh data',
+      'Ctrl+E       - Switch container engine',
+      'Ctrl+O       - Switch host or show all hosts',
+      'Ctrl+A       - Start all services in dependency order',
+      'Ctrl+X       - Stop all services in dependency order',
+      'N            - Networks and the containers using them',
+      'V            - Volumes, their size and users',
+      '+/-          - Faster/slower metrics replay',
       '?            - Show/hide this help',
       'Q/Ctrl+C     - Quit',
     ].join('\n');
   }
 
+  // Brings every service in cronos.yml up or down, honouring depends_on
+  private async orchestrate(direction: 'start' | 'stop'): Promise<void> {
+    if (configManager.getServices().length === 0) {
+      this.updateStatusBar('No services in cronos.yml');
+      return;
+    }
+
+    const onStep = (step: OrchestrationStep) => {
+      const message = step.action === 'waiting'
+        ? `Waiting for ${step.dependencies?.join(', ')} to be healthy`
+        : `${step.action.charAt(0).toUpperCase()}${step.action.slice(1)} (level ${step.level + 1})`;
+
+      this.updateStatusBar(`${step.service}: ${message}`);
+      this.logsPanel.addLogEntry({
+        timestamp: new Date(),
+        service: step.service,
+        message,
+        level: step.action === 'failed' ? 'error' : 'info',
+      });
+    };
+
+    try {
+      this.updateStatusBar(`${direction === 'start' ? 'Starting' : 'Stopping'} all services...`);
+
+      if (direction === 'start') {
+        await serviceOrchestrator.startAll({ onStep });
+      } else {
+        await serviceOrchestrator.stopAll({ onStep });
+      }
+
+      await this.refreshContainers();
+      this.updateStatusBar(`${direction === 'start' ? 'Started' : 'Stopped'} all services`);
+    } catch (error) {
+      const errorMessage = `Failed to ${direction} all services: ${describeEngineError(error)}`;
+      this.updateStatusBar(errorMessage);
+      this.logsPanel.addLogEntry({
+        timestamp: new Date(),
+        service: 'cronos',
+        message: errorMessage,
+        level: 'error',
+      });
+    }
+  }
+
+  private loadResources(kind: ResourceKind): Promise<NetworkInfo[] | VolumeInfo[]> {
+    return kind === 'networks' ? containerEngine.listNetworks() : containerEngine.listVolumes();
+  }
+
+  private async showResources(kind: ResourceKind): Promise<void> {
+    try {
+      this.updateStatusBar(`Loading ${kind}...`);
+      const resources = await this.loadResources(kind);
+
+      if (kind === 'networks') {
+        this.resourcesPanel.showNetworks(resources as NetworkInfo[]);
+      } else {
+        this.resourcesPanel.showVolumes(resources as VolumeInfo[]);
+      }
+      this.updateStatusBar(`${resources.length} ${kind}`);
+    } catch (error) {
+      this.updateStatusBar(`Failed to list ${kind}: ${describeEngineError(error)}`);
+    }
+  }
+
+  // pickOption moves focus back to the services table, so hand it back to the panel
+  private async reloadResources(kind: ResourceKind): Promise<void> {
+    this.resourcesPanel.update(await this.loadResources(kind));
+    this.resourcesPanel.widget.focus();
+    this.screen.render();
+  }
+
+  private async removeResource(kind: ResourceKind, name: string): Promise<void> {
+    const choice = await this.pickOption(`Remove ${name}`, ['Remove', 'Cancel']);
+
+    try {
+      if (choice === 'Remove') {
+        if (kind === 'networks') {
+          await containerEngine.removeNetwork(name);
+        } else {
+          await containerEngine.removeVolume(name);
+        }
+        this.logsPanel.addLogEntry({
+          timestamp: new Date(),
+          service: 'cronos',
+          message: `Removed ${kind === 'networks' ? 'network' : 'volume'} ${name}`,
+          level: 'info',
+        });
+        this.updateStatusBar(`Removed ${name}`);
+      }
+      await this.reloadResources(kind);
+    } catch (error) {
+      this.updateStatusBar(`Failed to remove ${name}: ${describeEngineError(error)}`);
+      this.resourcesPanel.widget.focus();
+    }
+  }
+
+  private async pruneResources(kind: ResourceKind): Promise<void> {
+    try {
+      const unused = kind === 'networks'
+        ? await containerEngine.findUnusedNetworks()
+        : await containerEngine.findUnusedVolumes();
+      if (unused.length === 0) {
+        this.updateStatusBar(`No unused ${kind}`);
+        return;
+      }
+
+      const choice = await this.pickOption(`Prune ${unused.length} unused ${kind}`, ['Prune', 'Cancel']);
+      if (choice === 'Prune') {
+        const result = kind === 'networks'
+          ? await containerEngine.pruneNetworks()
+          : await containerEngine.pruneVolumes();
+        const reclaimed = result.reclaimed > 0 ? `, reclaimed ${metricsCollector.formatMemory(result.reclaimed)}` : '';
+
+        for (const failure of result.failed) {
+          this.logsPanel.addLogEntry({
+            timestamp: new Date(),
+            service: 'cronos',
+            message: `Could not remove ${failure.name}: ${failure.error.message}`,
+            level: 'warn',
+          });
+        }
+        this.updateStatusBar(`Pruned ${result.removed.length} ${kind}${reclaimed}`);
+      }
+      await this.reloadResources(kind);
+    } catch (error) {
+      this.updateStatusBar(`Failed to prune ${kind}: ${describeEngineError(error)}`);
+      this.resourcesPanel.widget.focus();
+    }
+  }
+
+  // The browsed container may live on another host in the merged view
+  private browsedEngine(container: ContainerInfo): ContainerEngineManager {
+    return containerEngine.forHost(container.host || containerEngine.getHost());
+  }
+
+  private async browseFiles(directory: string): Promise<void> {
+    const container = this.browsedContainer;
+    if (!container) return;
+
+    try {
+      const target = configManager.resolveComposeTarget(container);
+      const entries = await this.browsedEngine(container).listContainerFiles(container.name, directory, target.engine);
+      this.fileBrowser.update(directory, entries);
+    } catch (error) {
+      this.updateStatusBar(`Cannot open ${directory}: ${describeEngineError(error)}`);
+    }
+  }
+
+  private async previewFile(entry: ContainerFileEntry): Promise<void> {
+    const container = this.browsedContainer;
+    if (!container) return;
+
+    if (entry.size > FILE_PREVIEW_MAX_BYTES) {
+      this.updateStatusBar(`${entry.name} is too large to preview - press D to download it`);
+      return;
+    }
+
+    try {
+      const target = configManager.resolveComposeTarget(container);
+      const content = await this.browsedEngine(container).readContainerFile(container.name, entry.path, target.engine);
+      if (!isTextContent(content)) {
+        this.updateStatusBar(`${entry.name} is not a text file - press D to download it`);
+        return;
+      }
+      this.fileBrowser.showPreview(entry.path, content);
+    } catch (error) {
+      this.updateStatusBar(`Cannot read ${entry.path}: ${describeEngineError(error)}`);
+    }
+  }
+
+  // Downloads and uploads go to and from the service's project directory
+  private projectDirectory(container: ContainerInfo): string {
+    const service = configManager.findServiceForContainer(container);
+    return service ? configManager.resolveServiceDirectory(service) : container.compose?.workingDir ?? process.cwd();
+  }
+
+  private async downloadFile(entry: ContainerFileEntry): Promise<void> {
+    const container = this.browsedContainer;
+    if (!container) return;
+
+    const destination = join(this.projectDirectory(container), entry.name);
+    try {
+      this.updateStatusBar(`Downloading ${entry.path}...`);
+      const target = configManager.resolveComposeTarget(container);
+      await this.browsedEngine(container).copyFromContainer(container.name, entry.path, destination, target.engine);
+
+      this.logsPanel.addLogEntry({
+        timestamp: new Date(),
+        service: container.name,
+        message: `Downloaded ${entry.path} to ${destination}`,
+        level: 'info',
+      });
+      this.updateStatusBar(`Downloaded ${entry.name}`);
+    } catch (error) {
+      this.updateStatusBar(`Failed to download ${entry.path}: ${describeEngineError(error)}`);
+    }
+  }
+
+  private async uploadFile(directory: string): Promise<void> {
+    const container = this.browsedContainer;
+    if (!container) return;
+
+    const source = this.projectDirectory(container);
+    const files = (await fs.readdir(source, { withFileTypes: true }).catch(() => []))
+      .filter(entry => entry.isFile())
+      .map(entry => entry.name)
+      .sort();
+    if (files.length === 0) {
+      this.updateStatusBar(`No files to upload in ${source}`);
+      return;
+    }
+
+    const choice = await this.pickOption(`Upload from ${basename(source)}`, files);
+    // pickOption moves focus back to the services table
+    this.fileBrowser.widget.focus();
+    if (!choice) return;
+
+    const destination = posix.join(directory, choice);
+    try {
+      this.updateStatusBar(`Uploading ${choice}...`);
+      const target = configManager.resolveComposeTarget(container);
+      await this.browsedEngine(container).copyToContainer(container.name, join(source, choice), destination, target.engine);
+
+      this.logsPanel.addLogEntry({
+        timestamp: new Date(),
+        service: container.name,
+        message: `Uploaded ${join(source, choice)} to ${destination}`,
+        level: 'info',
+      });
+      await this.browseFiles(directory);
+      this.updateStatusBar(`Uploaded ${choice}`);
+    } catch (error) {
+      this.updateStatusBar(`Failed to upload ${choice}: ${describeEngineError(error)}`);
+    }
+  }
+
+  private async pickHost(): Promise<void> {
+    const hosts = containerEngine.getHosts();
+    if (hosts.length === 1) {
+      this.updateStatusBar('No other hosts in cronos.yml');
+      return;
+    }
+
+    const choice = await this.pickOption('Host', [...hosts, ALL_HOSTS]);
+    if (!choice) return;
+
+    try {
+      this.mergedHosts = choice === ALL_HOSTS;
+      this.servicesTable.setShowHost(this.mergedHosts);
+
+      if (!this.mergedHosts && choice !== containerEngine.getHost()) {
+        this.updateStatusBar(`Connecting to ${choice}...`);
+        await containerEngine.switchHost(choice);
+      }
+
+      // Other hosts have no event stream here, so the merged view polls
+      if (this.mergedHosts) {
+        this.startPolling();
+      } else if (containerEngine.isEventStreamConnected()) {
+        this.stopPolling();
+      }
+
+      await this.refreshContainers();
+      const message = this.mergedHosts ? 'Showing all hosts' : `Switched to host ${choice}`;
+      this.logsPanel.addLogEntry({
+        timestamp: new Date(),
+        service: 'cronos',
+        message,
+        level: 'info',
+      });
+      this.updateStatusBar(message);
+    } catch (error) {
+      this.updateStatusBar(`Failed to switch host: ${describeEngineError(error)}`);
+    }
+  }
+
+  private async switchEngine(): Promise<void> {
+    try {
+      const available = await containerEngine.getAvailableEngines();
+      const current = containerEngine.getEngine();
+      const next = available[(available.indexOf(current) + 1) % available.length];
+
+      if (!next || next === current) {
+        this.updateStatusBar('No other container engine available');
+        return;
+      }
+
+      this.updateStatusBar(`Switching to ${next}...`);
+      await containerEngine.switchEngine(next);
+      await this.refreshContainers();
+
+      this.logsPanel.addLogEntry({
+        timestamp: new Date(),
+        service: 'cronos',
+        message: `Switched to ${next} engine`,
+        level: 'info',
+      });
+      this.updateStatusBar(`Switched to ${next} engine`);
+    } catch (error) {
+      this.updateStatusBar(`Failed to switch engine: ${describeEngineError(error)}`);
+    }
+  }
+
+  private changeReplaySpeed(direction: 1 | -1): void {
+    const replay = this.options.metricsReplay;
+    if (!replay) return;
+
+    const current = REPLAY_SPEEDS.findIndex(speed => speed >= replay.getSpeed());
+    const index = Math.min(Math.max((current < 0 ? REPLAY_SPEEDS.length - 1 : current) + direction, 0), REPLAY_SPEEDS.length - 1);
+    replay.setSpeed(REPLAY_SPEEDS[index]!);
+
+    const { frame, frames } = replay.getPosition();
+    this.updateStatusBar(`Replaying metrics at ${replay.getSpeed()}x (frame ${frame}/${frames})`);
+  }
+
+  private handleAlert(alert: Alert): void {
+    this.alertStrip.update(alertManager.getFiring());
+
+    const firing = alert.state === 'firing';
+    this.logsPanel.addLogEntry({
+      timestamp: new Date(),
+      service: alert.target,
+      message: `${firing ? 'Alert firing' : 'Alert resolved'}: [${alert.rule}] ${alert.message}`,
+      level: firing ? 'error' : 'info',
+    });
+    this.updateStatusBar(`${firing ? 'ALERT' : 'Resolved'}: [${alert.rule}] ${alert.message}`);
+  }
+
   private async refreshData(): Promise<void> {
     this.updateStatusBar('Refreshing data...');
     await this.refreshContainers();
@@ -348,7 +1257,12 @@ export class CronosUI {
 
   private async refreshContainers(): Promise<void> {
     try {
-      this.containers = await containerEngine.listContainers();
+      if (this.mergedHosts) {
+        this.containers = await this.listAllHosts();
+      } else {
+        const containers = await containerEngine.listContainers();
+        this.containers = [...containers, ...await composeParser.findNotCreated(containers)];
+      }
       this.servicesTable.updateContainers(this.containers);
     } catch (error) {
       this.logsPanel.addLogEntry({
@@ -360,17 +1274,34 @@ export class CronosUI {
     }
   }
 
+  private async listAllHosts(): Promise<ContainerInfo[]> {
+    const listings = await containerEngine.listContainersOnAllHosts();
+    const unreachable = listings.filter(listing => listing.error).map(listing => listing.host);
+
+    if (unreachable.length > 0) {
+      this.updateStatusBar(`Unreachable: ${unreachable.join(', ')}`);
+    }
+    return listings.flatMap(listing => listing.containers);
+  }
+
   private updateStatusBar(message: string): void {
-    const engine = containerEngine.getEngine();
-    const status = ` ${message} | Engine: ${engine} | Press ? for help`;
+    // Switching engine or host leaves none for a moment
+    const engine = containerEngine.getCurrentEngine() ?? 'connecting...';
+    const host = this.mergedHosts ? ALL_HOSTS.toLowerCase() : containerEngine.getHost();
+    const updates = containerEngine.isEventStreamConnected() && !this.mergedHosts ? 'live' : 'polling';
+    const firing = alertManager.getFiring().length;
+    const alerts = firing > 0 ? ` | Alerts: ${firing} firing` : '';
+    const status = ` ${message} | Engine: ${engine} | Host: ${host} | Updates: ${updates}${alerts} | Press ? for help`;
     this.statusBar.setContent(status);
     this.screen.render();
   }
 
   async start(): Promise<void> {
     try {
-      // Initialize configuration
-      await configManager.loadConfig();
+      // The CLI has usually loaded it already, possibly from -c <path>
+      if (!configManager.getConfig()) {
+        await configManager.loadConfig();
+      }
 
       // Initialize container engine
       await containerEngine.initialize();
@@ -379,16 +1310,30 @@ export class CronosUI {
       const engine = containerEngine.getEngine();
       this.updateStatusBar(`Ready | Engine: ${engine} | Press ? for help`);
 
+      // Alerts see every metrics update, replayed ones included
+      const alerts = configManager.getConfig()?.alerts;
+      alertManager.configure(alerts);
+      this.alertStrip.setHasRules((alerts?.rules.length ?? 0) > 0);
+      this.alertStrip.update(alertManager.getFiring());
+      alertManager.start();
+
       // Start metrics collection
+      metricsCollector.configure(configManager.getConfig()?.metrics);
+      const replay = this.options.metricsReplay;
+      if (replay) {
+        replay.onEnd = () => this.updateStatusBar('Metrics replay finished');
+        metricsCollector.replay(replay);
+      }
       await metricsCollector.start();
 
       // Initial data load
       await this.refreshContainers();
 
-      // Set up refresh interval
-      this.refreshInterval = setInterval(() => {
-        this.refreshContainers();
-      }, 5000);
+      // Subscribe to engine events, polling until the stream is up
+      await containerEngine.watchEvents();
+      if (!containerEngine.isEventStreamConnected()) {
+        this.startPolling();
+      }
 
       // Set initial focus
       this.setFocus('services');
@@ -402,6 +1347,14 @@ export class CronosUI {
         message: `Cronos started with ${engine} engine`,
         level: 'info',
       });
+      if (replay) {
+        this.logsPanel.addLogEntry({
+          timestamp: new Date(),
+          service: 'cronos',
+          message: `Replaying ${replay.getPosition().frames} recorded metrics frames at ${replay.getSpeed()}x - +/- changes the speed`,
+          level: 'info',
+        });
+      }
 
     } catch (error) {
       this.updateStatusBar(`Startup error: ${(error as Error).message}`);
@@ -416,11 +1369,14 @@ export class CronosUI {
 
   private quit(): void {
     // Cleanup
-    if (this.refreshInterval) {
-      clearInterval(this.refreshInterval);
+    this.stopPolling();
+    if (this.eventRefreshTimer) {
+      clearTimeout(this.eventRefreshTimer);
     }
 
+    containerEngine.stopWatchingEvents();
     metricsCollector.stop();
+    alertManager.stop();
 
     // Exit
     process.exit(0);
@@ -430,6 +1386,7 @@ export class CronosUI {
     this.servicesTable.destroy();
     this.metricsPanel.destroy();
     this.logsPanel.destroy();
+    this.alertStrip.destroy();
     this.screen.destroy();
   }
 }
\ No newline at end of file